@@ -4,22 +4,58 @@ import { WaveformCanvas } from './components/WaveformCanvas';
 import { MarkerControlStrip, type ExportFormat } from './components/MarkerControlStrip';
 import { FileLoaderButton } from './components/FileLoaderButton';
 import { EditorToolbar } from './components/EditorToolbar';
-import type { ExportAllFormat } from './components/ExportAllButton';
+import { ExportAllDialog, type ExportAllChoice } from './components/ExportAllDialog';
+import { InstrumentExportDialog, type InstrumentExportChoice } from './components/InstrumentExportDialog';
 import { ExportProgressOverlay } from './components/ExportProgressOverlay';
 import { ConfirmResetDialog } from './components/ConfirmResetDialog';
+import type { SliceTool } from './components/SliceToolsMenu';
+import { TransientSlicePanel } from './components/TransientSlicePanel';
+import { BeatGridSlicePanel } from './components/BeatGridSlicePanel';
+import { SilenceSlicePanel } from './components/SilenceSlicePanel';
+import { EqualDivisionSlicePanel } from './components/EqualDivisionSlicePanel';
+import { SectionLoopPanel } from './components/SectionLoopPanel';
+import { TempoControl } from './components/TempoControl';
+import { ProjectMenu } from './components/ProjectMenu';
+import { ProjectRelinkDialog } from './components/ProjectRelinkDialog';
+import { EmbeddedMarkersDialog } from './components/EmbeddedMarkersDialog';
 import { audioService } from './services/AudioService';
 import { waveformService } from './services/WaveformService';
-import { encodeWav, encodeMp3, sanitizeFilename, createZipArchive } from './services/audioExport';
+import { audioAnalysisService } from './services/AudioAnalysisService';
+import { autosaveService } from './services/AutosaveService';
+import { encodeWav, encodeWavWithCuePoints, encodeAiff, encodeAiffChain, encodeMp3, encodeFlac, sanitizeFilename, createZipArchive, type WavExportOptions } from './services/audioExport';
+import { getLabelsForEmbeddedMarkers, getMarkerDraftsForLabels, importMarkerFile } from './services/markerImport';
+import { exportMarkerFile, getMarkerExportFileName } from './services/markerExport';
+import { describeAudioSource, getProjectFileName, getSourceMismatches, parseProjectFile, serializeProjectFile } from './services/projectFile';
+import { getSectionFilenames, getUniqueFilename } from './services/filenameTemplate';
+import { createSfzFile } from './services/sfzExport';
+import { createDecentSamplerPreset } from './services/decentSamplerExport';
+import { createMpcProgram, getMpcKitSections, getMpcPadNote } from './services/mpcExport';
+import { createOp1DrumChunk, OP1_SAMPLE_RATE, validateOp1DrumChain } from './services/op1Export';
+import { createSliceMidiFile, validateSliceMidi } from './services/midiExport';
+import { createExportManifest, createExportManifestCsv, MANIFEST_CSV_FILE_NAME, MANIFEST_JSON_FILE_NAME, type ExportManifestFile } from './services/exportManifest';
 import { saveAs } from 'file-saver';
 import { useZoom } from './hooks/useZoom';
 import { useMarkers } from './hooks/useMarkers';
+import { useTempo } from './hooks/useTempo';
+import { useSnapSettings } from './hooks/useSnapSettings';
+import { useExportSettings } from './hooks/useExportSettings';
+import { useAutosave } from './hooks/useAutosave';
 import { usePlayback } from './hooks/usePlayback';
 import { useKeyboardControls } from './hooks/useKeyboardControls';
 import { useExportProgress } from './hooks/useExportProgress';
 import { useToast } from './hooks/useToast';
 import { Toast } from './components/Toast';
-import { getSections } from './utils/sections';
+import { getExportSections, getSections } from './utils/sections';
+import { getGridDefinition, snapToGrid } from './utils/grid';
+import { getBaseName } from './utils/fileNames';
 import type { WaveformPeaks } from './types/waveform';
+import type { MarkerDraft, SectionLoop } from './types/marker';
+import type { Section } from './types/section';
+import type { SnapOptions } from './types/snap';
+import type { ProjectFile, ProjectSource } from './types/project';
+import type { MarkerExportFormat } from './types/markerFile';
+import type { AudioTags, EmbeddedMarkers } from './types/audio';
+import type { InstrumentExportTarget, InstrumentSlice } from './types/instrument';
 
 function App() {
   const [isLoading, setIsLoading] = useState(false);
@@ -27,9 +63,11 @@ function App() {
   const [waveformData, setWaveformData] = useState<WaveformPeaks | null>(null);
   const [audioDuration, setAudioDuration] = useState<number>(0);
   const [audioBuffer, setAudioBuffer] = useState<AudioBuffer | null>(null);
+  // Description of the loaded audio file (name, hash, duration) for project files
+  const [audioSource, setAudioSource] = useState<ProjectSource | null>(null);
 
   // Zoom and pan state management
-  const { visibleRange, zoomAtPoint, setPan, panOffset, reset: resetZoom } = useZoom({
+  const { visibleRange, zoomAtPoint, setPan, zoomLevel, panOffset, setView, reset: resetZoom } = useZoom({
     duration: audioDuration,
     minZoom: 1,
     maxZoom: 100,
@@ -37,7 +75,52 @@ function App() {
   });
 
   // Marker state management
-  const { markers, selectedMarkerId, addMarker, updateMarker, updateMarkerSilent, updateMarkerAtomic, updateMarkerName, updateMarkerEnabled, deleteMarker, setSelectedMarkerId, clearMarkers, canUndo, canRedo, undo, redo, reset } = useMarkers();
+  const { markers, selectedMarkerId, addMarker, addMarkers, replaceMarkers, updateMarker, updateMarkerSilent, updateMarkerAtomic, updateMarkerTimes, updateMarkerName, updateMarkerEnabled, updateMarkerLoop, deleteMarker, setSelectedMarkerId, clearMarkers, canUndo, canRedo, undo, redo, reset, restoreMarkers, markerHistory, restoreMarkerHistory } = useMarkers();
+
+  // Tempo state (detected on load, can be overridden)
+  const { detectedBpm, bpmOverride, bpm, beatsPerBar, detectBpmWhenIdle, flushBpmDetection, setBpm, resetBpm, setBeatsPerBar, restoreTempo } = useTempo();
+
+  // Marker snapping settings
+  const { snapSettings, updateSnapSettings } = useSnapSettings();
+
+  // Export settings (saved with projects)
+  const { exportSettings, updateExportSettings } = useExportSettings();
+
+  // Session state persisted for crash recovery (null until audio is loaded)
+  const autosaveSession = useMemo(
+    () => audioSource && {
+      source: audioSource,
+      markerHistory,
+      zoom: { zoomLevel, panOffset },
+      tempo: { detectedBpm, bpmOverride, beatsPerBar },
+      snap: snapSettings,
+      exportSettings,
+    },
+    [audioSource, markerHistory, zoomLevel, panOffset, detectedBpm, bpmOverride, beatsPerBar, snapSettings, exportSettings]
+  );
+
+  // Autosave to IndexedDB and offer the previous session on startup
+  const { restorableSession, discardRestorableSession } = useAutosave(autosaveSession);
+
+  // Resolve the snap grid for the current tempo and audio
+  const grid = useMemo(
+    () => getGridDefinition(snapSettings, { bpm, beatsPerBar, sampleRate: audioBuffer?.sampleRate ?? 0 }),
+    [snapSettings, bpm, beatsPerBar, audioBuffer]
+  );
+
+  // Snap a time position according to the current snapping settings
+  // (grid first, then zero crossing so cuts stay click-free)
+  const snapTime = useCallback((time: number, options: SnapOptions = {}): number => {
+    let snapped = time;
+    const useGrid = snapSettings.gridEnabled !== Boolean(options.toggleGrid);
+    if (useGrid && grid) {
+      snapped = Math.max(0, Math.min(snapToGrid(snapped, grid), audioDuration));
+    }
+    if (audioBuffer && snapSettings.zeroCrossing) {
+      snapped = audioAnalysisService.findNearestZeroCrossing(audioBuffer, snapped, snapSettings.zeroCrossingWindowMs);
+    }
+    return snapped;
+  }, [audioBuffer, audioDuration, snapSettings, grid]);
 
   // Calculate sections from markers
   const sections = useMemo(() => getSections(markers, audioDuration), [markers, audioDuration]);
@@ -83,6 +166,144 @@ function App() {
 
   // Reset confirmation dialog state
   const [showResetDialog, setShowResetDialog] = useState(false);
+  // Export dialog visibility
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  // Instrument format being exported (null when the instrument dialog is closed)
+  const [instrumentTarget, setInstrumentTarget] = useState<InstrumentExportTarget | null>(null);
+
+  // Active auto-slice tool panel (null when closed)
+  const [activeSliceTool, setActiveSliceTool] = useState<SliceTool | null>(null);
+
+  // Proposed marker times from the active auto-slice tool (drawn on the canvas)
+  const [previewMarkerTimes, setPreviewMarkerTimes] = useState<number[]>([]);
+
+  // Project being opened that still needs its audio linked (null when not opening a project)
+  const [pendingProject, setPendingProject] = useState<ProjectFile | null>(null);
+
+  // Differences between the pending project's audio and the linked audio (null until audio is linked)
+  const [projectMismatches, setProjectMismatches] = useState<string[] | null>(null);
+
+  // Cue points and loops found in the loaded file, offered for conversion to markers
+  const [embeddedMarkers, setEmbeddedMarkers] = useState<EmbeddedMarkers | null>(null);
+
+  // Section whose loop points are being edited (null when the panel is closed)
+  const [loopSectionId, setLoopSectionId] = useState<string | null>(null);
+
+  // Handler to open an auto-slice tool panel
+  const handleSelectSliceTool = useCallback((tool: SliceTool) => {
+    // Beat grid slicing needs the tempo right away
+    if (tool === 'beatGrid') flushBpmDetection();
+    setActiveSliceTool(tool);
+  }, [flushBpmDetection]);
+
+  // Handler to close the auto-slice panel and clear its preview
+  const handleCloseSliceTool = useCallback(() => {
+    setActiveSliceTool(null);
+    setPreviewMarkerTimes([]);
+  }, []);
+
+  // Handler to commit auto-slice results as markers (single undo step)
+  const handleApplySliceMarkers = useCallback((times: number[]) => {
+    const added = addMarkers(times.map((time) => ({ time })));
+    handleCloseSliceTool();
+    showToast(`Added ${added.length} marker${added.length === 1 ? '' : 's'}`, 'success');
+  }, [addMarkers, handleCloseSliceTool, showToast]);
+
+  // Handler to replace all markers with auto-slice results (single undo step)
+  const handleReplaceSliceMarkers = useCallback((drafts: MarkerDraft[]) => {
+    replaceMarkers(drafts);
+    handleCloseSliceTool();
+    showToast(`Placed ${drafts.length} marker${drafts.length === 1 ? '' : 's'}`, 'success');
+  }, [replaceMarkers, handleCloseSliceTool, showToast]);
+
+  // Handler to snap every existing marker to its nearest zero crossing (single undo step)
+  const handleSnapAllMarkers = useCallback(() => {
+    if (!audioBuffer) return;
+    const times: Record<string, number> = {};
+    let movedCount = 0;
+    for (const marker of markers) {
+      const snapped = audioAnalysisService.findNearestZeroCrossing(audioBuffer, marker.time, snapSettings.zeroCrossingWindowMs);
+      if (snapped !== marker.time) {
+        times[marker.id] = snapped;
+        movedCount++;
+      }
+    }
+    if (movedCount > 0) {
+      updateMarkerTimes(times);
+    }
+    showToast(`Snapped ${movedCount} marker${movedCount === 1 ? '' : 's'} to zero crossings`, 'success');
+  }, [audioBuffer, markers, snapSettings.zeroCrossingWindowMs, updateMarkerTimes, showToast]);
+
+  // Handler to import markers from a CUE sheet, Audacity label file or REAPER CSV (single undo step)
+  const handleImportMarkers = useCallback(async (file: File) => {
+    try {
+      const text = await file.text();
+      const { drafts, skippedCount } = importMarkerFile(file.name, text, audioDuration, { bpm, beatsPerBar });
+      const added = addMarkers(drafts);
+      const skippedNote = skippedCount > 0 ? ` (${skippedCount} outside the audio skipped)` : '';
+      showToast(`Imported ${added.length} marker${added.length === 1 ? '' : 's'}${skippedNote}`, 'success');
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Import failed';
+      showToast(errorMessage, 'error');
+    }
+  }, [audioDuration, bpm, beatsPerBar, addMarkers, showToast]);
+
+  // Handler to export the sections as a marker list for other tools
+  const handleExportMarkers = useCallback((format: MarkerExportFormat) => {
+    if (!audioSource || !audioBuffer) return;
+    try {
+      const blob = exportMarkerFile(sections, format, {
+        fileName: audioSource.name,
+        sampleRate: audioBuffer.sampleRate,
+        duration: audioBuffer.duration,
+      });
+      const filename = getMarkerExportFileName(audioSource.name, format);
+      saveAs(blob, filename);
+      showToast(`Exported ${filename}`, 'success');
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Export failed';
+      showToast(errorMessage, 'error');
+    }
+  }, [audioSource, audioBuffer, sections, showToast]);
+
+  // Handler to turn the file's embedded cue points and loops into markers (single undo step)
+  const handleApplyEmbeddedMarkers = useCallback(() => {
+    if (!embeddedMarkers) return;
+    const { drafts } = getMarkerDraftsForLabels(getLabelsForEmbeddedMarkers(embeddedMarkers), audioDuration);
+    const added = addMarkers(drafts);
+    setEmbeddedMarkers(null);
+    showToast(`Added ${added.length} marker${added.length === 1 ? '' : 's'} from file`, 'success');
+  }, [embeddedMarkers, audioDuration, addMarkers, showToast]);
+
+  // Handler to ignore the file's embedded markers
+  const handleDismissEmbeddedMarkers = useCallback(() => {
+    setEmbeddedMarkers(null);
+  }, []);
+
+  // Sample encoding options for WAV exports from the export settings
+  const wavFormatOptions = useMemo(() => ({
+    sampleFormat: exportSettings.wavSampleFormat,
+    dither: exportSettings.dither,
+    sampleRate: exportSettings.sampleRate,
+  }), [exportSettings.wavSampleFormat, exportSettings.dither, exportSettings.sampleRate]);
+
+  // Handler to export the whole file as one WAV with every marker embedded as a cue point
+  const handleExportCueWav = useCallback(async () => {
+    if (!audioBuffer || !audioSource) return;
+
+    // Allow UI to update before encoding
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    try {
+      const blob = encodeWavWithCuePoints(audioBuffer, markers, wavFormatOptions);
+      const filename = `${sanitizeFilename(getBaseName(audioSource.name))}-cues.wav`;
+      saveAs(blob, filename);
+      showToast(`Exported ${filename}`, 'success');
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Export failed';
+      showToast(errorMessage, 'error');
+    }
+  }, [audioBuffer, audioSource, markers, wavFormatOptions, showToast]);
 
   // Handler to show reset confirmation dialog
   const handleResetClick = useCallback(() => {
@@ -100,6 +321,72 @@ function App() {
     setShowResetDialog(false);
   }, []);
 
+  // Build WAV encoding and metadata options for a section from the export settings
+  const getSectionWavOptions = useCallback((section: Section): WavExportOptions => {
+    if (!exportSettings.samplerChunk) return wavFormatOptions;
+    const loop = section.loop ?? { start: 0, end: section.endTime - section.startTime };
+    return {
+      ...wavFormatOptions,
+      sampler: {
+        unityNote: exportSettings.unityNote,
+        fineTuneCents: exportSettings.fineTuneCents,
+        loopStart: loop.start,
+        loopEnd: loop.end,
+      },
+    };
+  }, [exportSettings, wavFormatOptions]);
+
+  // Build metadata tags for a section (ID3 for MP3, Vorbis comments for FLAC).
+  // Track numbers count the files of this export, not all sections.
+  const getSectionTags = useCallback((section: Section, exportSections: Section[]): AudioTags => {
+    return {
+      title: section.name,
+      album: getBaseName(audioSource?.name ?? ''),
+      track: exportSections.indexOf(section) + 1,
+      trackCount: exportSections.length,
+      bpm,
+    };
+  }, [audioSource, bpm]);
+
+  // Encode a section (one of exportSections) in the given format using the export settings
+  const encodeSection = useCallback((
+    buffer: AudioBuffer,
+    section: Section,
+    format: ExportFormat,
+    exportSections: Section[]
+  ): Blob => {
+    switch (format) {
+      case 'wav':
+        return encodeWav(buffer, section.startTime, section.endTime, getSectionWavOptions(section));
+      case 'mp3':
+        return encodeMp3(buffer, section.startTime, section.endTime, {
+          bitrate: exportSettings.mp3Bitrate,
+          mono: exportSettings.mp3Mono,
+          tags: getSectionTags(section, exportSections),
+        });
+      case 'aiff':
+        return encodeAiff(buffer, section.startTime, section.endTime, {
+          ...getSectionWavOptions(section),
+          aifc: exportSettings.aifc,
+        });
+      case 'flac':
+        return encodeFlac(buffer, section.startTime, section.endTime, {
+          bitsPerSample: exportSettings.wavSampleFormat === 'pcm16' ? 16 : 24,
+          dither: exportSettings.dither,
+          sampleRate: exportSettings.sampleRate,
+          compressionLevel: exportSettings.flacCompressionLevel,
+          tags: getSectionTags(section, exportSections),
+        });
+    }
+  }, [exportSettings, getSectionWavOptions, getSectionTags]);
+
+  // Build unique filenames for all sections from the filename template (AIFF-C files use .aifc)
+  const getExportFilenames = useCallback((format: ExportFormat): string[] => {
+    const isAifc = exportSettings.aifc || exportSettings.wavSampleFormat === 'float32';
+    const extension = format === 'aiff' && isAifc ? 'aifc' : format;
+    return getSectionFilenames(sections, exportSettings.filenameTemplate, extension, audioSource?.name ?? '', bpm);
+  }, [sections, exportSettings, audioSource, bpm]);
+
   // Handle export of individual sections
   const handleExportSection = useCallback(async (sectionId: string, format: ExportFormat) => {
     if (!audioBuffer) return;
@@ -116,16 +403,9 @@ function App() {
 
     try {
       // Export based on selected format
-      let filename: string;
-      if (format === 'wav') {
-        const blob = encodeWav(audioBuffer, section.startTime, section.endTime);
-        filename = `${sanitizeFilename(section.name)}.wav`;
-        saveAs(blob, filename);
-      } else {
-        const blob = encodeMp3(audioBuffer, section.startTime, section.endTime);
-        filename = `${sanitizeFilename(section.name)}.mp3`;
-        saveAs(blob, filename);
-      }
+      const blob = encodeSection(audioBuffer, section, format, [section]);
+      const filename = getExportFilenames(format)[sections.indexOf(section)];
+      saveAs(blob, filename);
       showToast(`Exported ${filename}`, 'success');
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Export failed';
@@ -134,7 +414,7 @@ function App() {
       // Clear spinner
       setExportingSectionId(null);
     }
-  }, [audioBuffer, sections, showToast]);
+  }, [audioBuffer, sections, encodeSection, getExportFilenames, showToast]);
 
   // Handle section name update (updates the start marker's name)
   const handleUpdateSectionName = useCallback((sectionId: string, name: string) => {
@@ -152,52 +432,277 @@ function App() {
     updateMarkerEnabled(section.startMarker.id, !section.enabled);
   }, [sections, updateMarkerEnabled]);
 
-  // Handle export all sections as ZIP
-  const handleExportAll = useCallback(async (format: ExportAllFormat) => {
-    if (!audioBuffer || sections.length === 0) return;
+  // Section shown in the loop point editor (closes automatically if the section disappears)
+  const loopSection = sections.find(s => s.id === loopSectionId) ?? null;
+
+  // Handler to open the loop point editor for a section
+  const handleEditSectionLoop = useCallback((sectionId: string) => {
+    setLoopSectionId(sectionId);
+  }, []);
+
+  // Handler to apply edited loop points (stored on the section's start marker)
+  const handleApplySectionLoop = useCallback((loop: SectionLoop | undefined) => {
+    const section = sections.find(s => s.id === loopSectionId);
+    if (section) {
+      updateMarkerLoop(section.startMarker.id, loop);
+    }
+    setLoopSectionId(null);
+  }, [sections, loopSectionId, updateMarkerLoop]);
+
+  // Handler to close the loop point editor without changes
+  const handleCloseSectionLoop = useCallback(() => {
+    setLoopSectionId(null);
+  }, []);
+
+  // Encode sections one by one while updating the export progress overlay.
+  // Filenames are built from all sections so they match single exports.
+  const encodeSectionFiles = useCallback(async (
+    buffer: AudioBuffer,
+    exportSections: Section[],
+    format: ExportFormat
+  ): Promise<Array<{ file: string; blob: Blob; section: Section; index: number }>> => {
+    const filenames = getExportFilenames(format);
+    const encoded: Array<{ file: string; blob: Blob; section: Section; index: number }> = [];
+
+    for (let i = 0; i < exportSections.length; i++) {
+      const section = exportSections[i];
+      const index = sections.indexOf(section);
+
+      // Update progress before encoding each item
+      updateProgress(i + 1, Math.round(((i + 1) / exportSections.length) * 100));
+
+      // Allow UI to update
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      // Encode based on selected format using section boundaries
+      const blob = encodeSection(buffer, section, format, exportSections);
+      encoded.push({ file: filenames[index], blob, section, index });
+    }
+
+    return encoded;
+  }, [sections, encodeSection, getExportFilenames, updateProgress]);
+
+  // Handler to open the export dialog
+  const handleOpenExportDialog = useCallback(() => {
+    setShowExportDialog(true);
+  }, []);
+
+  // Handler to close the export dialog without exporting
+  const handleCloseExportDialog = useCallback(() => {
+    setShowExportDialog(false);
+  }, []);
+
+  // Handle export of the chosen sections as ZIP
+  const handleExportAll = useCallback(async (choice: ExportAllChoice) => {
+    const { format, sectionSelection, selectedMarkerIds } = choice;
+    const exportSections = getExportSections(sections, sectionSelection, selectedMarkerIds);
+    setShowExportDialog(false);
+    if (!audioBuffer || exportSections.length === 0) return;
+
+    // Remember the chosen format and sections (saved with projects)
+    updateExportSettings(choice);
 
     // Start progress tracking
-    startExport(sections.length);
+    startExport(exportSections.length);
 
     // Allow UI to update before starting encoding
     await new Promise(resolve => setTimeout(resolve, 0));
 
     try {
       // Encode each section (sections are derived from sorted markers)
-      const files: Array<{ name: string; blob: Blob }> = [];
+      const encoded = await encodeSectionFiles(audioBuffer, exportSections, format);
+      const files: Array<{ name: string; blob: Blob }> = encoded.map(({ file, blob }) => ({ name: file, blob }));
+      const manifestFiles: ExportManifestFile[] = encoded;
 
-      for (let i = 0; i < sections.length; i++) {
-        const section = sections[i];
+      // Describe the exported files next to the audio
+      const manifestDetails = {
+        source: { fileName: audioSource?.name ?? '', sampleRate: audioBuffer.sampleRate },
+        format,
+        bpm,
+        exportSettings: { ...exportSettings, ...choice },
+      };
+      files.push({ name: MANIFEST_JSON_FILE_NAME, blob: createExportManifest(manifestFiles, manifestDetails) });
+      if (exportSettings.manifestCsv) {
+        files.push({ name: MANIFEST_CSV_FILE_NAME, blob: createExportManifestCsv(manifestFiles, manifestDetails) });
+      }
 
-        // Update progress before encoding each item
-        updateProgress(i + 1, Math.round(((i + 1) / sections.length) * 100));
+      // Create ZIP archive and download
+      const zipBlob = await createZipArchive(files);
+      saveAs(zipBlob, 'sections-export.zip');
+      showToast(`Exported ${exportSections.length} sections to ZIP`, 'success');
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Export failed';
+      showToast(errorMessage, 'error');
+    } finally {
+      // Complete progress tracking
+      completeExport();
+    }
+  }, [audioBuffer, audioSource, sections, bpm, exportSettings, encodeSectionFiles, updateExportSettings, startExport, completeExport, showToast]);
+
+  // Handler to open the instrument export dialog for a format
+  const handleOpenInstrumentExport = useCallback((target: InstrumentExportTarget) => {
+    setInstrumentTarget(target);
+  }, []);
 
-        // Allow UI to update
-        await new Promise(resolve => setTimeout(resolve, 0));
+  // Handler to close the instrument export dialog without exporting
+  const handleCloseInstrumentExport = useCallback(() => {
+    setInstrumentTarget(null);
+  }, []);
+
+  // Sections included in the instrument being exported
+  // (MPC kits take the first 16 enabled sections, drum chains all enabled sections)
+  const instrumentSections = useMemo(() => {
+    if (instrumentTarget === 'xpm') return getMpcKitSections(sections);
+    if (instrumentTarget === 'op1') return sections.filter((section) => section.enabled);
+    return sections;
+  }, [instrumentTarget, sections]);
 
-        // Encode based on selected format using section boundaries
-        const blob = format === 'wav'
-          ? encodeWav(audioBuffer, section.startTime, section.endTime)
-          : encodeMp3(audioBuffer, section.startTime, section.endTime);
+  // Handle export of sections as a sampler instrument (samples plus mapping file) in a ZIP
+  const handleExportInstrument = useCallback(async (choice: InstrumentExportChoice) => {
+    const target = instrumentTarget;
+    setInstrumentTarget(null);
+    if (!audioBuffer || !target || instrumentSections.length === 0) return;
 
-        const extension = format === 'wav' ? '.wav' : '.mp3';
-        const filename = `${sanitizeFilename(section.name)}${extension}`;
+    // Remember the instrument options (saved with projects)
+    updateExportSettings(choice);
 
-        files.push({ name: filename, blob });
+    // Drum chains are a single AIFF with the slices back to back
+    if (target === 'op1') {
+      const error = validateOp1DrumChain(
+        instrumentSections.map((section) => section.endTime - section.startTime),
+        choice.op1Device
+      );
+      if (error) {
+        showToast(error, 'error');
+        return;
       }
 
-      // Create ZIP archive and download
+      startExport(1);
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      try {
+        const baseName = sanitizeFilename(getBaseName(audioSource?.name ?? 'drum'));
+        const blob = encodeAiffChain(audioBuffer, instrumentSections, {
+          sampleRate: OP1_SAMPLE_RATE,
+          mono: true,
+          getExtraChunks: (ranges) => [
+            createOp1DrumChunk(
+              ranges.map((range, index) => ({
+                ...range,
+                volume: choice.sliceVolumes[instrumentSections[index].startMarker.id] ?? 0,
+              })),
+              getBaseName(audioSource?.name ?? 'drum'),
+              choice.op1Device
+            ),
+          ],
+        });
+        const filename = `${baseName}-drum.aif`;
+        saveAs(blob, filename);
+        showToast(`Exported ${filename}`, 'success');
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Export failed';
+        showToast(errorMessage, 'error');
+      } finally {
+        completeExport();
+      }
+      return;
+    }
+
+    startExport(instrumentSections.length);
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    try {
+      const encoded = await encodeSectionFiles(audioBuffer, instrumentSections, 'wav');
+
+      // MPC pads show the sample name, so kit samples are named after their sections
+      const usedNames = new Set<string>();
+      const sampleFiles = target === 'xpm'
+        ? encoded.map(({ section }) => getUniqueFilename(sanitizeFilename(section.name), 'wav', usedNames))
+        : encoded.map(({ file }) => file);
+
+      // Map slices to consecutive keys from the root note, or to pads
+      // (positions in frames at the output rate)
+      const sampleRate = exportSettings.sampleRate ?? audioBuffer.sampleRate;
+      const slices: InstrumentSlice[] = encoded.map(({ section }, position) => {
+        const length = Math.round((section.endTime - section.startTime) * sampleRate);
+        const loop = section.loop ?? { start: 0, end: section.endTime - section.startTime };
+        return {
+          file: sampleFiles[position],
+          name: section.name,
+          note: target === 'xpm' ? getMpcPadNote(position) : choice.instrumentRootNote + position,
+          volume: choice.sliceVolumes[section.startMarker.id] ?? 0,
+          length,
+          loop: {
+            start: Math.min(length, Math.round(loop.start * sampleRate)),
+            end: Math.min(length, Math.round(loop.end * sampleRate)),
+          },
+        };
+      });
+
+      // Write the mapping file next to the samples (MPC programs expect them in the same folder)
+      const baseName = sanitizeFilename(getBaseName(audioSource?.name ?? 'instrument'));
+      const samplePath = target === 'xpm' ? '' : 'samples';
+      let mapping: string;
+      switch (target) {
+        case 'sfz':
+          mapping = createSfzFile(slices, {
+            name: audioSource?.name ?? baseName,
+            samplePath,
+            playback: choice.instrumentPlayback,
+          });
+          break;
+        case 'dspreset':
+          mapping = createDecentSamplerPreset(slices, { samplePath, playback: choice.instrumentPlayback });
+          break;
+        case 'xpm':
+          mapping = createMpcProgram(slices, baseName);
+          break;
+      }
+      const mappingType = target === 'sfz' ? 'text/plain' : 'application/xml';
+      const files = [
+        { name: `${baseName}.${target}`, blob: new Blob([mapping], { type: mappingType }) },
+        ...encoded.map(({ blob }, position) => ({
+          name: samplePath ? `${samplePath}/${sampleFiles[position]}` : sampleFiles[position],
+          blob,
+        })),
+      ];
+
       const zipBlob = await createZipArchive(files);
-      saveAs(zipBlob, 'sections-export.zip');
-      showToast(`Exported ${sections.length} sections to ZIP`, 'success');
+      saveAs(zipBlob, `${baseName}-${target}.zip`);
+      showToast(`Exported ${instrumentSections.length} slices to ${baseName}.${target}`, 'success');
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Export failed';
       showToast(errorMessage, 'error');
     } finally {
-      // Complete progress tracking
       completeExport();
     }
-  }, [audioBuffer, sections, startExport, updateProgress, completeExport, showToast]);
+  }, [instrumentTarget, instrumentSections, audioBuffer, audioSource, exportSettings, encodeSectionFiles, updateExportSettings, startExport, completeExport, showToast]);
+
+  // Reason the slice triggers cannot be exported as MIDI (every enabled section needs a note up to 127)
+  const midiExportError = useMemo(() => {
+    if (bpm === null) return 'Set or detect a tempo to export MIDI';
+    return validateSliceMidi(sections, exportSettings.instrumentRootNote);
+  }, [bpm, sections, exportSettings.instrumentRootNote]);
+
+  // Handler to export a MIDI file triggering each slice at its original position
+  const handleExportMidi = useCallback(() => {
+    if (!audioSource || bpm === null) return;
+    try {
+      const baseName = getBaseName(audioSource.name);
+      const midi = createSliceMidiFile(sections, {
+        bpm,
+        beatsPerBar,
+        rootNote: exportSettings.instrumentRootNote,
+        name: baseName,
+      });
+      const filename = `${sanitizeFilename(baseName)}-slices.mid`;
+      saveAs(new Blob([midi], { type: 'audio/midi' }), filename);
+      showToast(`Exported ${filename}`, 'success');
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Export failed';
+      showToast(errorMessage, 'error');
+    }
+  }, [audioSource, bpm, beatsPerBar, sections, exportSettings.instrumentRootNote, showToast]);
 
   // Waveform container ref and width for MarkerControlStrip
   const waveformContainerRef = useRef<HTMLDivElement>(null);
@@ -216,13 +721,13 @@ function App() {
     return () => window.removeEventListener('resize', updateWidth);
   }, [waveformData]);
 
-  const handleFileLoaded = useCallback(async (file: File) => {
+  const handleFileLoaded = useCallback(async (file: File): Promise<ProjectSource | null> => {
     setIsLoading(true);
     setError(null);
 
     try {
       // Decode audio file
-      const { audioBuffer: decodedBuffer, metadata } = await audioService.decodeFile(file);
+      const { audioBuffer: decodedBuffer, metadata, embeddedMarkers: fileMarkers } = await audioService.decodeFile(file);
 
       // Store audio buffer for playback
       setAudioBuffer(decodedBuffer);
@@ -233,6 +738,7 @@ function App() {
       // Reset zoom state and clear markers for new file
       resetZoom();
       clearMarkers();
+      handleCloseSliceTool();
 
       // Extract waveform peaks
       // Use a high resolution for detailed waveform rendering
@@ -247,13 +753,160 @@ function App() {
       });
 
       setWaveformData(peaks);
+
+      // Estimate tempo for beat grid slicing once the editor is idle, since the analysis
+      // blocks for seconds on long files (onset envelope is cached for later analysis)
+      detectBpmWhenIdle(() => audioAnalysisService.estimateTempo(decodedBuffer));
+
+      // Offer markers embedded in the file (cue points, loops)
+      setEmbeddedMarkers(fileMarkers);
+
+      // Identify the file so saved projects can be re-linked to it
+      const source = await describeAudioSource(file, decodedBuffer);
+      setAudioSource(source);
+
+      // Keep a copy of the audio for crash recovery (best-effort)
+      autosaveService.saveAudio(file, source.hash).catch(() => {});
+      return source;
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load audio file');
       setWaveformData(null);
+      setAudioSource(null);
+      return null;
     } finally {
       setIsLoading(false);
     }
-  }, [resetZoom, clearMarkers]);
+  }, [resetZoom, clearMarkers, handleCloseSliceTool, detectBpmWhenIdle]);
+
+  // Handler to save markers, view and settings as a project file
+  const handleSaveProject = useCallback(() => {
+    if (!audioSource) return;
+    const blob = serializeProjectFile({
+      source: audioSource,
+      markers,
+      zoom: { zoomLevel, panOffset },
+      tempo: { detectedBpm, bpmOverride, beatsPerBar },
+      snap: snapSettings,
+      exportSettings,
+    });
+    const filename = getProjectFileName(audioSource.name);
+    saveAs(blob, filename);
+    showToast(`Saved ${filename}`, 'success');
+  }, [audioSource, markers, zoomLevel, panOffset, detectedBpm, bpmOverride, beatsPerBar, snapSettings, exportSettings, showToast]);
+
+  // Apply an opened project to the linked audio (markers past the end of the audio are dropped)
+  const applyProject = useCallback((project: ProjectFile, duration: number) => {
+    const validMarkers = project.markers.filter((marker) => marker.time >= 0 && marker.time <= duration);
+    restoreMarkers(validMarkers);
+    setView(project.zoom.zoomLevel, project.zoom.panOffset, duration);
+    restoreTempo(project.tempo);
+    updateSnapSettings(project.snap);
+    updateExportSettings(project.exportSettings);
+    handleCloseSliceTool();
+    setPendingProject(null);
+    setProjectMismatches(null);
+    setEmbeddedMarkers(null);
+
+    const droppedCount = project.markers.length - validMarkers.length;
+    showToast(
+      droppedCount > 0
+        ? `Opened project (${droppedCount} marker${droppedCount === 1 ? '' : 's'} beyond the audio end skipped)`
+        : 'Opened project',
+      'success'
+    );
+  }, [restoreMarkers, setView, restoreTempo, updateSnapSettings, updateExportSettings, handleCloseSliceTool, showToast]);
+
+  // Handler to open a project file (applied directly if the loaded audio matches)
+  const handleOpenProject = useCallback(async (file: File) => {
+    let project: ProjectFile;
+    try {
+      project = parseProjectFile(await file.text());
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to open project';
+      if (waveformData) {
+        showToast(errorMessage, 'error');
+      } else {
+        setError(errorMessage);
+      }
+      return;
+    }
+
+    if (audioSource && getSourceMismatches(project.source, audioSource).length === 0) {
+      applyProject(project, audioSource.duration);
+      return;
+    }
+    setPendingProject(project);
+    setProjectMismatches(null);
+  }, [waveformData, audioSource, applyProject, showToast]);
+
+  // Link the pending project to an audio source, warning if it doesn't match
+  const linkPendingProject = useCallback((source: ProjectSource) => {
+    if (!pendingProject) return;
+    const mismatches = getSourceMismatches(pendingProject.source, source);
+    if (mismatches.length === 0) {
+      applyProject(pendingProject, source.duration);
+    } else {
+      setProjectMismatches(mismatches);
+    }
+  }, [pendingProject, applyProject]);
+
+  // Handler to load the audio file chosen for the pending project
+  const handleRelinkAudio = useCallback(async (file: File) => {
+    const source = await handleFileLoaded(file);
+    if (source) {
+      linkPendingProject(source);
+    }
+  }, [handleFileLoaded, linkPendingProject]);
+
+  // Handler to link the pending project to the already loaded audio
+  const handleUseLoadedAudio = useCallback(() => {
+    if (audioSource) {
+      linkPendingProject(audioSource);
+    }
+  }, [audioSource, linkPendingProject]);
+
+  // Handler to open the pending project despite mismatching audio
+  const handleApplyProjectAnyway = useCallback(() => {
+    if (pendingProject && audioSource) {
+      applyProject(pendingProject, audioSource.duration);
+    }
+  }, [pendingProject, audioSource, applyProject]);
+
+  // Handler to cancel opening a project
+  const handleCancelOpenProject = useCallback(() => {
+    setPendingProject(null);
+    setProjectMismatches(null);
+  }, []);
+
+  // Handler to restore the autosaved session (audio, markers with undo history, view and settings)
+  const handleRestoreSession = useCallback(async () => {
+    if (!restorableSession) return;
+    const { session, audio } = restorableSession;
+
+    const source = await handleFileLoaded(new File([audio.blob], audio.name, { type: audio.blob.type }));
+    if (!source) return;
+
+    restoreMarkerHistory(session.markerHistory);
+    setEmbeddedMarkers(null);
+    setView(session.zoom.zoomLevel, session.zoom.panOffset, source.duration);
+    restoreTempo(session.tempo);
+    updateSnapSettings(session.snap);
+    updateExportSettings(session.exportSettings);
+    showToast('Restored last session', 'success');
+  }, [restorableSession, handleFileLoaded, restoreMarkerHistory, setView, restoreTempo, updateSnapSettings, updateExportSettings, showToast]);
+
+  // Project re-link dialog (shown on both the drop zone and the editor)
+  const projectRelinkDialog = (
+    <ProjectRelinkDialog
+      source={pendingProject?.source ?? null}
+      mismatches={projectMismatches}
+      canUseLoadedAudio={audioSource !== null}
+      onChooseAudio={handleRelinkAudio}
+      onUseLoadedAudio={handleUseLoadedAudio}
+      onApplyAnyway={handleApplyProjectAnyway}
+      onCancel={handleCancelOpenProject}
+    />
+  );
 
   // Show drop zone if no waveform loaded
   if (!waveformData) {
@@ -264,13 +917,20 @@ function App() {
             <p className="text-neutral-400 text-sm">Loading audio...</p>
           </div>
         ) : (
-          <DropZone onFileLoaded={handleFileLoaded} />
+          <DropZone
+            onFileLoaded={handleFileLoaded}
+            onOpenProject={handleOpenProject}
+            restorableSession={restorableSession}
+            onRestoreSession={handleRestoreSession}
+            onDiscardSession={discardRestorableSession}
+          />
         )}
         {error && (
           <div className="fixed bottom-4 left-4 right-4 p-3 bg-red-900 border border-red-700 text-red-200 text-sm">
             {error}
           </div>
         )}
+        {projectRelinkDialog}
       </div>
     );
   }
@@ -281,6 +941,18 @@ function App() {
       {/* Header with load file button */}
       <div className="flex-shrink-0 p-3 flex items-center gap-3">
         <FileLoaderButton onFileSelected={handleFileLoaded} />
+        <ProjectMenu
+          onSaveProject={handleSaveProject}
+          onOpenProject={handleOpenProject}
+          canSave={audioSource !== null}
+        />
+        <TempoControl
+          bpm={bpm}
+          detectedBpm={detectedBpm}
+          isOverridden={bpmOverride !== null}
+          onChangeBpm={setBpm}
+          onResetBpm={resetBpm}
+        />
         {isLoading && (
           <span className="text-neutral-400 text-xs">Loading...</span>
         )}
@@ -296,7 +968,20 @@ function App() {
             onUndo={undo}
             onRedo={redo}
             onReset={handleResetClick}
-            onExportAll={handleExportAll}
+            onExportAll={handleOpenExportDialog}
+            onSelectSliceTool={handleSelectSliceTool}
+            snapSettings={snapSettings}
+            onChangeSnapSettings={updateSnapSettings}
+            onSnapAllMarkers={handleSnapAllMarkers}
+            onImportMarkers={handleImportMarkers}
+            onExportMarkers={handleExportMarkers}
+            onExportCueWav={handleExportCueWav}
+            exportSettings={exportSettings}
+            onChangeExportSettings={updateExportSettings}
+            onSelectInstrumentTarget={handleOpenInstrumentExport}
+            onExportMidi={handleExportMidi}
+            midiExportError={midiExportError}
+            hasTempo={bpm !== null}
             hasMarkers={markers.length > 0}
             hasSections={sections.length > 0}
             disabled={playbackState === 'playing'}
@@ -313,6 +998,7 @@ function App() {
             onExportSection={handleExportSection}
             exportingSectionId={exportingSectionId}
             onToggleSectionEnabled={handleToggleSectionEnabled}
+            onEditSectionLoop={handleEditSectionLoop}
             pressedKeyboardKey={pressedKeyboardKey}
           />
           {/* Waveform canvas */}
@@ -324,6 +1010,9 @@ function App() {
             onPan={setPan}
             panOffset={panOffset}
             onAddMarker={addMarker}
+            snapTime={snapTime}
+            grid={grid}
+            gridEnabled={snapSettings.gridEnabled}
             markers={markers}
             selectedMarkerId={selectedMarkerId}
             onSelectMarker={setSelectedMarkerId}
@@ -336,6 +1025,7 @@ function App() {
             playbackSegmentStart={segmentStart}
             playbackSegmentEnd={segmentEnd}
             sections={sections}
+            previewMarkers={previewMarkerTimes}
           />
         </div>
       </div>
@@ -347,6 +1037,57 @@ function App() {
         </div>
       )}
 
+      {/* Auto-slice tool panel */}
+      {activeSliceTool === 'transients' && audioBuffer && (
+        <TransientSlicePanel
+          audioBuffer={audioBuffer}
+          onPreviewChange={setPreviewMarkerTimes}
+          onApply={handleApplySliceMarkers}
+          onCancel={handleCloseSliceTool}
+        />
+      )}
+      {activeSliceTool === 'beatGrid' && audioBuffer && (
+        <BeatGridSlicePanel
+          audioBuffer={audioBuffer}
+          bpm={bpm}
+          beatsPerBar={beatsPerBar}
+          onChangeBpm={setBpm}
+          onChangeBeatsPerBar={setBeatsPerBar}
+          onPreviewChange={setPreviewMarkerTimes}
+          onApply={handleApplySliceMarkers}
+          onCancel={handleCloseSliceTool}
+        />
+      )}
+      {activeSliceTool === 'silence' && audioBuffer && (
+        <SilenceSlicePanel
+          audioBuffer={audioBuffer}
+          hasMarkers={markers.length > 0}
+          onPreviewChange={setPreviewMarkerTimes}
+          onApply={handleReplaceSliceMarkers}
+          onCancel={handleCloseSliceTool}
+        />
+      )}
+      {activeSliceTool === 'equalDivision' && (
+        <EqualDivisionSlicePanel
+          duration={audioDuration}
+          markers={markers}
+          onPreviewChange={setPreviewMarkerTimes}
+          onApply={handleApplySliceMarkers}
+          onCancel={handleCloseSliceTool}
+        />
+      )}
+
+      {/* Section loop point editor */}
+      {loopSection && (
+        <SectionLoopPanel
+          key={loopSection.id}
+          section={loopSection}
+          samplerChunkEnabled={exportSettings.samplerChunk}
+          onApply={handleApplySectionLoop}
+          onCancel={handleCloseSectionLoop}
+        />
+      )}
+
       {/* Export progress overlay */}
       <ExportProgressOverlay
         isVisible={isExporting}
@@ -369,6 +1110,39 @@ function App() {
         onConfirm={handleConfirmReset}
         onCancel={handleCancelReset}
       />
+
+      {/* Export dialog */}
+      {showExportDialog && audioBuffer && (
+        <ExportAllDialog
+          sections={sections}
+          sampleRate={audioBuffer.sampleRate}
+          numberOfChannels={audioBuffer.numberOfChannels}
+          exportSettings={exportSettings}
+          onExport={handleExportAll}
+          onCancel={handleCloseExportDialog}
+        />
+      )}
+
+      {/* Instrument export dialog */}
+      {instrumentTarget && (
+        <InstrumentExportDialog
+          target={instrumentTarget}
+          sections={instrumentSections}
+          exportSettings={exportSettings}
+          onExport={handleExportInstrument}
+          onCancel={handleCloseInstrumentExport}
+        />
+      )}
+
+      {/* Embedded markers dialog */}
+      <EmbeddedMarkersDialog
+        embeddedMarkers={embeddedMarkers}
+        onConfirm={handleApplyEmbeddedMarkers}
+        onCancel={handleDismissEmbeddedMarkers}
+      />
+
+      {/* Project re-link dialog */}
+      {projectRelinkDialog}
     </div>
   );
 }
@@ -0,0 +1,118 @@
+import { useEffect, useMemo, useState } from 'react';
+import { audioAnalysisService } from '../services/AudioAnalysisService';
+import { getBeatGridTimes } from '../utils/beatGrid';
+import { SlicePanel, SlicePanelNumberInput, SlicePanelSelect } from './SlicePanel';
+
+type SliceUnit = 'beats' | 'bars';
+
+export interface BeatGridSlicePanelProps {
+  /** Decoded audio to slice */
+  audioBuffer: AudioBuffer;
+  /** Effective tempo in BPM, or null if unknown */
+  bpm: number | null;
+  /** Number of beats per bar */
+  beatsPerBar: number;
+  /** Callback when user changes the tempo (stored as a tempo override) */
+  onChangeBpm: (bpm: number) => void;
+  /** Callback when user changes the beats per bar */
+  onChangeBeatsPerBar: (beatsPerBar: number) => void;
+  /** Callback with the grid marker times whenever they change (for canvas preview) */
+  onPreviewChange: (times: number[]) => void;
+  /** Callback when user applies the grid as markers */
+  onApply: (times: number[]) => void;
+  /** Callback when user closes the panel */
+  onCancel: () => void;
+}
+
+/**
+ * Auto-slice panel that places markers every N beats or bars
+ * starting from an adjustable downbeat offset
+ */
+export function BeatGridSlicePanel({
+  audioBuffer,
+  bpm,
+  beatsPerBar,
+  onChangeBpm,
+  onChangeBeatsPerBar,
+  onPreviewChange,
+  onApply,
+  onCancel,
+}: BeatGridSlicePanelProps) {
+  const [count, setCount] = useState(1);
+  const [unit, setUnit] = useState<SliceUnit>('beats');
+
+  // Default the downbeat to the first clear transient (music rarely starts at exactly 0)
+  const [offsetMs, setOffsetMs] = useState(() => {
+    const [firstOnset] = audioAnalysisService.detectOnsets(audioBuffer, { sensitivity: 0.5, minGapMs: 50 });
+    return firstOnset !== undefined ? Math.round(firstOnset * 1000) : 0;
+  });
+
+  const times = useMemo(() => {
+    if (bpm === null) return [];
+    return getBeatGridTimes(audioBuffer.duration, {
+      bpm,
+      beatsPerSlice: unit === 'bars' ? count * beatsPerBar : count,
+      offset: offsetMs / 1000,
+    });
+  }, [audioBuffer.duration, bpm, count, unit, beatsPerBar, offsetMs]);
+
+  // Keep the canvas preview in sync with the current grid
+  useEffect(() => {
+    onPreviewChange(times);
+  }, [times, onPreviewChange]);
+
+  const sliceCount = Math.max(0, times.length - 1);
+
+  return (
+    <SlicePanel
+      title="Slice on beat grid"
+      summary={bpm === null ? 'Enter a tempo to build the grid' : `${sliceCount} slice${sliceCount === 1 ? '' : 's'}`}
+      applyLabel="Add markers"
+      applyDisabled={times.length === 0}
+      onApply={() => onApply(times)}
+      onCancel={onCancel}
+    >
+      <SlicePanelNumberInput
+        label="Tempo"
+        value={bpm}
+        min={1}
+        step={0.1}
+        unit="BPM"
+        onChange={onChangeBpm}
+      />
+      <SlicePanelNumberInput
+        label="Beats per bar"
+        value={beatsPerBar}
+        min={1}
+        max={16}
+        onChange={onChangeBeatsPerBar}
+      />
+      <div className="flex items-center gap-2">
+        <div className="flex-1">
+          <SlicePanelNumberInput
+            label="Every"
+            value={count}
+            min={1}
+            onChange={(value) => setCount(Math.max(1, Math.round(value)))}
+          />
+        </div>
+        <SlicePanelSelect
+          value={unit}
+          options={[
+            { value: 'beats', label: 'beats' },
+            { value: 'bars', label: 'bars' },
+          ]}
+          onChange={setUnit}
+        />
+      </div>
+      <SlicePanelNumberInput
+        label="Downbeat offset"
+        value={offsetMs}
+        min={0}
+        max={Math.round(audioBuffer.duration * 1000)}
+        unit="ms"
+        onChange={(value) => setOffsetMs(Math.max(0, Math.round(value)))}
+      />
+    </SlicePanel>
+  );
+}
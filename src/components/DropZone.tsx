@@ -1,6 +1,9 @@
 import { useState, useCallback, useRef, type ChangeEvent } from 'react';
 import type { DragEvent } from 'react';
 import { SUPPORTED_AUDIO_FORMATS, SUPPORTED_EXTENSIONS } from '../types/audio';
+import type { RestorableSession } from '../types/session';
+import { PROJECT_FILE_INPUT_ACCEPT } from './ProjectMenu';
+import { RestoreSessionPrompt } from './RestoreSessionPrompt';
 
 /**
  * Build the accept attribute for file input from supported formats
@@ -14,6 +17,21 @@ const FILE_INPUT_ACCEPT = [
 export interface DropZoneProps {
   /** Callback when a valid audio file is loaded */
   onFileLoaded: (file: File) => void;
+  /** Callback when a project file is chosen or dropped */
+  onOpenProject?: (file: File) => void;
+  /** Autosaved session that can be restored (null hides the offer) */
+  restorableSession?: RestorableSession | null;
+  /** Callback when user restores the autosaved session */
+  onRestoreSession?: () => void;
+  /** Callback when user discards the autosaved session */
+  onDiscardSession?: () => void;
+}
+
+/**
+ * Check if a file looks like a saved project (JSON)
+ */
+function isProjectFile(file: File): boolean {
+  return file.type === 'application/json' || file.name.toLowerCase().endsWith('.json');
 }
 
 /**
@@ -33,11 +51,18 @@ function isFileSupported(file: File): boolean {
 /**
  * Full-page drop zone for loading audio files via drag-and-drop
  */
-export function DropZone({ onFileLoaded }: DropZoneProps) {
+export function DropZone({
+  onFileLoaded,
+  onOpenProject,
+  restorableSession,
+  onRestoreSession,
+  onDiscardSession,
+}: DropZoneProps) {
   const [isDragging, setIsDragging] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const dragCounter = useRef(0);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const projectInputRef = useRef<HTMLInputElement>(null);
 
   const handleFileInputChange = useCallback((e: ChangeEvent<HTMLInputElement>) => {
     setError(null);
@@ -64,6 +89,24 @@ export function DropZone({ onFileLoaded }: DropZoneProps) {
     fileInputRef.current?.click();
   }, []);
 
+  const handleProjectInputChange = useCallback((e: ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files;
+    if (!files || files.length === 0 || !onOpenProject) {
+      return;
+    }
+
+    onOpenProject(files[0]);
+
+    // Reset input so the same file can be selected again if needed
+    if (projectInputRef.current) {
+      projectInputRef.current.value = '';
+    }
+  }, [onOpenProject]);
+
+  const handleOpenProjectClick = useCallback(() => {
+    projectInputRef.current?.click();
+  }, []);
+
   const handleDragEnter = useCallback((e: DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     e.stopPropagation();
@@ -100,13 +143,17 @@ export function DropZone({ onFileLoaded }: DropZoneProps) {
     }
 
     const file = files[0];
+    if (onOpenProject && isProjectFile(file)) {
+      onOpenProject(file);
+      return;
+    }
     if (!isFileSupported(file)) {
       setError(`Unsupported file type. Supported formats: ${SUPPORTED_EXTENSIONS.join(', ')}`);
       return;
     }
 
     onFileLoaded(file);
-  }, [onFileLoaded]);
+  }, [onFileLoaded, onOpenProject]);
 
   return (
     <div
@@ -131,6 +178,16 @@ export function DropZone({ onFileLoaded }: DropZoneProps) {
         className="hidden"
         aria-label="Choose audio file"
       />
+      {onOpenProject && (
+        <input
+          ref={projectInputRef}
+          type="file"
+          accept={PROJECT_FILE_INPUT_ACCEPT}
+          onChange={handleProjectInputChange}
+          className="hidden"
+          aria-label="Open project file"
+        />
+      )}
 
       <div className="flex flex-col items-center gap-4">
         <p className="text-neutral-400 text-sm">
@@ -145,6 +202,16 @@ export function DropZone({ onFileLoaded }: DropZoneProps) {
           Choose file
         </button>
 
+        {onOpenProject && (
+          <button
+            type="button"
+            onClick={handleOpenProjectClick}
+            className="text-xs text-neutral-500 hover:text-neutral-300 transition-colors tracking-wide"
+          >
+            or open a saved project
+          </button>
+        )}
+
         <p className="text-neutral-500 text-xs">
           Supported: {SUPPORTED_EXTENSIONS.join(', ')}
         </p>
@@ -152,6 +219,16 @@ export function DropZone({ onFileLoaded }: DropZoneProps) {
         {error && (
           <p className="text-red-400 text-sm mt-2">{error}</p>
         )}
+
+        {restorableSession && onRestoreSession && onDiscardSession && (
+          <div className="mt-6">
+            <RestoreSessionPrompt
+              session={restorableSession}
+              onRestore={onRestoreSession}
+              onDiscard={onDiscardSession}
+            />
+          </div>
+        )}
       </div>
     </div>
   );
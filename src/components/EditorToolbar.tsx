@@ -1,5 +1,14 @@
 import { UndoRedoButtons } from './UndoRedoButtons';
-import { ExportAllButton, type ExportAllFormat } from './ExportAllButton';
+import { ExportAllButton } from './ExportAllButton';
+import { SliceToolsMenu, type SliceTool } from './SliceToolsMenu';
+import { SnapMenu } from './SnapMenu';
+import { MarkerFileMenu } from './MarkerFileMenu';
+import { ExportSettingsMenu } from './ExportSettingsMenu';
+import { InstrumentExportMenu } from './InstrumentExportMenu';
+import type { MarkerExportFormat } from '../types/markerFile';
+import type { SnapSettings } from '../types/snap';
+import type { ExportSettings } from '../types/exportSettings';
+import type { InstrumentExportTarget } from '../types/instrument';
 
 export interface EditorToolbarProps {
   /** Whether undo is available */
@@ -12,8 +21,34 @@ export interface EditorToolbarProps {
   onRedo: () => void;
   /** Callback for reset action */
   onReset: () => void;
-  /** Callback for export all action */
-  onExportAll: (format: ExportAllFormat) => void;
+  /** Callback for export all action (opens the export dialog) */
+  onExportAll: () => void;
+  /** Callback when user picks an auto-slice tool */
+  onSelectSliceTool: (tool: SliceTool) => void;
+  /** Current snapping settings */
+  snapSettings: SnapSettings;
+  /** Callback when user changes a snapping setting */
+  onChangeSnapSettings: (changes: Partial<SnapSettings>) => void;
+  /** Callback when user snaps all existing markers to zero crossings */
+  onSnapAllMarkers: () => void;
+  /** Callback when user picks a marker file to import */
+  onImportMarkers: (file: File) => void;
+  /** Callback when user exports the sections as a marker list */
+  onExportMarkers: (format: MarkerExportFormat) => void;
+  /** Callback when user exports the full audio as a WAV with embedded cue points */
+  onExportCueWav: () => void;
+  /** Current export settings */
+  exportSettings: ExportSettings;
+  /** Callback when user changes an export setting */
+  onChangeExportSettings: (changes: Partial<ExportSettings>) => void;
+  /** Callback when user picks an instrument format to export */
+  onSelectInstrumentTarget: (target: InstrumentExportTarget) => void;
+  /** Callback when user exports the slice triggers as a MIDI file */
+  onExportMidi: () => void;
+  /** Why the slice triggers cannot be exported as MIDI (null if they can) */
+  midiExportError: string | null;
+  /** Whether a tempo is known (required for musical grids) */
+  hasTempo: boolean;
   /** Whether there are any markers */
   hasMarkers: boolean;
   /** Whether there are any sections (for Export All visibility) */
@@ -24,7 +59,8 @@ export interface EditorToolbarProps {
 
 /**
  * Context-aware toolbar that displays editing controls above the waveform.
- * Controls only appear when markers exist. Fixed height to prevent layout shifts.
+ * Auto-slice and snapping tools are always available; editing controls only appear when markers exist.
+ * Fixed height to prevent layout shifts.
  */
 export function EditorToolbar({
   canUndo,
@@ -33,14 +69,27 @@ export function EditorToolbar({
   onRedo,
   onReset,
   onExportAll,
+  onSelectSliceTool,
+  snapSettings,
+  onChangeSnapSettings,
+  onSnapAllMarkers,
+  onImportMarkers,
+  onExportMarkers,
+  onExportCueWav,
+  exportSettings,
+  onChangeExportSettings,
+  onSelectInstrumentTarget,
+  onExportMidi,
+  midiExportError,
+  hasTempo,
   hasMarkers,
   hasSections,
   disabled = false,
 }: EditorToolbarProps) {
   return (
     <div className="h-10 flex justify-center items-center mb-4">
-      {hasMarkers && (
-        <div className="flex items-center gap-2">
+      <div className="flex items-center gap-2">
+        {hasMarkers && (
           <UndoRedoButtons
             canUndo={canUndo}
             canRedo={canRedo}
@@ -50,9 +99,38 @@ export function EditorToolbar({
             disabled={disabled}
             hasMarkers={hasMarkers}
           />
-          {hasSections && <ExportAllButton onExportAll={onExportAll} />}
-        </div>
-      )}
+        )}
+        <SliceToolsMenu onSelectTool={onSelectSliceTool} disabled={disabled} />
+        <SnapMenu
+          snapSettings={snapSettings}
+          onChangeSnapSettings={onChangeSnapSettings}
+          onSnapAllMarkers={onSnapAllMarkers}
+          hasTempo={hasTempo}
+          hasMarkers={hasMarkers}
+          disabled={disabled}
+        />
+        <MarkerFileMenu
+          onImportMarkers={onImportMarkers}
+          onExportMarkers={onExportMarkers}
+          canExport={hasSections}
+          onExportCueWav={onExportCueWav}
+          canExportCueWav={hasMarkers}
+          disabled={disabled}
+        />
+        <ExportSettingsMenu
+          exportSettings={exportSettings}
+          onChangeExportSettings={onChangeExportSettings}
+          disabled={disabled}
+        />
+        <InstrumentExportMenu
+          onSelectTarget={onSelectInstrumentTarget}
+          canExport={hasSections}
+          onExportMidi={onExportMidi}
+          midiExportError={midiExportError}
+          disabled={disabled}
+        />
+        {hasMarkers && hasSections && <ExportAllButton onExportAll={onExportAll} />}
+      </div>
     </div>
   );
 }
@@ -0,0 +1,64 @@
+import type { EmbeddedMarkers } from '../types/audio';
+
+export interface EmbeddedMarkersDialogProps {
+  /** Markers found in the loaded file (null hides the dialog) */
+  embeddedMarkers: EmbeddedMarkers | null;
+  /** Callback when user converts the embedded markers to markers */
+  onConfirm: () => void;
+  /** Callback when user ignores the embedded markers */
+  onCancel: () => void;
+}
+
+/**
+ * Dialog offering to turn cue points and loops embedded in the loaded file into markers
+ */
+export function EmbeddedMarkersDialog({
+  embeddedMarkers,
+  onConfirm,
+  onCancel,
+}: EmbeddedMarkersDialogProps) {
+  if (!embeddedMarkers) return null;
+
+  const { cuePoints, loops } = embeddedMarkers;
+  const labeledCount = cuePoints.filter((cuePoint) => cuePoint.label).length;
+  const parts: string[] = [];
+  if (cuePoints.length > 0) {
+    parts.push(`${cuePoints.length} cue point${cuePoints.length === 1 ? '' : 's'}`);
+  }
+  if (loops.length > 0) {
+    parts.push(`${loops.length} loop${loops.length === 1 ? '' : 's'}`);
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60">
+      <div className="bg-neutral-800 border border-neutral-700 rounded-lg px-6 py-5 max-w-sm">
+        {/* Message */}
+        <p className="text-neutral-200 text-sm mb-2">
+          This file contains {parts.join(' and ')}. Add them as markers?
+        </p>
+        {labeledCount > 0 && (
+          <p className="text-neutral-400 text-xs">
+            Cue point labels become section names.
+          </p>
+        )}
+        {/* Buttons */}
+        <div className="flex justify-end gap-2 mt-4">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-3 py-1.5 text-sm bg-neutral-700 hover:bg-neutral-600 text-neutral-200 border border-neutral-600 rounded transition-colors"
+          >
+            Ignore
+          </button>
+          <button
+            type="button"
+            onClick={onConfirm}
+            className="px-3 py-1.5 text-sm bg-cyan-700 hover:bg-cyan-600 text-white border border-cyan-600 rounded transition-colors"
+          >
+            Add markers
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { Marker } from '../types/marker';
+import { getEqualDivisionTimes } from '../utils/equalDivision';
+import { SlicePanel, SlicePanelNumberInput, SlicePanelSelect } from './SlicePanel';
+
+/** Range boundary option for the whole file */
+const FILE_START = 'file-start';
+const FILE_END = 'file-end';
+
+/** Preset slice counts (standard breakbeat chops) */
+const SLICE_COUNT_PRESETS = ['8', '16', '32'] as const;
+
+type SliceCountOption = (typeof SLICE_COUNT_PRESETS)[number] | 'custom';
+
+export interface EqualDivisionSlicePanelProps {
+  /** Total audio duration in seconds */
+  duration: number;
+  /** Existing markers (can be used as range boundaries) */
+  markers: Marker[];
+  /** Callback with the division marker times whenever they change (for canvas preview) */
+  onPreviewChange: (times: number[]) => void;
+  /** Callback when user applies the division as markers */
+  onApply: (times: number[]) => void;
+  /** Callback when user closes the panel */
+  onCancel: () => void;
+}
+
+/**
+ * Format a marker as a range boundary option label
+ */
+function formatMarkerOption(marker: Marker): string {
+  return `${marker.name} (${marker.time.toFixed(3)}s)`;
+}
+
+/**
+ * Auto-slice panel that splits the whole file, or the range between
+ * two markers, into N equally long slices
+ */
+export function EqualDivisionSlicePanel({
+  duration,
+  markers,
+  onPreviewChange,
+  onApply,
+  onCancel,
+}: EqualDivisionSlicePanelProps) {
+  const [fromId, setFromId] = useState<string>(FILE_START);
+  const [toId, setToId] = useState<string>(FILE_END);
+  const [countOption, setCountOption] = useState<SliceCountOption>('16');
+  const [customCount, setCustomCount] = useState(12);
+
+  const count = countOption === 'custom' ? customCount : Number(countOption);
+
+  // Resolve boundary IDs to times (fall back to file bounds if a marker was removed)
+  const startTime = markers.find((marker) => marker.id === fromId)?.time ?? 0;
+  const endTime = markers.find((marker) => marker.id === toId)?.time ?? duration;
+
+  const times = useMemo(
+    () => getEqualDivisionTimes(startTime, endTime, count),
+    [startTime, endTime, count]
+  );
+
+  // Keep the canvas preview in sync with the current division
+  useEffect(() => {
+    onPreviewChange(times);
+  }, [times, onPreviewChange]);
+
+  const markerOptions = markers.map((marker) => ({
+    value: marker.id,
+    label: formatMarkerOption(marker),
+  }));
+
+  return (
+    <SlicePanel
+      title="Divide into equal slices"
+      summary={times.length > 0
+        ? `${count} slices of ${((endTime - startTime) / count * 1000).toFixed(1)} ms`
+        : 'Range end must be after range start'}
+      applyLabel="Add markers"
+      applyDisabled={times.length === 0}
+      onApply={() => onApply(times)}
+      onCancel={onCancel}
+    >
+      <SlicePanelSelect
+        label="From"
+        value={fromId}
+        options={[{ value: FILE_START, label: 'File start' }, ...markerOptions]}
+        onChange={setFromId}
+      />
+      <SlicePanelSelect
+        label="To"
+        value={toId}
+        options={[...markerOptions, { value: FILE_END, label: 'File end' }]}
+        onChange={setToId}
+      />
+      <SlicePanelSelect<SliceCountOption>
+        label="Slices"
+        value={countOption}
+        options={[
+          ...SLICE_COUNT_PRESETS.map((preset) => ({ value: preset, label: preset })),
+          { value: 'custom', label: 'Custom' },
+        ]}
+        onChange={setCountOption}
+      />
+      {countOption === 'custom' && (
+        <SlicePanelNumberInput
+          label="Custom count"
+          value={customCount}
+          min={1}
+          max={256}
+          onChange={(value) => setCustomCount(Math.max(1, Math.min(256, Math.round(value))))}
+        />
+      )}
+    </SlicePanel>
+  );
+}
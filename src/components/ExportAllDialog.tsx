@@ -0,0 +1,181 @@
+import { useState } from 'react';
+import type { Section } from '../types/section';
+import type { ExportAllFormat, ExportSectionSelection, ExportSettings } from '../types/exportSettings';
+import { estimateEncodedSize } from '../services/audioExport';
+import { getExportSections } from '../utils/sections';
+import { getKeyForIndex } from '../constants/keyboardMapping';
+
+/** Bulk export formats in display order */
+const FORMAT_OPTIONS: Array<{ format: ExportAllFormat; label: string }> = [
+  { format: 'wav', label: 'WAV' },
+  { format: 'mp3', label: 'MP3' },
+  { format: 'flac', label: 'FLAC' },
+  { format: 'aiff', label: 'AIFF' },
+];
+
+/**
+ * Format a byte count for display (e.g., "4.2 MB")
+ */
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Choices made in the export dialog
+ */
+export type ExportAllChoice = Pick<ExportSettings, 'format' | 'sectionSelection' | 'selectedMarkerIds'>;
+
+export interface ExportAllDialogProps {
+  /** All sections in timeline order */
+  sections: Section[];
+  /** Sample rate of the loaded audio in Hz (for size estimates) */
+  sampleRate: number;
+  /** Number of channels in the loaded audio (for size estimates) */
+  numberOfChannels: number;
+  /** Current export settings (provide the remembered format and selection) */
+  exportSettings: ExportSettings;
+  /** Callback when user starts the export */
+  onExport: (choice: ExportAllChoice) => void;
+  /** Callback when user closes the dialog */
+  onCancel: () => void;
+}
+
+/**
+ * Dialog for exporting sections as a ZIP archive.
+ * Offers all, enabled or hand-picked sections and shows the estimated size per format.
+ */
+export function ExportAllDialog({
+  sections,
+  sampleRate,
+  numberOfChannels,
+  exportSettings,
+  onExport,
+  onCancel,
+}: ExportAllDialogProps) {
+  const [format, setFormat] = useState<ExportAllFormat>(exportSettings.format);
+  const [sectionSelection, setSectionSelection] = useState<ExportSectionSelection>(exportSettings.sectionSelection);
+  // Start with the remembered subset, or the enabled sections if none of it still exists
+  const [selectedMarkerIds, setSelectedMarkerIds] = useState<string[]>(() => {
+    const remembered = sections
+      .filter((section) => exportSettings.selectedMarkerIds.includes(section.startMarker.id))
+      .map((section) => section.startMarker.id);
+    return remembered.length > 0
+      ? remembered
+      : sections.filter((section) => section.enabled).map((section) => section.startMarker.id);
+  });
+
+  const exportSections = getExportSections(sections, sectionSelection, selectedMarkerIds);
+  const enabledCount = sections.filter((section) => section.enabled).length;
+
+  const getEstimatedSize = (estimateFormat: ExportAllFormat) =>
+    exportSections.reduce(
+      (total, section) =>
+        total + estimateEncodedSize(
+          estimateFormat,
+          section.endTime - section.startTime,
+          sampleRate,
+          numberOfChannels,
+          exportSettings
+        ),
+      0
+    );
+
+  const toggleSection = (markerId: string) => {
+    setSelectedMarkerIds((prev) =>
+      prev.includes(markerId) ? prev.filter((id) => id !== markerId) : [...prev, markerId]
+    );
+  };
+
+  const selectionOptions: Array<{ value: ExportSectionSelection; label: string }> = [
+    { value: 'all', label: `All sections (${sections.length})` },
+    { value: 'enabled', label: `Enabled sections only (${enabledCount})` },
+    { value: 'custom', label: 'Choose sections' },
+  ];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60">
+      <div className="bg-neutral-800 border border-neutral-700 rounded-lg px-6 py-5 w-96">
+        <p className="text-neutral-200 text-sm mb-3">Export sections as ZIP</p>
+        {/* Section selection */}
+        <div className="flex flex-col gap-1.5">
+          {selectionOptions.map(({ value, label }) => (
+            <label key={value} className="flex items-center gap-2 text-xs text-neutral-200 cursor-pointer">
+              <input
+                type="radio"
+                name="export-selection"
+                checked={sectionSelection === value}
+                onChange={() => setSectionSelection(value)}
+                className="accent-cyan-400"
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+        {sectionSelection === 'custom' && (
+          <div className="mt-2 max-h-48 overflow-y-auto border border-neutral-700 rounded px-2 py-1.5 flex flex-col gap-1">
+            {sections.map((section, index) => (
+              <label
+                key={section.id}
+                className={`flex items-center gap-2 text-xs cursor-pointer ${
+                  section.enabled ? 'text-neutral-200' : 'text-neutral-500'
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  checked={selectedMarkerIds.includes(section.startMarker.id)}
+                  onChange={() => toggleSection(section.startMarker.id)}
+                  className="accent-cyan-400"
+                />
+                <span className="w-4 text-neutral-500 font-mono">{getKeyForIndex(index) ?? ''}</span>
+                <span className="truncate">{section.name}</span>
+              </label>
+            ))}
+          </div>
+        )}
+        {/* Format with estimated size */}
+        <div className="flex flex-col gap-1.5 mt-4 pt-3 border-t border-neutral-700">
+          {FORMAT_OPTIONS.map((option) => (
+            <label key={option.format} className="flex items-center gap-2 text-xs text-neutral-200 cursor-pointer">
+              <input
+                type="radio"
+                name="export-format"
+                checked={format === option.format}
+                onChange={() => setFormat(option.format)}
+                className="accent-cyan-400"
+              />
+              <span className="flex-1">{option.label}</span>
+              <span className="text-neutral-500">~{formatSize(getEstimatedSize(option.format))}</span>
+            </label>
+          ))}
+        </div>
+        <p className="text-neutral-400 text-xs mt-3">
+          {exportSections.length} section{exportSections.length === 1 ? '' : 's'} selected
+        </p>
+        {/* Buttons */}
+        <div className="flex justify-end gap-2 mt-4">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-3 py-1.5 text-sm bg-neutral-700 hover:bg-neutral-600 text-neutral-200 border border-neutral-600 rounded transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => onExport({ format, sectionSelection, selectedMarkerIds })}
+            disabled={exportSections.length === 0}
+            className={`px-3 py-1.5 text-sm border rounded transition-colors ${
+              exportSections.length === 0
+                ? 'bg-neutral-800 text-neutral-600 border-neutral-700 cursor-not-allowed'
+                : 'bg-cyan-700 hover:bg-cyan-600 text-white border-cyan-600'
+            }`}
+          >
+            Export
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
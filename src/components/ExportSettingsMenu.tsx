@@ -0,0 +1,213 @@
+import { useState, useRef, useEffect } from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import { EXPORT_SAMPLE_RATES, MP3_BITRATES } from '../types/exportSettings';
+import type { ExportSettings, WavSampleFormat } from '../types/exportSettings';
+import { DEFAULT_FILENAME_TEMPLATE, FILENAME_TEMPLATE_TOKENS } from '../services/filenameTemplate';
+import { SlicePanelNumberInput, SlicePanelSelect, SlicePanelSlider } from './SlicePanel';
+import { formatNoteName } from '../utils/noteNames';
+
+/** WAV sample encodings in display order */
+const WAV_SAMPLE_FORMAT_OPTIONS: Array<{ value: WavSampleFormat; label: string }> = [
+  { value: 'pcm16', label: '16-bit' },
+  { value: 'pcm24', label: '24-bit' },
+  { value: 'float32', label: '32-bit float' },
+];
+
+/** Target sample rates ('source' keeps the loaded file's rate) */
+const SAMPLE_RATE_OPTIONS: Array<{ value: string; label: string }> = [
+  { value: 'source', label: 'Source' },
+  ...EXPORT_SAMPLE_RATES.map((rate) => ({ value: String(rate), label: `${rate / 1000} kHz` })),
+];
+
+/** Constant MP3 bitrates in kbps */
+const MP3_BITRATE_OPTIONS: Array<{ value: string; label: string }> = MP3_BITRATES.map((kbps) => ({
+  value: String(kbps),
+  label: `${kbps} kbps`,
+}));
+
+export interface ExportSettingsMenuProps {
+  /** Current export settings */
+  exportSettings: ExportSettings;
+  /** Callback when user changes an export setting */
+  onChangeExportSettings: (changes: Partial<ExportSettings>) => void;
+  /** Whether the menu should be disabled (e.g., during playback) */
+  disabled?: boolean;
+}
+
+/**
+ * Toolbar dropdown for options applied to exported audio files
+ */
+export function ExportSettingsMenu({
+  exportSettings,
+  onChangeExportSettings,
+  disabled = false,
+}: ExportSettingsMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (dropdownRef.current && !dropdownRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  return (
+    <div ref={dropdownRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className={`px-3 py-1.5 text-xs bg-neutral-800 border border-neutral-700 transition-colors tracking-wide flex items-center gap-1.5 ${
+          disabled
+            ? 'text-neutral-600 cursor-not-allowed'
+            : 'text-neutral-400 hover:text-neutral-200 hover:bg-neutral-700'
+        }`}
+        title="Export settings"
+      >
+        <SlidersHorizontal className="w-4 h-4" />
+        <span>Export</span>
+      </button>
+      {/* Dropdown panel */}
+      {isOpen && (
+        <div
+          className="absolute top-full left-0 mt-1 px-3 py-2 rounded shadow-lg z-50 flex flex-col gap-2"
+          style={{
+            backgroundColor: '#1f1f1f',
+            minWidth: 240,
+          }}
+        >
+          <label className="flex flex-col gap-1 text-xs text-neutral-400">
+            File names
+            <input
+              type="text"
+              value={exportSettings.filenameTemplate}
+              placeholder={DEFAULT_FILENAME_TEMPLATE}
+              onChange={(e) => onChangeExportSettings({ filenameTemplate: e.target.value })}
+              className="bg-neutral-700 text-neutral-100 font-mono rounded px-1.5 py-0.5 outline-none focus:ring-1 focus:ring-cyan-500"
+            />
+          </label>
+          <p className="flex flex-wrap gap-x-2 text-xs text-neutral-500">
+            {FILENAME_TEMPLATE_TOKENS.map(({ token, description }) => (
+              <button
+                key={token}
+                type="button"
+                title={description}
+                onClick={() => onChangeExportSettings({ filenameTemplate: exportSettings.filenameTemplate + token })}
+                className="font-mono hover:text-neutral-200"
+              >
+                {token}
+              </button>
+            ))}
+          </p>
+          <p className="text-xs text-neutral-500">
+            Pad numbers with {'{index:02}'}; duplicate names get a numeric suffix.
+          </p>
+          <label className="flex items-center gap-2 text-xs text-neutral-200 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={exportSettings.manifestCsv}
+              onChange={(e) => onChangeExportSettings({ manifestCsv: e.target.checked })}
+              className="accent-cyan-400"
+            />
+            Add CSV manifest to ZIP exports
+          </label>
+          <div className="border-t border-neutral-700" />
+          <SlicePanelSelect
+            label="Bit depth"
+            value={exportSettings.wavSampleFormat}
+            options={WAV_SAMPLE_FORMAT_OPTIONS}
+            onChange={(wavSampleFormat) => onChangeExportSettings({ wavSampleFormat })}
+          />
+          <SlicePanelSelect
+            label="Sample rate"
+            value={exportSettings.sampleRate === null ? 'source' : String(exportSettings.sampleRate)}
+            options={SAMPLE_RATE_OPTIONS}
+            onChange={(value) => onChangeExportSettings({ sampleRate: value === 'source' ? null : Number(value) })}
+          />
+          <label className={`flex items-center gap-2 text-xs ${
+            exportSettings.wavSampleFormat === 'float32' ? 'text-neutral-600' : 'text-neutral-200 cursor-pointer'
+          }`}>
+            <input
+              type="checkbox"
+              checked={exportSettings.dither}
+              disabled={exportSettings.wavSampleFormat === 'float32'}
+              onChange={(e) => onChangeExportSettings({ dither: e.target.checked })}
+              className="accent-cyan-400"
+            />
+            Dither (TPDF) when reducing bit depth
+          </label>
+          <label className="flex items-center gap-2 text-xs text-neutral-200 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={exportSettings.aifc || exportSettings.wavSampleFormat === 'float32'}
+              disabled={exportSettings.wavSampleFormat === 'float32'}
+              onChange={(e) => onChangeExportSettings({ aifc: e.target.checked })}
+              className="accent-cyan-400"
+            />
+            Write AIFF as AIFF-C
+          </label>
+          <div className="border-t border-neutral-700" />
+          <SlicePanelSelect
+            label="MP3 bitrate"
+            value={String(exportSettings.mp3Bitrate)}
+            options={MP3_BITRATE_OPTIONS}
+            onChange={(value) => onChangeExportSettings({ mp3Bitrate: Number(value) })}
+          />
+          <label className="flex items-center gap-2 text-xs text-neutral-200 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={exportSettings.mp3Mono}
+              onChange={(e) => onChangeExportSettings({ mp3Mono: e.target.checked })}
+              className="accent-cyan-400"
+            />
+            Downmix MP3 to mono
+          </label>
+          <SlicePanelSlider
+            label="FLAC compression"
+            value={exportSettings.flacCompressionLevel}
+            min={0}
+            max={8}
+            onChange={(flacCompressionLevel) => onChangeExportSettings({ flacCompressionLevel })}
+          />
+          <label className="flex items-center gap-2 text-xs text-neutral-200 cursor-pointer border-t border-neutral-700 pt-2">
+            <input
+              type="checkbox"
+              checked={exportSettings.samplerChunk}
+              onChange={(e) => onChangeExportSettings({ samplerChunk: e.target.checked })}
+              className="accent-cyan-400"
+            />
+            Write sampler loop to WAV/AIFF
+          </label>
+          <SlicePanelNumberInput
+            label={`Unity note (${formatNoteName(exportSettings.unityNote)})`}
+            value={exportSettings.unityNote}
+            min={0}
+            max={127}
+            step={1}
+            onChange={(value) => onChangeExportSettings({ unityNote: Math.max(0, Math.min(127, Math.round(value))) })}
+          />
+          <SlicePanelNumberInput
+            label="Fine tune"
+            value={exportSettings.fineTuneCents}
+            min={-50}
+            max={50}
+            step={1}
+            unit="cents"
+            onChange={(value) => onChangeExportSettings({ fineTuneCents: Math.max(-50, Math.min(50, Math.round(value))) })}
+          />
+          <p className="text-xs text-neutral-500">
+            Sections loop in full unless loop points are set from the section menu.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
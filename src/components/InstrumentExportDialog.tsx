@@ -0,0 +1,191 @@
+import { useState } from 'react';
+import type { Section } from '../types/section';
+import type { ExportSettings } from '../types/exportSettings';
+import type { InstrumentExportTarget, InstrumentPlayback, Op1Device } from '../types/instrument';
+import { SlicePanelNumberInput, SlicePanelSelect } from './SlicePanel';
+import { formatNoteName } from '../utils/noteNames';
+import { getMpcPadName, MPC_PAD_COUNT } from '../services/mpcExport';
+import { OP1_DEVICES, validateOp1DrumChain } from '../services/op1Export';
+
+/** Dialog title per instrument format */
+const TARGET_TITLES: Record<InstrumentExportTarget, string> = {
+  sfz: 'Export SFZ instrument',
+  dspreset: 'Export Decent Sampler preset',
+  xpm: 'Export MPC drum kit',
+  op1: 'Export OP-1 drum chain',
+};
+
+/** Playback modes in display order */
+const PLAYBACK_OPTIONS: Array<{ value: InstrumentPlayback; label: string }> = [
+  { value: 'oneShot', label: 'One-shot' },
+  { value: 'loop', label: 'Loop while held' },
+];
+
+/** Drum chain devices in display order */
+const OP1_DEVICE_OPTIONS = (Object.keys(OP1_DEVICES) as Op1Device[]).map((device) => ({
+  value: device,
+  label: `${OP1_DEVICES[device].label} (${OP1_DEVICES[device].maxDuration} s)`,
+}));
+
+/** Highest MIDI note */
+const MAX_NOTE = 127;
+
+/**
+ * Choices made in the instrument export dialog
+ */
+export type InstrumentExportChoice = Pick<
+  ExportSettings,
+  'instrumentRootNote' | 'instrumentPlayback' | 'sliceVolumes' | 'op1Device'
+>;
+
+export interface InstrumentExportDialogProps {
+  /** Instrument format being exported */
+  target: InstrumentExportTarget;
+  /** Sections mapped onto keys (or pads), in key order */
+  sections: Section[];
+  /** Current export settings (provide the remembered instrument options) */
+  exportSettings: ExportSettings;
+  /** Callback when user starts the export */
+  onExport: (choice: InstrumentExportChoice) => void;
+  /** Callback when user closes the dialog */
+  onCancel: () => void;
+}
+
+/**
+ * Dialog for exporting sections as a sampler instrument.
+ * Slices are mapped to consecutive keys from the root note (or to pads and drum slots
+ * for hardware kits); each slice has its own volume.
+ */
+export function InstrumentExportDialog({
+  target,
+  sections,
+  exportSettings,
+  onExport,
+  onCancel,
+}: InstrumentExportDialogProps) {
+  const [rootNote, setRootNote] = useState(exportSettings.instrumentRootNote);
+  const [playback, setPlayback] = useState<InstrumentPlayback>(exportSettings.instrumentPlayback);
+  const [sliceVolumes, setSliceVolumes] = useState<Record<string, number>>(exportSettings.sliceVolumes);
+  const [op1Device, setOp1Device] = useState<Op1Device>(exportSettings.op1Device);
+
+  // Drum kits use fixed pads or slots and always play one-shot
+  const usesKeyMapping = target === 'sfz' || target === 'dspreset';
+  const lastNote = rootNote + sections.length - 1;
+  const op1Error = target === 'op1'
+    ? validateOp1DrumChain(sections.map((section) => section.endTime - section.startTime), op1Device)
+    : null;
+  const canExport = sections.length > 0 && (usesKeyMapping ? lastNote <= MAX_NOTE : op1Error === null);
+
+  const getSlotLabel = (index: number) => {
+    if (target === 'xpm') return getMpcPadName(index);
+    if (target === 'op1') return String(index + 1);
+    return rootNote + index <= MAX_NOTE ? formatNoteName(rootNote + index) : '–';
+  };
+
+  const getSummary = () => {
+    if (target === 'xpm') {
+      return `${sections.length} of the first ${MPC_PAD_COUNT} enabled sections on pads, one-shot`;
+    }
+    if (target === 'op1') {
+      if (op1Error) return op1Error;
+      const totalDuration = sections.reduce((total, section) => total + section.endTime - section.startTime, 0);
+      return `${sections.length} enabled sections, ${totalDuration.toFixed(1)} s of ${OP1_DEVICES[op1Device].maxDuration} s`;
+    }
+    if (lastNote > MAX_NOTE) {
+      return `${sections.length} slices do not fit above ${formatNoteName(rootNote)}; lower the root note`;
+    }
+    return `${sections.length} slice${sections.length === 1 ? '' : 's'} on ${formatNoteName(rootNote)}–${formatNoteName(lastNote)}`;
+  };
+
+  const handleExport = () => {
+    // Only keep volumes of sections that still exist
+    const volumes: Record<string, number> = {};
+    for (const section of sections) {
+      const volume = sliceVolumes[section.startMarker.id];
+      if (volume) volumes[section.startMarker.id] = volume;
+    }
+    onExport({ instrumentRootNote: rootNote, instrumentPlayback: playback, sliceVolumes: volumes, op1Device });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60">
+      <div className="bg-neutral-800 border border-neutral-700 rounded-lg px-6 py-5 w-96">
+        <p className="text-neutral-200 text-sm mb-3">{TARGET_TITLES[target]}</p>
+        {usesKeyMapping && (
+          <div className="flex flex-col gap-2">
+            <SlicePanelNumberInput
+              label={`Root note (${formatNoteName(rootNote)})`}
+              value={rootNote}
+              min={0}
+              max={MAX_NOTE}
+              step={1}
+              onChange={(value) => setRootNote(Math.max(0, Math.min(MAX_NOTE, Math.round(value))))}
+            />
+            <SlicePanelSelect
+              label="Playback"
+              value={playback}
+              options={PLAYBACK_OPTIONS}
+              onChange={setPlayback}
+            />
+          </div>
+        )}
+        {target === 'op1' && (
+          <SlicePanelSelect
+            label="Device"
+            value={op1Device}
+            options={OP1_DEVICE_OPTIONS}
+            onChange={setOp1Device}
+          />
+        )}
+        {/* Per-slice volume */}
+        <div className={`${target === 'xpm' ? '' : 'mt-3 '}max-h-56 overflow-y-auto border border-neutral-700 rounded px-2 py-1.5 flex flex-col gap-1`}>
+          {sections.map((section, index) => (
+            <div key={section.id} className="flex items-center gap-2">
+              <span className="w-8 text-xs text-neutral-500 font-mono">
+                {getSlotLabel(index)}
+              </span>
+              <div className="flex-1 min-w-0">
+                <SlicePanelNumberInput
+                  label={section.name}
+                  value={sliceVolumes[section.startMarker.id] ?? 0}
+                  min={-48}
+                  max={12}
+                  step={0.5}
+                  unit="dB"
+                  onChange={(value) =>
+                    setSliceVolumes((prev) => ({ ...prev, [section.startMarker.id]: Math.max(-48, Math.min(12, value)) }))
+                  }
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+        <p className={`text-xs mt-3 ${canExport ? 'text-neutral-400' : 'text-amber-400'}`}>
+          {getSummary()}
+        </p>
+        {/* Buttons */}
+        <div className="flex justify-end gap-2 mt-4">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-3 py-1.5 text-sm bg-neutral-700 hover:bg-neutral-600 text-neutral-200 border border-neutral-600 rounded transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={!canExport}
+            className={`px-3 py-1.5 text-sm border rounded transition-colors ${
+              !canExport
+                ? 'bg-neutral-800 text-neutral-600 border-neutral-700 cursor-not-allowed'
+                : 'bg-cyan-700 hover:bg-cyan-600 text-white border-cyan-600'
+            }`}
+          >
+            Export
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
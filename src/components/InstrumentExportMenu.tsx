@@ -0,0 +1,121 @@
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { Piano } from 'lucide-react';
+import type { InstrumentExportTarget } from '../types/instrument';
+
+/** Instrument formats in display order */
+const INSTRUMENT_EXPORT_ITEMS: Array<{ target: InstrumentExportTarget; label: string }> = [
+  { target: 'sfz', label: 'SFZ instrument (.sfz)' },
+  { target: 'dspreset', label: 'Decent Sampler preset (.dspreset)' },
+  { target: 'xpm', label: 'MPC drum kit (.xpm)' },
+  { target: 'op1', label: 'OP-1 drum chain (.aif)' },
+];
+
+export interface InstrumentExportMenuProps {
+  /** Callback when user picks an instrument format (opens the instrument export dialog) */
+  onSelectTarget: (target: InstrumentExportTarget) => void;
+  /** Whether there are sections to export */
+  canExport: boolean;
+  /** Callback when user exports the slice triggers as a MIDI file */
+  onExportMidi: () => void;
+  /** Why a MIDI file cannot be written, e.g. no tempo (null if it can) */
+  midiExportError: string | null;
+  /** Whether the menu should be disabled (e.g., during playback) */
+  disabled?: boolean;
+}
+
+/**
+ * Dropdown for exporting sections as playable sampler instruments
+ */
+export function InstrumentExportMenu({
+  onSelectTarget,
+  canExport,
+  onExportMidi,
+  midiExportError,
+  disabled = false,
+}: InstrumentExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const canExportMidi = midiExportError === null;
+  const dropdownRef = useRef<HTMLDivElement>(null);
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (dropdownRef.current && !dropdownRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const handleSelect = useCallback((target: InstrumentExportTarget) => {
+    if (!canExport) return;
+    onSelectTarget(target);
+    setIsOpen(false);
+  }, [canExport, onSelectTarget]);
+
+  const handleExportMidi = useCallback(() => {
+    if (!canExportMidi) return;
+    onExportMidi();
+    setIsOpen(false);
+  }, [canExportMidi, onExportMidi]);
+
+  return (
+    <div ref={dropdownRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className={`px-3 py-1.5 text-xs bg-neutral-800 border border-neutral-700 transition-colors tracking-wide flex items-center gap-1.5 ${
+          disabled
+            ? 'text-neutral-600 cursor-not-allowed'
+            : 'text-neutral-400 hover:text-neutral-200 hover:bg-neutral-700'
+        }`}
+        title="Export sections as a sampler instrument"
+      >
+        <Piano className="w-4 h-4" />
+        <span>Instrument</span>
+      </button>
+      {/* Dropdown menu */}
+      {isOpen && (
+        <div
+          className="absolute top-full left-0 mt-1 py-1 rounded shadow-lg z-50"
+          style={{
+            backgroundColor: '#1f1f1f',
+            minWidth: 180,
+          }}
+        >
+          <div className="px-3 py-1 text-neutral-500 text-xs">Export as</div>
+          {INSTRUMENT_EXPORT_ITEMS.map((item) => (
+            <div
+              key={item.target}
+              className={`px-3 py-1.5 text-xs ${
+                canExport
+                  ? 'text-neutral-200 cursor-pointer hover:bg-neutral-700'
+                  : 'text-neutral-600 cursor-not-allowed'
+              }`}
+              onClick={() => handleSelect(item.target)}
+            >
+              {item.label}
+            </div>
+          ))}
+          <div className="my-1 border-t border-neutral-700" />
+          <div
+            className={`px-3 py-1.5 text-xs ${
+              canExportMidi
+                ? 'text-neutral-200 cursor-pointer hover:bg-neutral-700'
+                : 'text-neutral-600 cursor-not-allowed'
+            }`}
+            onClick={handleExportMidi}
+            title={midiExportError ?? 'MIDI file triggering each enabled slice at its original position'}
+          >
+            MIDI slice triggers (.mid)
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
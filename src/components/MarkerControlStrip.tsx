@@ -29,6 +29,8 @@ export interface MarkerControlStripProps {
   exportingSectionId?: string | null;
   /** Callback when user toggles a section's enabled state */
   onToggleSectionEnabled?: (sectionId: string) => void;
+  /** Callback when user opens the loop point editor for a section */
+  onEditSectionLoop?: (sectionId: string) => void;
   /** Keyboard key that was just pressed (for blink animation) */
   pressedKeyboardKey?: string | null;
 }
@@ -48,6 +50,7 @@ export function MarkerControlStrip({
   onExportSection,
   exportingSectionId,
   onToggleSectionEnabled,
+  onEditSectionLoop,
   pressedKeyboardKey,
 }: MarkerControlStripProps) {
   /**
@@ -165,6 +168,7 @@ export function MarkerControlStrip({
             onExport={onExportSection}
             isExporting={exportingSectionId === section.id}
             onToggleEnabled={onToggleSectionEnabled}
+            onEditLoop={onEditSectionLoop}
           />
         );
       })}
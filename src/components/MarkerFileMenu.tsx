@@ -0,0 +1,165 @@
+import { useState, useRef, useEffect, useCallback, type ChangeEvent } from 'react';
+import { ListOrdered } from 'lucide-react';
+import type { MarkerExportFormat } from '../types/markerFile';
+
+/**
+ * Accept attribute for the marker file input
+ */
+const MARKER_FILE_INPUT_ACCEPT = '.cue,.txt,.csv,text/plain,text/csv';
+
+/** Export entries in display order */
+const MARKER_EXPORT_ITEMS: Array<{ format: MarkerExportFormat; label: string }> = [
+  { format: 'cue', label: 'CUE sheet (.cue)' },
+  { format: 'audacity', label: 'Audacity labels (.txt)' },
+  { format: 'reaper', label: 'REAPER regions (.csv)' },
+  { format: 'csv', label: 'Section table (.csv)' },
+  { format: 'json', label: 'Section table (.json)' },
+];
+
+export interface MarkerFileMenuProps {
+  /** Callback when user picks a marker file to import */
+  onImportMarkers: (file: File) => void;
+  /** Callback when user exports the sections as a marker list */
+  onExportMarkers: (format: MarkerExportFormat) => void;
+  /** Whether there are sections to export */
+  canExport: boolean;
+  /** Callback when user exports the full audio as a WAV with embedded cue points */
+  onExportCueWav: () => void;
+  /** Whether there are markers to embed as cue points */
+  canExportCueWav: boolean;
+  /** Whether the menu should be disabled (e.g., during playback) */
+  disabled?: boolean;
+}
+
+/**
+ * Dropdown for exchanging marker lists with other tools
+ */
+export function MarkerFileMenu({
+  onImportMarkers,
+  onExportMarkers,
+  canExport,
+  onExportCueWav,
+  canExportCueWav,
+  disabled = false,
+}: MarkerFileMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (dropdownRef.current && !dropdownRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const handleImportClick = useCallback(() => {
+    fileInputRef.current?.click();
+    setIsOpen(false);
+  }, []);
+
+  const handleExport = useCallback((format: MarkerExportFormat) => {
+    if (!canExport) return;
+    onExportMarkers(format);
+    setIsOpen(false);
+  }, [canExport, onExportMarkers]);
+
+  const handleExportCueWav = useCallback(() => {
+    if (!canExportCueWav) return;
+    onExportCueWav();
+    setIsOpen(false);
+  }, [canExportCueWav, onExportCueWav]);
+
+  const handleFileInputChange = useCallback((e: ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files;
+    if (!files || files.length === 0) {
+      return;
+    }
+
+    onImportMarkers(files[0]);
+
+    // Reset input so the same file can be selected again if needed
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  }, [onImportMarkers]);
+
+  return (
+    <div ref={dropdownRef} className="relative">
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={MARKER_FILE_INPUT_ACCEPT}
+        onChange={handleFileInputChange}
+        className="hidden"
+        aria-label="Import marker file"
+      />
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className={`px-3 py-1.5 text-xs bg-neutral-800 border border-neutral-700 transition-colors tracking-wide flex items-center gap-1.5 ${
+          disabled
+            ? 'text-neutral-600 cursor-not-allowed'
+            : 'text-neutral-400 hover:text-neutral-200 hover:bg-neutral-700'
+        }`}
+        title="Import or export marker lists"
+      >
+        <ListOrdered className="w-4 h-4" />
+        <span>Markers</span>
+      </button>
+      {/* Dropdown menu */}
+      {isOpen && (
+        <div
+          className="absolute top-full left-0 mt-1 py-1 rounded shadow-lg z-50"
+          style={{
+            backgroundColor: '#1f1f1f',
+            minWidth: 180,
+          }}
+        >
+          <div
+            className="px-3 py-1.5 text-neutral-200 text-xs cursor-pointer hover:bg-neutral-700"
+            onClick={handleImportClick}
+            title="CUE sheet, Audacity labels (.txt) or REAPER marker CSV"
+          >
+            Import markers…
+          </div>
+          <div className="my-1 border-t border-neutral-700" />
+          <div className="px-3 py-1 text-neutral-500 text-xs">Export sections as</div>
+          {MARKER_EXPORT_ITEMS.map((item) => (
+            <div
+              key={item.format}
+              className={`px-3 py-1.5 text-xs ${
+                canExport
+                  ? 'text-neutral-200 cursor-pointer hover:bg-neutral-700'
+                  : 'text-neutral-600 cursor-not-allowed'
+              }`}
+              onClick={() => handleExport(item.format)}
+            >
+              {item.label}
+            </div>
+          ))}
+          <div className="my-1 border-t border-neutral-700" />
+          <div
+            className={`px-3 py-1.5 text-xs ${
+              canExportCueWav
+                ? 'text-neutral-200 cursor-pointer hover:bg-neutral-700'
+                : 'text-neutral-600 cursor-not-allowed'
+            }`}
+            onClick={handleExportCueWav}
+            title="Single full-length WAV with every marker embedded as a cue point"
+          >
+            Full WAV with cue points
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+import { useState, useRef, useEffect, useCallback, type ChangeEvent } from 'react';
+import { FolderOpen } from 'lucide-react';
+
+/**
+ * Accept attribute for the project file input
+ */
+export const PROJECT_FILE_INPUT_ACCEPT = '.json,application/json';
+
+export interface ProjectMenuProps {
+  /** Callback when user saves the current project */
+  onSaveProject: () => void;
+  /** Callback when user picks a project file to open */
+  onOpenProject: (file: File) => void;
+  /** Whether saving is possible (audio must be loaded) */
+  canSave: boolean;
+}
+
+/**
+ * Header dropdown with project save/open commands
+ */
+export function ProjectMenu({ onSaveProject, onOpenProject, canSave }: ProjectMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (dropdownRef.current && !dropdownRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const handleSave = useCallback(() => {
+    if (!canSave) return;
+    onSaveProject();
+    setIsOpen(false);
+  }, [canSave, onSaveProject]);
+
+  const handleOpenClick = useCallback(() => {
+    fileInputRef.current?.click();
+    setIsOpen(false);
+  }, []);
+
+  const handleFileInputChange = useCallback((e: ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files;
+    if (!files || files.length === 0) {
+      return;
+    }
+
+    onOpenProject(files[0]);
+
+    // Reset input so the same file can be selected again if needed
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  }, [onOpenProject]);
+
+  return (
+    <div ref={dropdownRef} className="relative">
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={PROJECT_FILE_INPUT_ACCEPT}
+        onChange={handleFileInputChange}
+        className="hidden"
+        aria-label="Open project file"
+      />
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1.5 px-3 py-1.5 text-xs text-neutral-400 hover:text-neutral-200 bg-neutral-800 hover:bg-neutral-700 border border-neutral-700 transition-colors tracking-wide"
+        title="Save or open a slice project"
+      >
+        <FolderOpen className="w-4 h-4" />
+        Project
+      </button>
+      {/* Dropdown menu */}
+      {isOpen && (
+        <div
+          className="absolute top-full left-0 mt-1 py-1 rounded shadow-lg z-50"
+          style={{
+            backgroundColor: '#1f1f1f',
+            minWidth: 140,
+          }}
+        >
+          <div
+            className={`px-3 py-1.5 text-xs ${
+              canSave
+                ? 'text-neutral-200 cursor-pointer hover:bg-neutral-700'
+                : 'text-neutral-600 cursor-not-allowed'
+            }`}
+            onClick={handleSave}
+          >
+            Save project
+          </div>
+          <div
+            className="px-3 py-1.5 text-neutral-200 text-xs cursor-pointer hover:bg-neutral-700"
+            onClick={handleOpenClick}
+          >
+            Open project…
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+import { useRef, useCallback, type ChangeEvent } from 'react';
+import { SUPPORTED_AUDIO_FORMATS, SUPPORTED_EXTENSIONS } from '../types/audio';
+import type { ProjectSource } from '../types/project';
+
+/**
+ * Build the accept attribute for file input from supported formats
+ */
+const FILE_INPUT_ACCEPT = [
+  ...SUPPORTED_AUDIO_FORMATS,
+  ...SUPPORTED_EXTENSIONS,
+].join(',');
+
+export interface ProjectRelinkDialogProps {
+  /** Audio source stored in the project being opened (null hides the dialog) */
+  source: ProjectSource | null;
+  /** Differences between the project audio and the loaded audio (null while no audio is linked yet) */
+  mismatches: string[] | null;
+  /** Whether audio is currently loaded that could be used instead of choosing a file */
+  canUseLoadedAudio: boolean;
+  /** Callback when user picks the audio file for the project */
+  onChooseAudio: (file: File) => void;
+  /** Callback when user links the project to the already loaded audio */
+  onUseLoadedAudio: () => void;
+  /** Callback when user opens the project despite mismatching audio */
+  onApplyAnyway: () => void;
+  /** Callback when user cancels opening the project */
+  onCancel: () => void;
+}
+
+/**
+ * Format a duration in seconds as m:ss.mmm
+ */
+function formatDuration(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const remainder = seconds - minutes * 60;
+  return `${minutes}:${remainder.toFixed(3).padStart(6, '0')}`;
+}
+
+/**
+ * Dialog shown while opening a project to re-link it to its audio file
+ * and to warn when the chosen audio doesn't match the saved one
+ */
+export function ProjectRelinkDialog({
+  source,
+  mismatches,
+  canUseLoadedAudio,
+  onChooseAudio,
+  onUseLoadedAudio,
+  onApplyAnyway,
+  onCancel,
+}: ProjectRelinkDialogProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileInputChange = useCallback((e: ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files;
+    if (!files || files.length === 0) {
+      return;
+    }
+
+    onChooseAudio(files[0]);
+
+    // Reset input so the same file can be selected again if needed
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  }, [onChooseAudio]);
+
+  if (!source) return null;
+
+  const hasMismatches = mismatches !== null && mismatches.length > 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60">
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={FILE_INPUT_ACCEPT}
+        onChange={handleFileInputChange}
+        className="hidden"
+        aria-label="Choose project audio file"
+      />
+      <div className="bg-neutral-800 border border-neutral-700 rounded-lg px-6 py-5 max-w-md">
+        {/* Message */}
+        {hasMismatches ? (
+          <>
+            <p className="text-neutral-200 text-sm mb-2">
+              The loaded audio doesn't match this project.
+            </p>
+            <ul className="text-amber-400 text-xs mb-4 list-disc pl-4 space-y-1">
+              {mismatches.map((mismatch) => (
+                <li key={mismatch}>{mismatch}</li>
+              ))}
+            </ul>
+          </>
+        ) : (
+          <p className="text-neutral-200 text-sm mb-4">
+            This project belongs to <span className="text-cyan-400">{source.name}</span>
+            {' '}({formatDuration(source.duration)}). Choose the audio file to open it with.
+          </p>
+        )}
+        {/* Buttons */}
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-3 py-1.5 text-sm bg-neutral-700 hover:bg-neutral-600 text-neutral-200 border border-neutral-600 rounded transition-colors"
+          >
+            Cancel
+          </button>
+          {hasMismatches ? (
+            <>
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                className="px-3 py-1.5 text-sm bg-neutral-700 hover:bg-neutral-600 text-neutral-200 border border-neutral-600 rounded transition-colors"
+              >
+                Choose other file…
+              </button>
+              <button
+                type="button"
+                onClick={onApplyAnyway}
+                className="px-3 py-1.5 text-sm bg-amber-700 hover:bg-amber-600 text-white border border-amber-600 rounded transition-colors"
+              >
+                Open anyway
+              </button>
+            </>
+          ) : (
+            <>
+              {canUseLoadedAudio && (
+                <button
+                  type="button"
+                  onClick={onUseLoadedAudio}
+                  className="px-3 py-1.5 text-sm bg-neutral-700 hover:bg-neutral-600 text-neutral-200 border border-neutral-600 rounded transition-colors"
+                >
+                  Use loaded audio
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                className="px-3 py-1.5 text-sm bg-cyan-700 hover:bg-cyan-600 text-white border border-cyan-600 rounded transition-colors"
+              >
+                Choose audio file…
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
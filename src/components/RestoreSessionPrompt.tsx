@@ -0,0 +1,56 @@
+import { History } from 'lucide-react';
+import type { RestorableSession } from '../types/session';
+
+export interface RestoreSessionPromptProps {
+  /** Autosaved session available for restore */
+  session: RestorableSession;
+  /** Callback when user restores the session */
+  onRestore: () => void;
+  /** Callback when user discards the session */
+  onDiscard: () => void;
+}
+
+/**
+ * Format an autosave timestamp relative to now (e.g., "5 min ago")
+ */
+function formatSavedAt(savedAt: number): string {
+  const minutes = Math.round((Date.now() - savedAt) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  return new Date(savedAt).toLocaleString();
+}
+
+/**
+ * Offer shown on the drop zone to restore the last autosaved session
+ */
+export function RestoreSessionPrompt({ session, onRestore, onDiscard }: RestoreSessionPromptProps) {
+  const markerCount = session.session.markerHistory.present.length;
+
+  return (
+    <div className="flex items-center gap-3 px-4 py-3 bg-neutral-800 border border-neutral-700 rounded-lg">
+      <History className="w-4 h-4 text-cyan-400 flex-shrink-0" />
+      <div className="flex flex-col">
+        <span className="text-neutral-200 text-sm">Restore last session?</span>
+        <span className="text-neutral-500 text-xs">
+          {session.audio.name} · {markerCount} marker{markerCount === 1 ? '' : 's'} · saved {formatSavedAt(session.session.savedAt)}
+        </span>
+      </div>
+      <div className="flex gap-2 ml-2">
+        <button
+          type="button"
+          onClick={onDiscard}
+          className="px-3 py-1.5 text-sm bg-neutral-700 hover:bg-neutral-600 text-neutral-200 border border-neutral-600 rounded transition-colors"
+        >
+          Discard
+        </button>
+        <button
+          type="button"
+          onClick={onRestore}
+          className="px-3 py-1.5 text-sm bg-cyan-700 hover:bg-cyan-600 text-white border border-cyan-600 rounded transition-colors"
+        >
+          Restore
+        </button>
+      </div>
+    </div>
+  );
+}
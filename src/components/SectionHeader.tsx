@@ -4,7 +4,15 @@ import type { VisibleRange } from '../types/zoom';
 import { SectionDropdown } from './SectionDropdown';
 import type { SectionDropdownItem } from './SectionDropdown';
 
-export type ExportFormat = 'wav' | 'mp3';
+export type ExportFormat = 'wav' | 'mp3' | 'flac' | 'aiff';
+
+/** Download entries in display order */
+const DOWNLOAD_FORMATS: Array<{ format: ExportFormat; label: string }> = [
+  { format: 'wav', label: 'WAV' },
+  { format: 'mp3', label: 'MP3' },
+  { format: 'flac', label: 'FLAC' },
+  { format: 'aiff', label: 'AIFF' },
+];
 
 export interface SectionHeaderProps {
   /** The section to display */
@@ -25,6 +33,8 @@ export interface SectionHeaderProps {
   isExporting?: boolean;
   /** Callback when user toggles section enabled state */
   onToggleEnabled?: (sectionId: string) => void;
+  /** Callback when user opens the loop point editor for the section */
+  onEditLoop?: (sectionId: string) => void;
 }
 
 interface EditableNameProps {
@@ -203,6 +213,7 @@ export function SectionHeader({
   onExport,
   isExporting,
   onToggleEnabled,
+  onEditLoop,
 }: SectionHeaderProps) {
   // Track whether the name is truncated (for future popover feature)
   const [isTruncated, setIsTruncated] = useState(false);
@@ -250,16 +261,18 @@ export function SectionHeader({
   const dropdownItems = useMemo<SectionDropdownItem[]>(() => {
     const items: SectionDropdownItem[] = [];
 
-    // Download action
+    // Download actions (one per format)
     if (onExport) {
-      items.push({
-        label: isExporting ? 'Exporting...' : 'Download',
-        onClick: () => {
-          if (!isExporting) {
-            onExport(section.id, 'wav');
-          }
-        },
-      });
+      for (const { format, label } of DOWNLOAD_FORMATS) {
+        items.push({
+          label: isExporting ? 'Exporting...' : `Download ${label}`,
+          onClick: () => {
+            if (!isExporting) {
+              onExport(section.id, format);
+            }
+          },
+        });
+      }
     }
 
     // Enable/Disable toggle action
@@ -270,8 +283,16 @@ export function SectionHeader({
       });
     }
 
+    // Loop point editor
+    if (onEditLoop) {
+      items.push({
+        label: section.loop ? 'Loop points (custom)…' : 'Loop points…',
+        onClick: () => onEditLoop(section.id),
+      });
+    }
+
     return items;
-  }, [section.id, section.enabled, onExport, onToggleEnabled, isExporting]);
+  }, [section.id, section.enabled, section.loop, onExport, onToggleEnabled, onEditLoop, isExporting]);
 
   return (
     <div
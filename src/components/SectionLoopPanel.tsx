@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import type { Section } from '../types/section';
+import type { SectionLoop } from '../types/marker';
+import { SlicePanel, SlicePanelNumberInput } from './SlicePanel';
+
+export interface SectionLoopPanelProps {
+  /** Section whose loop is being edited */
+  section: Section;
+  /** Whether WAV and AIFF exports currently include sampler data */
+  samplerChunkEnabled: boolean;
+  /** Callback with the new loop (undefined loops the whole section) */
+  onApply: (loop: SectionLoop | undefined) => void;
+  /** Callback when user closes the panel */
+  onCancel: () => void;
+}
+
+/**
+ * Panel for editing the loop range written to a section's WAV sampler chunk.
+ * Times are entered in milliseconds relative to the section start.
+ */
+export function SectionLoopPanel({
+  section,
+  samplerChunkEnabled,
+  onApply,
+  onCancel,
+}: SectionLoopPanelProps) {
+  const durationMs = (section.endTime - section.startTime) * 1000;
+  const [startMs, setStartMs] = useState(section.loop ? section.loop.start * 1000 : 0);
+  const [endMs, setEndMs] = useState(section.loop ? section.loop.end * 1000 : durationMs);
+
+  const isValid = endMs > startMs;
+  const isWholeSection = startMs <= 0 && endMs >= durationMs;
+
+  return (
+    <SlicePanel
+      title={`Loop points: ${section.name}`}
+      summary={isValid
+        ? `${isWholeSection ? 'Whole section' : 'Loop'} of ${(endMs - startMs).toFixed(1)} ms`
+        : 'Loop end must be after loop start'}
+      applyDisabled={!isValid}
+      onApply={() => onApply(isWholeSection ? undefined : { start: startMs / 1000, end: endMs / 1000 })}
+      onCancel={onCancel}
+    >
+      <SlicePanelNumberInput
+        label="Loop start"
+        value={Math.round(startMs * 10) / 10}
+        min={0}
+        max={durationMs}
+        step={0.1}
+        unit="ms"
+        onChange={(value) => setStartMs(Math.max(0, Math.min(durationMs, value)))}
+      />
+      <SlicePanelNumberInput
+        label="Loop end"
+        value={Math.round(endMs * 10) / 10}
+        min={0}
+        max={durationMs}
+        step={0.1}
+        unit="ms"
+        onChange={(value) => setEndMs(Math.max(0, Math.min(durationMs, value)))}
+      />
+      <button
+        type="button"
+        onClick={() => {
+          setStartMs(0);
+          setEndMs(durationMs);
+        }}
+        disabled={isWholeSection}
+        className={`px-2 py-1 text-xs text-left ${
+          isWholeSection ? 'text-neutral-600 cursor-not-allowed' : 'text-neutral-200 hover:bg-neutral-700'
+        }`}
+      >
+        Loop whole section
+      </button>
+      {!samplerChunkEnabled && (
+        <p className="text-xs text-amber-400">
+          Enable the sampler loop in the export settings to write loops to WAV and AIFF exports
+        </p>
+      )}
+    </SlicePanel>
+  );
+}
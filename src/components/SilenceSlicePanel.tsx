@@ -0,0 +1,102 @@
+import { useEffect, useMemo, useState } from 'react';
+import { audioAnalysisService } from '../services/AudioAnalysisService';
+import { getMarkerDraftsForRegions } from '../utils/sections';
+import type { MarkerDraft } from '../types/marker';
+import { SlicePanel, SlicePanelSlider } from './SlicePanel';
+
+export interface SilenceSlicePanelProps {
+  /** Decoded audio to analyze */
+  audioBuffer: AudioBuffer;
+  /** Whether markers already exist (they will be replaced) */
+  hasMarkers: boolean;
+  /** Callback with the marker times whenever they change (for canvas preview) */
+  onPreviewChange: (times: number[]) => void;
+  /** Callback when user applies the detected regions as markers */
+  onApply: (drafts: MarkerDraft[]) => void;
+  /** Callback when user closes the panel */
+  onCancel: () => void;
+}
+
+/**
+ * Auto-slice panel that splits audio at silent gaps.
+ * Each sound becomes an enabled section; the gaps between them become disabled sections.
+ */
+export function SilenceSlicePanel({
+  audioBuffer,
+  hasMarkers,
+  onPreviewChange,
+  onApply,
+  onCancel,
+}: SilenceSlicePanelProps) {
+  const [thresholdDb, setThresholdDb] = useState(-50);
+  const [minSilenceMs, setMinSilenceMs] = useState(300);
+  const [paddingBeforeMs, setPaddingBeforeMs] = useState(10);
+  const [paddingAfterMs, setPaddingAfterMs] = useState(50);
+
+  const regions = useMemo(
+    () => audioAnalysisService.detectSoundRegions(audioBuffer, {
+      thresholdDb,
+      minSilenceMs,
+      paddingBeforeMs,
+      paddingAfterMs,
+    }),
+    [audioBuffer, thresholdDb, minSilenceMs, paddingBeforeMs, paddingAfterMs]
+  );
+
+  const drafts = useMemo(() => getMarkerDraftsForRegions(regions), [regions]);
+
+  // Keep the canvas preview in sync with the current detection result
+  useEffect(() => {
+    onPreviewChange(drafts.map((draft) => draft.time));
+  }, [drafts, onPreviewChange]);
+
+  const summary = `${regions.length} sound${regions.length === 1 ? '' : 's'} found`
+    + (hasMarkers ? ' · replaces existing markers' : '');
+
+  return (
+    <SlicePanel
+      title="Split at silence"
+      summary={summary}
+      applyLabel="Split"
+      applyDisabled={regions.length === 0}
+      onApply={() => onApply(drafts)}
+      onCancel={onCancel}
+    >
+      <SlicePanelSlider
+        label="Threshold"
+        value={thresholdDb}
+        min={-90}
+        max={-6}
+        displayValue={`${thresholdDb} dBFS`}
+        onChange={setThresholdDb}
+      />
+      <SlicePanelSlider
+        label="Minimum silence"
+        value={minSilenceMs}
+        min={20}
+        max={3000}
+        step={10}
+        displayValue={`${minSilenceMs} ms`}
+        onChange={setMinSilenceMs}
+      />
+      <SlicePanelSlider
+        label="Padding before"
+        value={paddingBeforeMs}
+        min={0}
+        max={500}
+        step={5}
+        displayValue={`${paddingBeforeMs} ms`}
+        onChange={setPaddingBeforeMs}
+      />
+      <SlicePanelSlider
+        label="Padding after"
+        value={paddingAfterMs}
+        min={0}
+        max={1000}
+        step={5}
+        displayValue={`${paddingAfterMs} ms`}
+        onChange={setPaddingAfterMs}
+      />
+    </SlicePanel>
+  );
+}
@@ -0,0 +1,232 @@
+import { useState } from 'react';
+import type { ReactNode } from 'react';
+
+export interface SlicePanelProps {
+  /** Panel title */
+  title: string;
+  /** Short summary of the pending result (e.g., "12 onsets detected") */
+  summary?: string;
+  /** Label for the apply button */
+  applyLabel?: string;
+  /** Whether the apply button is disabled */
+  applyDisabled?: boolean;
+  /** Callback when user applies the slicing result */
+  onApply: () => void;
+  /** Callback when user closes the panel without applying */
+  onCancel: () => void;
+  /** Tool-specific controls */
+  children: ReactNode;
+}
+
+/**
+ * Floating panel shell shared by the auto-slice tools.
+ * Non-modal so the waveform preview stays visible while adjusting controls.
+ */
+export function SlicePanel({
+  title,
+  summary,
+  applyLabel = 'Apply',
+  applyDisabled = false,
+  onApply,
+  onCancel,
+  children,
+}: SlicePanelProps) {
+  return (
+    <div className="fixed top-4 right-4 z-40 w-72 bg-neutral-800 border border-neutral-700 rounded-lg px-4 py-3 shadow-lg">
+      {/* Title */}
+      <p className="text-neutral-200 text-sm mb-3">{title}</p>
+      {/* Controls */}
+      <div className="flex flex-col gap-3">{children}</div>
+      {/* Result summary */}
+      {summary && (
+        <p className="text-neutral-400 text-xs mt-3">{summary}</p>
+      )}
+      {/* Buttons */}
+      <div className="flex justify-end gap-2 mt-4">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-3 py-1.5 text-sm bg-neutral-700 hover:bg-neutral-600 text-neutral-200 border border-neutral-600 rounded transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={onApply}
+          disabled={applyDisabled}
+          className={`px-3 py-1.5 text-sm border rounded transition-colors ${
+            applyDisabled
+              ? 'bg-neutral-800 text-neutral-600 border-neutral-700 cursor-not-allowed'
+              : 'bg-cyan-700 hover:bg-cyan-600 text-white border-cyan-600'
+          }`}
+        >
+          {applyLabel}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export interface SlicePanelSliderProps {
+  /** Label shown above the slider */
+  label: string;
+  /** Current value */
+  value: number;
+  /** Minimum value */
+  min: number;
+  /** Maximum value */
+  max: number;
+  /** Step size */
+  step?: number;
+  /** Formatted value shown next to the label (defaults to the raw value) */
+  displayValue?: string;
+  /** Callback when the value changes */
+  onChange: (value: number) => void;
+}
+
+/**
+ * Labeled range slider for slice panel controls
+ */
+export function SlicePanelSlider({
+  label,
+  value,
+  min,
+  max,
+  step = 1,
+  displayValue,
+  onChange,
+}: SlicePanelSliderProps) {
+  return (
+    <label className="flex flex-col gap-1">
+      <span className="flex justify-between text-xs text-neutral-400">
+        <span>{label}</span>
+        <span className="text-neutral-200">{displayValue ?? value}</span>
+      </span>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="w-full accent-cyan-400"
+      />
+    </label>
+  );
+}
+
+export interface SlicePanelNumberInputProps {
+  /** Label shown next to the input */
+  label: string;
+  /** Current value (null renders an empty input) */
+  value: number | null;
+  /** Minimum value */
+  min?: number;
+  /** Maximum value */
+  max?: number;
+  /** Step size */
+  step?: number;
+  /** Unit suffix shown after the input (e.g., "ms") */
+  unit?: string;
+  /** Callback with the new value (only called for valid numbers, on blur or Enter) */
+  onChange: (value: number) => void;
+}
+
+/**
+ * Labeled numeric input for slice panel controls
+ * Edits are kept local until committed so intermediate keystrokes are not clamped
+ */
+export function SlicePanelNumberInput({
+  label,
+  value,
+  min,
+  max,
+  step = 1,
+  unit,
+  onChange,
+}: SlicePanelNumberInputProps) {
+  // Text being edited, or null when showing the committed value
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commit = () => {
+    if (draft === null) return;
+    const parsed = parseFloat(draft);
+    if (Number.isFinite(parsed)) {
+      onChange(parsed);
+    }
+    setDraft(null);
+  };
+
+  return (
+    <label className="flex items-center justify-between gap-2 text-xs text-neutral-400">
+      <span>{label}</span>
+      <span className="flex items-center gap-1">
+        <input
+          type="number"
+          min={min}
+          max={max}
+          step={step}
+          value={draft ?? value ?? ''}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={commit}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              commit();
+            } else if (e.key === 'Escape') {
+              e.preventDefault();
+              setDraft(null);
+            }
+          }}
+          className="w-20 bg-neutral-700 text-neutral-100 rounded px-1.5 py-0.5 outline-none focus:ring-1 focus:ring-cyan-500"
+        />
+        {unit && <span className="w-6">{unit}</span>}
+      </span>
+    </label>
+  );
+}
+
+export interface SlicePanelSelectOption<T extends string> {
+  /** Option value */
+  value: T;
+  /** Option label */
+  label: string;
+}
+
+export interface SlicePanelSelectProps<T extends string> {
+  /** Label shown next to the select (omit when the select follows another field) */
+  label?: string;
+  /** Currently selected value */
+  value: T;
+  /** Available options */
+  options: SlicePanelSelectOption<T>[];
+  /** Callback when the selection changes */
+  onChange: (value: T) => void;
+}
+
+/**
+ * Labeled select for slice panel controls
+ */
+export function SlicePanelSelect<T extends string>({
+  label,
+  value,
+  options,
+  onChange,
+}: SlicePanelSelectProps<T>) {
+  return (
+    <label className="flex items-center justify-between gap-2 text-xs text-neutral-400">
+      {label && <span>{label}</span>}
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value as T)}
+        className="bg-neutral-700 text-neutral-100 rounded px-1.5 py-0.5 outline-none focus:ring-1 focus:ring-cyan-500"
+      >
+        {options.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,85 @@
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { Scissors } from 'lucide-react';
+
+export type SliceTool = 'transients' | 'beatGrid' | 'silence' | 'equalDivision';
+
+/** Menu entries in display order */
+const SLICE_TOOL_ITEMS: Array<{ tool: SliceTool; label: string }> = [
+  { tool: 'transients', label: 'By transients…' },
+  { tool: 'beatGrid', label: 'By beat grid…' },
+  { tool: 'silence', label: 'At silence…' },
+  { tool: 'equalDivision', label: 'Into equal slices…' },
+];
+
+export interface SliceToolsMenuProps {
+  /** Callback when user picks a slicing tool */
+  onSelectTool: (tool: SliceTool) => void;
+  /** Whether the menu should be disabled (e.g., during playback) */
+  disabled?: boolean;
+}
+
+/**
+ * Dropdown listing the automatic slicing tools
+ */
+export function SliceToolsMenu({ onSelectTool, disabled = false }: SliceToolsMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (dropdownRef.current && !dropdownRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const handleSelect = useCallback((tool: SliceTool) => {
+    onSelectTool(tool);
+    setIsOpen(false);
+  }, [onSelectTool]);
+
+  return (
+    <div ref={dropdownRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className={`px-3 py-1.5 text-xs bg-neutral-800 border border-neutral-700 transition-colors tracking-wide flex items-center gap-1.5 ${
+          disabled
+            ? 'text-neutral-600 cursor-not-allowed'
+            : 'text-neutral-400 hover:text-neutral-200 hover:bg-neutral-700'
+        }`}
+        title="Place markers automatically"
+      >
+        <Scissors className="w-4 h-4" />
+        <span>Auto-slice</span>
+      </button>
+      {/* Dropdown menu */}
+      {isOpen && (
+        <div
+          className="absolute top-full left-0 mt-1 py-1 rounded shadow-lg z-50"
+          style={{
+            backgroundColor: '#1f1f1f',
+            minWidth: 140,
+          }}
+        >
+          {SLICE_TOOL_ITEMS.map((item) => (
+            <div
+              key={item.tool}
+              className="px-3 py-1.5 text-neutral-200 text-xs cursor-pointer hover:bg-neutral-700"
+              onClick={() => handleSelect(item.tool)}
+            >
+              {item.label}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
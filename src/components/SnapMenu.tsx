@@ -0,0 +1,176 @@
+import { useState, useRef, useEffect } from 'react';
+import { Magnet } from 'lucide-react';
+import type { SnapGridMode, SnapSettings } from '../types/snap';
+import { SlicePanelNumberInput, SlicePanelSelect } from './SlicePanel';
+
+/** Grid options in display order */
+const GRID_MODE_OPTIONS: Array<{ value: SnapGridMode; label: string }> = [
+  { value: 'beats', label: 'Beats' },
+  { value: 'bars', label: 'Bars' },
+  { value: 'milliseconds', label: 'Milliseconds' },
+  { value: 'frames', label: 'Frames' },
+  { value: 'samples', label: 'Samples' },
+];
+
+export interface SnapMenuProps {
+  /** Current snapping settings */
+  snapSettings: SnapSettings;
+  /** Callback when user changes a snapping setting */
+  onChangeSnapSettings: (changes: Partial<SnapSettings>) => void;
+  /** Callback when user snaps all existing markers to zero crossings */
+  onSnapAllMarkers: () => void;
+  /** Whether a tempo is known (required for musical grids) */
+  hasTempo: boolean;
+  /** Whether there are any markers to snap */
+  hasMarkers: boolean;
+  /** Whether the menu should be disabled (e.g., during playback) */
+  disabled?: boolean;
+}
+
+/**
+ * Toolbar dropdown for marker snapping options
+ */
+export function SnapMenu({
+  snapSettings,
+  onChangeSnapSettings,
+  onSnapAllMarkers,
+  hasTempo,
+  hasMarkers,
+  disabled = false,
+}: SnapMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (dropdownRef.current && !dropdownRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const isActive = snapSettings.zeroCrossing || snapSettings.gridEnabled;
+  const isMusicalGrid = snapSettings.gridMode === 'beats' || snapSettings.gridMode === 'bars';
+
+  return (
+    <div ref={dropdownRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className={`px-3 py-1.5 text-xs bg-neutral-800 border border-neutral-700 transition-colors tracking-wide flex items-center gap-1.5 ${
+          disabled
+            ? 'text-neutral-600 cursor-not-allowed'
+            : isActive
+              ? 'text-cyan-400 hover:bg-neutral-700'
+              : 'text-neutral-400 hover:text-neutral-200 hover:bg-neutral-700'
+        }`}
+        title="Marker snapping"
+      >
+        <Magnet className="w-4 h-4" />
+        <span>Snap</span>
+      </button>
+      {/* Dropdown panel */}
+      {isOpen && (
+        <div
+          className="absolute top-full left-0 mt-1 px-3 py-2 rounded shadow-lg z-50 flex flex-col gap-2"
+          style={{
+            backgroundColor: '#1f1f1f',
+            minWidth: 220,
+          }}
+        >
+          <label className="flex items-center gap-2 text-xs text-neutral-200 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={snapSettings.gridEnabled}
+              onChange={(e) => onChangeSnapSettings({ gridEnabled: e.target.checked })}
+              className="accent-cyan-400"
+            />
+            Snap to grid
+          </label>
+          <SlicePanelSelect
+            label="Grid"
+            value={snapSettings.gridMode}
+            options={GRID_MODE_OPTIONS}
+            onChange={(gridMode) => onChangeSnapSettings({ gridMode })}
+          />
+          {snapSettings.gridMode === 'milliseconds' && (
+            <SlicePanelNumberInput
+              label="Interval"
+              value={snapSettings.gridMs}
+              min={1}
+              step={1}
+              unit="ms"
+              onChange={(value) => onChangeSnapSettings({ gridMs: Math.max(1, value) })}
+            />
+          )}
+          {snapSettings.gridMode === 'frames' && (
+            <SlicePanelNumberInput
+              label="Frame rate"
+              value={snapSettings.gridFps}
+              min={1}
+              max={240}
+              step={0.001}
+              unit="fps"
+              onChange={(value) => onChangeSnapSettings({ gridFps: Math.max(1, Math.min(240, value)) })}
+            />
+          )}
+          {isMusicalGrid && (
+            <SlicePanelNumberInput
+              label="Downbeat offset"
+              value={snapSettings.gridOffsetMs}
+              min={0}
+              unit="ms"
+              onChange={(value) => onChangeSnapSettings({ gridOffsetMs: Math.max(0, Math.round(value)) })}
+            />
+          )}
+          {isMusicalGrid && !hasTempo && (
+            <p className="text-xs text-amber-400">Set a tempo to use a musical grid</p>
+          )}
+          <p className="text-xs text-neutral-500">
+            Hold Alt while placing or dragging to toggle the grid. Hover a marker and press ←/→ to nudge it.
+          </p>
+          <label className="flex items-center gap-2 text-xs text-neutral-200 cursor-pointer border-t border-neutral-700 pt-2">
+            <input
+              type="checkbox"
+              checked={snapSettings.zeroCrossing}
+              onChange={(e) => onChangeSnapSettings({ zeroCrossing: e.target.checked })}
+              className="accent-cyan-400"
+            />
+            Snap to zero crossings
+          </label>
+          <SlicePanelNumberInput
+            label="Search window"
+            value={snapSettings.zeroCrossingWindowMs}
+            min={0.1}
+            max={100}
+            step={0.5}
+            unit="ms"
+            onChange={(value) => onChangeSnapSettings({
+              zeroCrossingWindowMs: Math.max(0.1, Math.min(100, value)),
+            })}
+          />
+          <button
+            type="button"
+            onClick={() => {
+              onSnapAllMarkers();
+              setIsOpen(false);
+            }}
+            disabled={!hasMarkers}
+            className={`mt-1 px-2 py-1 text-xs text-left border-t border-neutral-700 ${
+              hasMarkers ? 'text-neutral-200 hover:bg-neutral-700' : 'text-neutral-600 cursor-not-allowed'
+            }`}
+          >
+            Snap all markers to zero crossings
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import { useState, useCallback } from 'react';
+import { Gauge, RotateCcw } from 'lucide-react';
+
+export interface TempoControlProps {
+  /** Effective tempo in BPM, or null if unknown */
+  bpm: number | null;
+  /** Tempo detected from the audio, or null if detection failed */
+  detectedBpm: number | null;
+  /** Whether the tempo is a user override */
+  isOverridden: boolean;
+  /** Callback when user enters a tempo */
+  onChangeBpm: (bpm: number) => void;
+  /** Callback when user resets to the detected tempo */
+  onResetBpm: () => void;
+}
+
+/**
+ * Header control showing the detected tempo with an editable override
+ */
+export function TempoControl({
+  bpm,
+  detectedBpm,
+  isOverridden,
+  onChangeBpm,
+  onResetBpm,
+}: TempoControlProps) {
+  // Text being edited, or null when showing the current tempo
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const handleCommit = useCallback(() => {
+    if (draft === null) return;
+    const parsed = parseFloat(draft);
+    if (Number.isFinite(parsed) && parsed > 0) {
+      onChangeBpm(parsed);
+    }
+    setDraft(null);
+  }, [draft, onChangeBpm]);
+
+  const handleKeyDown = useCallback((e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      handleCommit();
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      setDraft(null);
+    }
+  }, [handleCommit]);
+
+  return (
+    <div
+      className="flex items-center gap-1.5 px-2 py-1 text-xs text-neutral-400 bg-neutral-800 border border-neutral-700"
+      title={detectedBpm !== null ? `Detected tempo: ${detectedBpm} BPM` : 'Tempo could not be detected'}
+    >
+      <Gauge className="w-4 h-4" />
+      <input
+        type="number"
+        min={1}
+        step={0.1}
+        value={draft ?? (bpm !== null ? String(bpm) : '')}
+        placeholder="—"
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={handleCommit}
+        onKeyDown={handleKeyDown}
+        className="w-14 bg-transparent text-neutral-200 outline-none focus:ring-1 focus:ring-cyan-500 rounded px-1"
+        aria-label="Tempo in BPM"
+      />
+      <span>BPM</span>
+      {isOverridden && detectedBpm !== null && (
+        <button
+          type="button"
+          onClick={onResetBpm}
+          className="ml-1 text-neutral-500 hover:text-neutral-200 transition-colors"
+          title={`Reset to detected tempo (${detectedBpm} BPM)`}
+          aria-label="Reset to detected tempo"
+        >
+          <RotateCcw className="w-3 h-3" />
+        </button>
+      )}
+    </div>
+  );
+}
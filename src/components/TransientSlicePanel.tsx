@@ -0,0 +1,71 @@
+import { useEffect, useMemo, useState } from 'react';
+import { audioAnalysisService } from '../services/AudioAnalysisService';
+import { SlicePanel, SlicePanelSlider } from './SlicePanel';
+
+export interface TransientSlicePanelProps {
+  /** Decoded audio to analyze */
+  audioBuffer: AudioBuffer;
+  /** Callback with the detected onset times whenever they change (for canvas preview) */
+  onPreviewChange: (times: number[]) => void;
+  /** Callback when user applies the detected onsets as markers */
+  onApply: (times: number[]) => void;
+  /** Callback when user closes the panel */
+  onCancel: () => void;
+}
+
+/**
+ * Auto-slice panel that detects transients (drum hits, note attacks)
+ * and previews them on the waveform before committing them as markers
+ */
+export function TransientSlicePanel({
+  audioBuffer,
+  onPreviewChange,
+  onApply,
+  onCancel,
+}: TransientSlicePanelProps) {
+  const [sensitivity, setSensitivity] = useState(50);
+  const [minGapMs, setMinGapMs] = useState(80);
+
+  // Envelope is cached per buffer, so only peak picking reruns on slider changes
+  const onsets = useMemo(
+    () => audioAnalysisService.detectOnsets(audioBuffer, {
+      sensitivity: sensitivity / 100,
+      minGapMs,
+    }),
+    [audioBuffer, sensitivity, minGapMs]
+  );
+
+  // Keep the canvas preview in sync with the current detection result
+  useEffect(() => {
+    onPreviewChange(onsets);
+  }, [onsets, onPreviewChange]);
+
+  return (
+    <SlicePanel
+      title="Auto-slice by transients"
+      summary={`${onsets.length} onset${onsets.length === 1 ? '' : 's'} detected`}
+      applyLabel="Add markers"
+      applyDisabled={onsets.length === 0}
+      onApply={() => onApply(onsets)}
+      onCancel={onCancel}
+    >
+      <SlicePanelSlider
+        label="Sensitivity"
+        value={sensitivity}
+        min={0}
+        max={100}
+        displayValue={`${sensitivity}%`}
+        onChange={setSensitivity}
+      />
+      <SlicePanelSlider
+        label="Minimum gap"
+        value={minGapMs}
+        min={10}
+        max={1000}
+        step={10}
+        displayValue={`${minGapMs} ms`}
+        onChange={setMinGapMs}
+      />
+    </SlicePanel>
+  );
+}
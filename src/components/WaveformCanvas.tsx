@@ -3,7 +3,10 @@ import type { WaveformPeaks } from '../types/waveform';
 import type { VisibleRange } from '../types/zoom';
 import type { Marker } from '../types/marker';
 import type { Section } from '../types/section';
+import type { GridDefinition, SnapOptions } from '../types/snap';
 import type { PlaybackState } from '../hooks/usePlayback';
+import { isInputElement } from '../hooks/useKeyboardControls';
+import { getAdjacentGridTime, getGridLines } from '../utils/grid';
 import { ContextMenu } from './ContextMenu';
 
 /** Hit detection threshold in pixels for selecting markers
@@ -11,6 +14,13 @@ import { ContextMenu } from './ContextMenu';
  */
 const MARKER_HIT_THRESHOLD = 16;
 
+/** Grid lines closer together than this (in pixels) are not drawn */
+const MIN_GRID_LINE_SPACING = 4;
+
+/** Nudge step in seconds when no grid is active (Shift for the large step) */
+const NUDGE_STEP = 0.001;
+const NUDGE_STEP_LARGE = 0.01;
+
 export interface WaveformCanvasProps {
   /** Waveform peak data to render */
   peaks: WaveformPeaks;
@@ -30,6 +40,12 @@ export interface WaveformCanvasProps {
   panOffset?: number;
   /** Callback when user clicks to add a marker at a time position */
   onAddMarker?: (time: number) => void;
+  /** Adjusts a time position before a marker is added or moved there (grid and zero crossing snap) */
+  snapTime?: (time: number, options?: SnapOptions) => number;
+  /** Snap grid (drawn when enabled, used to step markers when nudging) */
+  grid?: GridDefinition | null;
+  /** Whether grid snapping is enabled (holding Alt inverts it) */
+  gridEnabled?: boolean;
   /** Array of markers to render on the waveform */
   markers?: Marker[];
   /** Color for marker lines */
@@ -58,6 +74,10 @@ export interface WaveformCanvasProps {
   playbackSegmentEnd?: number;
   /** Array of valid sections (for grayscale rendering of inactive areas) */
   sections?: Section[];
+  /** Times (in seconds) of proposed markers from an auto-slice tool, drawn as dashed lines */
+  previewMarkers?: number[];
+  /** Color for proposed (not yet committed) markers */
+  previewMarkerColor?: string;
 }
 
 /**
@@ -74,6 +94,9 @@ export function WaveformCanvas({
   onPan,
   panOffset = 0,
   onAddMarker,
+  snapTime,
+  grid = null,
+  gridEnabled = false,
   markers = [],
   markerColor = '#f97316', // orange-500
   // selectedMarkerId not used - active state only during drag
@@ -88,6 +111,8 @@ export function WaveformCanvas({
   playbackSegmentStart = 0,
   playbackSegmentEnd = 0,
   sections = [],
+  previewMarkers = [],
+  previewMarkerColor = '#a3e635', // lime-400
 }: WaveformCanvasProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -106,6 +131,9 @@ export function WaveformCanvas({
   // Track initial marker time at drag start for atomic undo
   const dragStartMarkerTimeRef = useRef<number | null>(null);
 
+  // Marker under the mouse cursor (target for arrow key nudging)
+  const hoveredMarkerIdRef = useRef<string | null>(null);
+
   // Context menu state
   const [contextMenu, setContextMenu] = useState<{
     x: number;
@@ -258,6 +286,19 @@ export function WaveformCanvas({
     ctx.lineTo(width, centerY);
     ctx.stroke();
 
+    // Draw snap grid lines (skipped when too dense to be useful at this zoom level)
+    if (gridEnabled && grid && (grid.interval / rangeDuration) * width >= MIN_GRID_LINE_SPACING) {
+      ctx.lineWidth = 1;
+      for (const line of getGridLines(grid, rangeStart, rangeEnd)) {
+        const x = Math.round(((line.time - rangeStart) / rangeDuration) * width) + 0.5;
+        ctx.strokeStyle = line.accent ? 'rgba(255, 255, 255, 0.25)' : 'rgba(255, 255, 255, 0.1)';
+        ctx.beginPath();
+        ctx.moveTo(x, 0);
+        ctx.lineTo(x, canvasHeight);
+        ctx.stroke();
+      }
+    }
+
     // Draw playback progress fill (only within section boundaries)
     if ((playbackState === 'playing' || playbackState === 'paused') && playbackSegmentEnd > playbackSegmentStart) {
       // Only draw fill within active sections
@@ -290,6 +331,22 @@ export function WaveformCanvas({
       // This prevents fill from appearing in inactive (grayscale) areas
     }
 
+    // Draw proposed markers from auto-slice tools (dashed, below real markers)
+    if (previewMarkers.length > 0) {
+      ctx.strokeStyle = previewMarkerColor;
+      ctx.lineWidth = 1;
+      ctx.setLineDash([4, 4]);
+      ctx.beginPath();
+      for (const time of previewMarkers) {
+        if (time < rangeStart || time > rangeEnd) continue;
+        const x = Math.round(((time - rangeStart) / rangeDuration) * width) + 0.5;
+        ctx.moveTo(x, 0);
+        ctx.lineTo(x, canvasHeight);
+      }
+      ctx.stroke();
+      ctx.setLineDash([]);
+    }
+
     // Draw markers
 
     for (const marker of markers) {
@@ -326,7 +383,7 @@ export function WaveformCanvas({
       ctx.lineTo(x, canvasHeight);
       ctx.stroke();
     }
-  }, [peaks, visibleRange, height, waveformColor, backgroundColor, markers, markerColor, draggingMarkerId, selectedMarkerColor, hoverTime, playbackState, playbackCurrentTime, playbackSegmentStart, playbackSegmentEnd, sections]);
+  }, [peaks, visibleRange, height, waveformColor, backgroundColor, markers, markerColor, draggingMarkerId, selectedMarkerColor, hoverTime, playbackState, playbackCurrentTime, playbackSegmentStart, playbackSegmentEnd, sections, previewMarkers, previewMarkerColor, grid, gridEnabled]);
 
   // Draw on mount and when dependencies change
   useEffect(() => {
@@ -402,6 +459,20 @@ export function WaveformCanvas({
     [visibleRange, peaks.duration]
   );
 
+  /**
+   * Convert a pixel X position to a marker time: clamped to the audio and snapped if enabled
+   * @param toggleGrid - Whether the grid modifier key (Alt) is held
+   */
+  const pixelToMarkerTime = useCallback(
+    (pixelX: number, toggleGrid: boolean): number => {
+      const time = pixelToTime(pixelX);
+      // Clamp to valid range (0 to duration)
+      const clampedTime = Math.max(0, Math.min(time, peaks.duration));
+      return snapTime ? snapTime(clampedTime, { toggleGrid }) : clampedTime;
+    },
+    [pixelToTime, peaks.duration, snapTime]
+  );
+
   /**
    * Find the nearest marker to a pixel X position within the hit threshold
    * Returns the marker ID or null if none found
@@ -436,6 +507,7 @@ export function WaveformCanvas({
 
       // Hide preview if hovering near an existing marker (within hit threshold)
       const nearbyMarkerId = findMarkerAtPixel(event.clientX);
+      hoveredMarkerIdRef.current = nearbyMarkerId;
       if (nearbyMarkerId) {
         setHoverTime(null);
         // Show ew-resize cursor to indicate marker can be dragged
@@ -450,12 +522,10 @@ export function WaveformCanvas({
         containerRef.current.style.cursor = onPan ? 'grab' : 'default';
       }
 
-      const time = pixelToTime(event.clientX);
-      // Clamp to valid range
-      const clampedTime = Math.max(0, Math.min(time, peaks.duration));
-      setHoverTime(clampedTime);
+      // Preview where the marker would actually land (including snapping)
+      setHoverTime(pixelToMarkerTime(event.clientX, event.altKey));
     },
-    [pixelToTime, peaks.duration, findMarkerAtPixel, onPan]
+    [pixelToMarkerTime, findMarkerAtPixel, onPan]
   );
 
   /**
@@ -463,6 +533,7 @@ export function WaveformCanvas({
    */
   const handleContainerMouseLeave = useCallback(() => {
     setHoverTime(null);
+    hoveredMarkerIdRef.current = null;
     // Restore default cursor when leaving container
     if (containerRef.current) {
       containerRef.current.style.cursor = onPan ? 'grab' : 'default';
@@ -526,10 +597,8 @@ export function WaveformCanvas({
         }
 
         if (hasDraggedRef.current) {
-          // Calculate new marker time from current mouse position
-          const newTime = pixelToTime(event.clientX);
-          // Clamp to valid range (0 to duration)
-          const clampedTime = Math.max(0, Math.min(newTime, peaks.duration));
+          // Calculate new marker time from current mouse position (clamped and snapped)
+          const clampedTime = pixelToMarkerTime(event.clientX, event.altKey);
           // Use silent update during drag to avoid creating history entries for intermediate positions
           if (onUpdateMarkerSilent) {
             onUpdateMarkerSilent(draggingMarkerIdRef.current, clampedTime);
@@ -558,7 +627,7 @@ export function WaveformCanvas({
         onPan(newPan);
       }
     },
-    [onPan, pixelDistanceToTime, onUpdateMarker, onUpdateMarkerSilent, pixelToTime, peaks.duration]
+    [onPan, pixelDistanceToTime, onUpdateMarker, onUpdateMarkerSilent, pixelToMarkerTime]
   );
 
   /**
@@ -574,10 +643,8 @@ export function WaveformCanvas({
 
         // If we actually dragged (not just clicked), commit the final position with history
         if (didDrag && markerId && initialTime !== null) {
-          // Calculate final marker time from current mouse position
-          const newTime = pixelToTime(event.clientX);
-          // Clamp to valid range (0 to duration)
-          const clampedTime = Math.max(0, Math.min(newTime, peaks.duration));
+          // Calculate final marker time from current mouse position (clamped and snapped)
+          const clampedTime = pixelToMarkerTime(event.clientX, event.altKey);
 
           // Use atomic update for proper undo support (single history entry for entire drag)
           if (onUpdateMarkerAtomic) {
@@ -611,11 +678,8 @@ export function WaveformCanvas({
           const clickedMarkerId = findMarkerAtPixel(event.clientX);
 
           if (!clickedMarkerId && onAddMarker) {
-            // No marker nearby - add a new marker
-            const time = pixelToTime(event.clientX);
-            // Clamp time to valid range (0 to duration)
-            const clampedTime = Math.max(0, Math.min(time, peaks.duration));
-            onAddMarker(clampedTime);
+            // No marker nearby - add a new marker (clamped and snapped)
+            onAddMarker(pixelToMarkerTime(event.clientX, event.altKey));
           }
           // Clicking on a marker does nothing (no selection)
         }
@@ -629,7 +693,7 @@ export function WaveformCanvas({
         }
       }
     },
-    [onAddMarker, onPan, pixelToTime, peaks.duration, findMarkerAtPixel, onUpdateMarker, onUpdateMarkerAtomic]
+    [onAddMarker, onPan, pixelToMarkerTime, findMarkerAtPixel, onUpdateMarker, onUpdateMarkerAtomic]
   );
 
   // Set up global mouse move/up listeners for dragging and click detection
@@ -688,6 +752,35 @@ export function WaveformCanvas({
     };
   }, [onZoomAtPoint, onPan, pixelToTime, pixelDistanceToTime, panOffset]);
 
+  /**
+   * Arrow key nudging for the marker under the cursor
+   * Steps to the adjacent grid line when the grid is active (Alt inverts),
+   * otherwise moves by a fixed step (larger with Shift)
+   */
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key !== 'ArrowLeft' && event.key !== 'ArrowRight') return;
+      if (isInputElement(event.target)) return;
+
+      const markerId = hoveredMarkerIdRef.current;
+      const marker = markers.find(m => m.id === markerId);
+      if (!marker || !onUpdateMarker) return;
+
+      event.preventDefault();
+
+      const direction = event.key === 'ArrowRight' ? 1 : -1;
+      const useGrid = gridEnabled !== event.altKey;
+      const newTime = useGrid && grid
+        ? getAdjacentGridTime(marker.time, grid, direction)
+        : marker.time + direction * (event.shiftKey ? NUDGE_STEP_LARGE : NUDGE_STEP);
+
+      onUpdateMarker(marker.id, Math.max(0, Math.min(newTime, peaks.duration)));
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [markers, onUpdateMarker, grid, gridEnabled, peaks.duration]);
+
   // Note: Keyboard deletion (Delete/Backspace) removed since there's no persistent selection.
   // Users can delete markers via the context menu (right-click) or the × button in MarkerControlStrip.
 
@@ -0,0 +1,64 @@
+import { useCallback, useEffect, useState } from 'react';
+import { autosaveService } from '../services/AutosaveService';
+import type { AutosaveSession, RestorableSession } from '../types/session';
+
+/** Delay (ms) after the last change before the session is written */
+const AUTOSAVE_DELAY_MS = 300;
+
+/**
+ * Hook for autosaving the editing session to IndexedDB
+ *
+ * Loads the previous session once on mount (so it can be offered for restore)
+ * and writes the given session shortly after every change.
+ *
+ * @param session - Current session state, or null while nothing should be saved (no audio loaded)
+ */
+export function useAutosave(session: Omit<AutosaveSession, 'version' | 'savedAt'> | null): {
+  restorableSession: RestorableSession | null;
+  discardRestorableSession: () => void;
+} {
+  const [restorableSession, setRestorableSession] = useState<RestorableSession | null>(null);
+
+  // Look for a previous session on startup
+  useEffect(() => {
+    if (!autosaveService.isSupported()) return;
+
+    let cancelled = false;
+    autosaveService.loadSession()
+      .then((saved) => {
+        if (!cancelled) {
+          setRestorableSession(saved);
+        }
+      })
+      .catch(() => {
+        // Storage unavailable - start without a restore offer
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Save the session after changes settle
+  useEffect(() => {
+    if (!session || !autosaveService.isSupported()) return;
+
+    const timeoutId = setTimeout(() => {
+      autosaveService.saveSession(session).catch(() => {
+        // Autosave is best-effort; quota or private mode errors are ignored
+      });
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timeoutId);
+  }, [session]);
+
+  const discardRestorableSession = useCallback((): void => {
+    setRestorableSession(null);
+    autosaveService.clear().catch(() => {
+      // Nothing to clean up if storage is unavailable
+    });
+  }, []);
+
+  return {
+    restorableSession,
+    discardRestorableSession,
+  };
+}
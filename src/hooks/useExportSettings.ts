@@ -0,0 +1,44 @@
+import { useCallback, useState } from 'react';
+import type { ExportSettings } from '../types/exportSettings';
+import { DEFAULT_FILENAME_TEMPLATE } from '../services/filenameTemplate';
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  format: 'wav',
+  sectionSelection: 'all',
+  selectedMarkerIds: [],
+  filenameTemplate: DEFAULT_FILENAME_TEMPLATE,
+  manifestCsv: false,
+  wavSampleFormat: 'pcm16',
+  dither: false,
+  sampleRate: null,
+  mp3Bitrate: 192,
+  mp3Mono: false,
+  aifc: false,
+  flacCompressionLevel: 5,
+  samplerChunk: false,
+  unityNote: 60,
+  fineTuneCents: 0,
+  instrumentRootNote: 36,
+  instrumentPlayback: 'oneShot',
+  sliceVolumes: {},
+  op1Device: 'op1',
+};
+
+/**
+ * Hook for managing export settings
+ */
+export function useExportSettings(): {
+  exportSettings: ExportSettings;
+  updateExportSettings: (changes: Partial<ExportSettings>) => void;
+} {
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(DEFAULT_EXPORT_SETTINGS);
+
+  const updateExportSettings = useCallback((changes: Partial<ExportSettings>): void => {
+    setExportSettings((prev) => ({ ...prev, ...changes }));
+  }, []);
+
+  return {
+    exportSettings,
+    updateExportSettings,
+  };
+}
@@ -22,7 +22,7 @@ export interface UseKeyboardControlsOptions {
 /**
  * Check if an element is an input or textarea (where keyboard shortcuts should be ignored)
  */
-function isInputElement(target: EventTarget | null): boolean {
+export function isInputElement(target: EventTarget | null): boolean {
   if (!target || !(target instanceof HTMLElement)) return false;
   const tagName = target.tagName.toLowerCase();
   return tagName === 'input' || tagName === 'textarea' || target.isContentEditable;
@@ -1,6 +1,7 @@
 import { useCallback, useState } from 'react';
-import type { Marker, MarkersActions, MarkersState } from '../types/marker';
+import type { Marker, MarkerDraft, MarkersActions, MarkersState, SectionLoop } from '../types/marker';
 import { useUndoRedo } from './useUndoRedo';
+import type { UndoRedoState } from '../types/undoRedo';
 
 /**
  * Generate a unique ID for a marker
@@ -9,6 +10,11 @@ function generateMarkerId(): string {
   return `marker-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 }
 
+/**
+ * Markers closer than this (in seconds) are considered to be at the same position
+ */
+const DUPLICATE_MARKER_EPSILON = 0.001;
+
 /**
  * Sort markers by time position (ascending)
  */
@@ -33,6 +39,8 @@ export function useMarkers(): MarkersState & MarkersActions {
     undo,
     redo,
     clearHistory,
+    history: markerHistory,
+    restoreHistory,
   } = useUndoRedo<Marker[]>([]);
 
   const [selectedMarkerId, setSelectedMarkerId] = useState<string | null>(null);
@@ -57,6 +65,48 @@ export function useMarkers(): MarkersState & MarkersActions {
     return newMarker!;
   }, [setMarkers]);
 
+  const addMarkers = useCallback((drafts: MarkerDraft[]): Marker[] => {
+    // Skip drafts that would duplicate an existing (or earlier draft) position
+    const occupied = markers.map((marker) => marker.time);
+    const uniqueDrafts = drafts.filter((draft) => {
+      if (occupied.some((time) => Math.abs(time - draft.time) < DUPLICATE_MARKER_EPSILON)) {
+        return false;
+      }
+      occupied.push(draft.time);
+      return true;
+    });
+
+    if (uniqueDrafts.length === 0) {
+      return [];
+    }
+
+    const newMarkers = uniqueDrafts.map((draft, index) => ({
+      id: generateMarkerId(),
+      time: draft.time,
+      name: draft.name ?? `Section ${markers.length + index + 1}`,
+      enabled: draft.enabled ?? true,
+    }));
+
+    // Single state update = single undo history entry
+    setMarkers(sortMarkersByTime([...markers, ...newMarkers]));
+
+    return newMarkers;
+  }, [setMarkers, markers]);
+
+  const replaceMarkers = useCallback((drafts: MarkerDraft[]): Marker[] => {
+    const newMarkers = drafts.map((draft, index) => ({
+      id: generateMarkerId(),
+      time: draft.time,
+      name: draft.name ?? `Section ${index + 1}`,
+      enabled: draft.enabled ?? true,
+    }));
+
+    setMarkers(sortMarkersByTime(newMarkers));
+    setSelectedMarkerId(null);
+
+    return newMarkers;
+  }, [setMarkers]);
+
   const updateMarker = useCallback((id: string, time: number): void => {
     setMarkers((prev) => {
       const updated = prev.map((marker) =>
@@ -91,6 +141,15 @@ export function useMarkers(): MarkersState & MarkersActions {
     setMarkersWithExplicitHistory(fromState, toState);
   }, [setMarkersWithExplicitHistory, markers]);
 
+  const updateMarkerTimes = useCallback((times: Record<string, number>): void => {
+    setMarkers((prev) => {
+      const updated = prev.map((marker) =>
+        marker.id in times ? { ...marker, time: times[marker.id] } : marker
+      );
+      return sortMarkersByTime(updated);
+    });
+  }, [setMarkers]);
+
   const updateMarkerName = useCallback((id: string, name: string): void => {
     setMarkers((prev) =>
       prev.map((marker) =>
@@ -107,6 +166,14 @@ export function useMarkers(): MarkersState & MarkersActions {
     );
   }, [setMarkers]);
 
+  const updateMarkerLoop = useCallback((id: string, loop: SectionLoop | undefined): void => {
+    setMarkers((prev) =>
+      prev.map((marker) =>
+        marker.id === id ? { ...marker, loop } : marker
+      )
+    );
+  }, [setMarkers]);
+
   const deleteMarker = useCallback((id: string): void => {
     setMarkers((prev) => prev.filter((marker) => marker.id !== id));
     setSelectedMarkerId((prev) => (prev === id ? null : prev));
@@ -127,17 +194,33 @@ export function useMarkers(): MarkersState & MarkersActions {
     clearHistory();
   }, [setMarkers, clearHistory]);
 
+  const restoreMarkers = useCallback((restored: Marker[]): void => {
+    setMarkers(sortMarkersByTime(restored));
+    setSelectedMarkerId(null);
+    clearHistory();
+  }, [setMarkers, clearHistory]);
+
+  const restoreMarkerHistory = useCallback((snapshot: UndoRedoState<Marker[]>): void => {
+    restoreHistory(snapshot);
+    setSelectedMarkerId(null);
+  }, [restoreHistory]);
+
   return {
     markers,
+    markerHistory,
     selectedMarkerId,
     canUndo,
     canRedo,
     addMarker,
+    addMarkers,
+    replaceMarkers,
     updateMarker,
     updateMarkerSilent,
     updateMarkerAtomic,
+    updateMarkerTimes,
     updateMarkerName,
     updateMarkerEnabled,
+    updateMarkerLoop,
     deleteMarker,
     getMarkers,
     setSelectedMarkerId,
@@ -145,5 +228,7 @@ export function useMarkers(): MarkersState & MarkersActions {
     undo,
     redo,
     reset,
+    restoreMarkers,
+    restoreMarkerHistory,
   };
 }
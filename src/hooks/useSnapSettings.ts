@@ -0,0 +1,31 @@
+import { useCallback, useState } from 'react';
+import type { SnapSettings } from '../types/snap';
+
+const DEFAULT_SNAP_SETTINGS: SnapSettings = {
+  zeroCrossing: false,
+  zeroCrossingWindowMs: 5,
+  gridEnabled: false,
+  gridMode: 'beats',
+  gridMs: 100,
+  gridFps: 30,
+  gridOffsetMs: 0,
+};
+
+/**
+ * Hook for managing marker snapping settings
+ */
+export function useSnapSettings(): {
+  snapSettings: SnapSettings;
+  updateSnapSettings: (changes: Partial<SnapSettings>) => void;
+} {
+  const [snapSettings, setSnapSettings] = useState<SnapSettings>(DEFAULT_SNAP_SETTINGS);
+
+  const updateSnapSettings = useCallback((changes: Partial<SnapSettings>): void => {
+    setSnapSettings((prev) => ({ ...prev, ...changes }));
+  }, []);
+
+  return {
+    snapSettings,
+    updateSnapSettings,
+  };
+}
@@ -0,0 +1,111 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { TempoActions, TempoState } from '../types/tempo';
+
+/** Lowest tempo accepted as an override */
+export const MIN_BPM = 20;
+
+/** Highest tempo accepted as an override */
+export const MAX_BPM = 999;
+
+const DEFAULT_BEATS_PER_BAR = 4;
+
+/** Longest wait in milliseconds before an idle detection runs anyway */
+const IDLE_DETECTION_TIMEOUT_MS = 2000;
+
+/**
+ * Runs a callback once the browser is idle (after a short timeout where requestIdleCallback is missing).
+ * @returns Function cancelling the callback
+ */
+function scheduleIdle(callback: () => void): () => void {
+  if (typeof window.requestIdleCallback === 'function') {
+    const handle = window.requestIdleCallback(callback, { timeout: IDLE_DETECTION_TIMEOUT_MS });
+    return () => window.cancelIdleCallback(handle);
+  }
+  const handle = window.setTimeout(callback, 100);
+  return () => window.clearTimeout(handle);
+}
+
+/**
+ * Hook for managing the tempo of the loaded audio
+ *
+ * Keeps the detected tempo alongside an optional user override,
+ * so the override can be dropped to return to the detected value.
+ */
+export function useTempo(): TempoState & TempoActions {
+  const [detectedBpm, setDetectedBpmState] = useState<number | null>(null);
+  const [bpmOverride, setBpmOverride] = useState<number | null>(null);
+  const [beatsPerBar, setBeatsPerBarState] = useState(DEFAULT_BEATS_PER_BAR);
+
+  // Detection scheduled for idle time (run now, or cancel when a tempo is set or restored)
+  const pendingDetectionRef = useRef<{ run: () => void; cancel: () => void } | null>(null);
+
+  const cancelBpmDetection = useCallback((): void => {
+    pendingDetectionRef.current?.cancel();
+    pendingDetectionRef.current = null;
+  }, []);
+
+  // Drop a pending detection on unmount
+  useEffect(() => cancelBpmDetection, [cancelBpmDetection]);
+
+  const setDetectedBpm = useCallback((bpm: number | null): void => {
+    cancelBpmDetection();
+    setDetectedBpmState(bpm);
+    setBpmOverride(null);
+  }, [cancelBpmDetection]);
+
+  const detectBpmWhenIdle = useCallback((estimate: () => number | null): void => {
+    setDetectedBpm(null);
+
+    // Only the detected value is filled in, so an override entered meanwhile is kept
+    const run = () => {
+      pendingDetectionRef.current = null;
+      setDetectedBpmState(estimate());
+    };
+    const cancel = scheduleIdle(run);
+    pendingDetectionRef.current = { run, cancel };
+  }, [setDetectedBpm]);
+
+  const flushBpmDetection = useCallback((): void => {
+    const pending = pendingDetectionRef.current;
+    if (!pending) return;
+    pending.cancel();
+    pending.run();
+  }, []);
+
+  const setBpm = useCallback((bpm: number): void => {
+    if (!Number.isFinite(bpm)) return;
+    setBpmOverride(Math.max(MIN_BPM, Math.min(MAX_BPM, bpm)));
+  }, []);
+
+  const resetBpm = useCallback((): void => {
+    setBpmOverride(null);
+  }, []);
+
+  const setBeatsPerBar = useCallback((value: number): void => {
+    if (!Number.isFinite(value)) return;
+    setBeatsPerBarState(Math.max(1, Math.min(16, Math.round(value))));
+  }, []);
+
+  const restoreTempo = useCallback((saved: Pick<TempoState, 'detectedBpm' | 'bpmOverride' | 'beatsPerBar'>): void => {
+    cancelBpmDetection();
+    setDetectedBpmState(saved.detectedBpm);
+    setBpmOverride(saved.bpmOverride);
+    setBeatsPerBarState(Number.isFinite(saved.beatsPerBar)
+      ? Math.max(1, Math.min(16, Math.round(saved.beatsPerBar)))
+      : DEFAULT_BEATS_PER_BAR);
+  }, [cancelBpmDetection]);
+
+  return {
+    detectedBpm,
+    bpmOverride,
+    bpm: bpmOverride ?? detectedBpm,
+    beatsPerBar,
+    setDetectedBpm,
+    detectBpmWhenIdle,
+    flushBpmDetection,
+    setBpm,
+    resetBpm,
+    setBeatsPerBar,
+    restoreTempo,
+  };
+}
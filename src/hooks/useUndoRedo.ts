@@ -1,16 +1,5 @@
 import { useCallback, useState } from 'react';
-
-/**
- * State shape for the undo/redo system
- */
-interface UndoRedoState<T> {
-  /** Current state value */
-  present: T;
-  /** Stack of previous states (most recent at end) */
-  past: T[];
-  /** Stack of undone states (most recent at end) */
-  future: T[];
-}
+import type { UndoRedoState } from '../types/undoRedo';
 
 /**
  * Return type for the useUndoRedo hook
@@ -39,6 +28,10 @@ export interface UndoRedoResult<T> {
   redo: () => void;
   /** Clear all history (past and future) */
   clearHistory: () => void;
+  /** Full history snapshot (present, past and future), e.g. for persisting a session */
+  history: UndoRedoState<T>;
+  /** Replace the full history with a previously saved snapshot */
+  restoreHistory: (snapshot: UndoRedoState<T>) => void;
 }
 
 /**
@@ -187,6 +180,17 @@ export function useUndoRedo<T>(
     [maxHistory]
   );
 
+  const restoreHistory = useCallback(
+    (snapshot: UndoRedoState<T>) => {
+      setHistory({
+        present: snapshot.present,
+        past: snapshot.past.slice(-maxHistory),
+        future: snapshot.future.slice(0, maxHistory),
+      });
+    },
+    [maxHistory]
+  );
+
   return {
     state: history.present,
     setState,
@@ -197,5 +201,7 @@ export function useUndoRedo<T>(
     undo,
     redo,
     clearHistory,
+    history,
+    restoreHistory,
   };
 }
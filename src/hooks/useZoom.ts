@@ -149,6 +149,23 @@ export function useZoom(options: ZoomOptions): ZoomState & ZoomActions & { visib
     [clampZoom, clampPan]
   );
 
+  /**
+   * Set zoom level and pan offset together (e.g., when restoring a saved view)
+   * @param level Zoom level to apply
+   * @param offset Pan offset in seconds
+   * @param totalDuration Duration to clamp against (defaults to the current duration,
+   *   pass it explicitly when the audio was loaded in the same update)
+   */
+  const setView = useCallback(
+    (level: number, offset: number, totalDuration: number = duration): void => {
+      const newZoom = clampZoom(level);
+      const maxPan = Math.max(0, totalDuration - totalDuration / newZoom);
+      setZoomLevelState(newZoom);
+      setPanOffsetState(Math.max(0, Math.min(maxPan, offset)));
+    },
+    [clampZoom, duration]
+  );
+
   /**
    * Reset zoom and pan to initial state
    */
@@ -168,6 +185,7 @@ export function useZoom(options: ZoomOptions): ZoomState & ZoomActions & { visib
     zoomAtPoint,
     setPan,
     setZoomLevel,
+    setView,
     reset,
   };
 }
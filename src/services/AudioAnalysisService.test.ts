@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { AudioAnalysisService } from './AudioAnalysisService';
+
+const SAMPLE_RATE = 44100;
+
+/**
+ * Build a minimal mono AudioBuffer stand-in around sample data
+ */
+function createAudioBuffer(samples: Float32Array): AudioBuffer {
+  return {
+    sampleRate: SAMPLE_RATE,
+    length: samples.length,
+    duration: samples.length / SAMPLE_RATE,
+    numberOfChannels: 1,
+    getChannelData: () => samples,
+  } as unknown as AudioBuffer;
+}
+
+/**
+ * Render a drum loop with a kick on beats 1 and 3 and a snare on beats 2 and 4
+ */
+function createKickSnareLoop(bpm: number, seconds: number): AudioBuffer {
+  const samples = new Float32Array(SAMPLE_RATE * seconds);
+  const beatSeconds = 60 / bpm;
+  // Fixed-seed noise so the snare is identical on every run
+  let seed = 1;
+  const noise = () => {
+    seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+    return (seed / 0x7fffffff) * 2 - 1;
+  };
+
+  for (let beat = 0; beat * beatSeconds < seconds; beat++) {
+    const offset = Math.round(beat * beatSeconds * SAMPLE_RATE);
+    const isKick = beat % 2 === 0;
+    const hitLength = Math.min(Math.round(SAMPLE_RATE * (isKick ? 0.3 : 0.2)), samples.length - offset);
+    for (let i = 0; i < hitLength; i++) {
+      const t = i / SAMPLE_RATE;
+      samples[offset + i] += isKick
+        ? 0.9 * Math.sin(2 * Math.PI * (50 + 100 * Math.exp(-t * 30)) * t) * Math.exp(-t * 12)
+        : 0.7 * (0.6 * noise() + 0.3 * Math.sin(2 * Math.PI * 200 * t)) * Math.exp(-t * 20);
+    }
+  }
+
+  return createAudioBuffer(samples);
+}
+
+describe('AudioAnalysisService.estimateTempo', () => {
+  it('detects a 120 BPM kick/snare loop at 120 rather than half tempo', () => {
+    const bpm = new AudioAnalysisService().estimateTempo(createKickSnareLoop(120, 12));
+    expect(bpm).not.toBeNull();
+    expect(bpm!).toBeCloseTo(120, 0);
+  });
+});
@@ -0,0 +1,541 @@
+import type {
+  AudioRegion,
+  OnsetDetectionOptions,
+  OnsetEnvelope,
+  SilenceDetectionOptions,
+  TempoEstimationOptions,
+} from '../types/analysis';
+
+/** Analysis frame size in samples (must be a power of two for the FFT) */
+const FRAME_SIZE = 1024;
+
+/** Number of samples between consecutive analysis frames */
+const HOP_SIZE = 512;
+
+/** Frames on each side a peak must dominate to count as a local maximum */
+const PEAK_WINDOW = 3;
+
+/** Frames before a peak used to compute the adaptive threshold */
+const THRESHOLD_WINDOW = 16;
+
+/** Block size in samples of the amplitude envelope used to locate an attack within a frame */
+const ATTACK_BLOCK_SIZE = 32;
+
+/** Blocks before an attack whose level counts as the signal it rises out of */
+const ATTACK_FLOOR_BLOCKS = 8;
+
+/** Time kept before a refined onset so the very start of the attack is not cut off */
+const ONSET_PRE_ROLL_SECONDS = 0.001;
+
+/** Default slowest tempo considered by tempo estimation */
+const DEFAULT_MIN_BPM = 60;
+
+/** Default fastest tempo considered by tempo estimation */
+const DEFAULT_MAX_BPM = 200;
+
+/** Tempo that estimation is biased toward when several multiples fit equally well */
+const PREFERRED_BPM = 120;
+
+/** Width (standard deviation in octaves) of the bias toward the preferred tempo */
+const PREFERRED_BPM_WIDTH = 0.5;
+
+/** Window length in seconds used for silence detection levels */
+const LEVEL_WINDOW_SECONDS = 0.005;
+
+/**
+ * In-place iterative radix-2 FFT
+ * @param re - Real parts (length must be a power of two)
+ * @param im - Imaginary parts (same length as re)
+ */
+function fft(re: Float32Array, im: Float32Array): void {
+  const n = re.length;
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  // Butterfly passes
+  for (let size = 2; size <= n; size <<= 1) {
+    const halfSize = size >> 1;
+    const angle = (-2 * Math.PI) / size;
+    const stepRe = Math.cos(angle);
+    const stepIm = Math.sin(angle);
+
+    for (let start = 0; start < n; start += size) {
+      let wRe = 1;
+      let wIm = 0;
+      for (let k = 0; k < halfSize; k++) {
+        const evenIndex = start + k;
+        const oddIndex = evenIndex + halfSize;
+        const tRe = wRe * re[oddIndex] - wIm * im[oddIndex];
+        const tIm = wRe * im[oddIndex] + wIm * re[oddIndex];
+        re[oddIndex] = re[evenIndex] - tRe;
+        im[oddIndex] = im[evenIndex] - tIm;
+        re[evenIndex] += tRe;
+        im[evenIndex] += tIm;
+
+        const nextWRe = wRe * stepRe - wIm * stepIm;
+        wIm = wRe * stepIm + wIm * stepRe;
+        wRe = nextWRe;
+      }
+    }
+  }
+}
+
+/**
+ * Service for analyzing decoded audio (transients, rhythm, levels)
+ */
+export class AudioAnalysisService {
+  /** Onset envelopes are expensive to compute, so cache one per buffer */
+  private envelopeCache = new WeakMap<AudioBuffer, OnsetEnvelope>();
+
+  /** Per-window peak levels, cached per buffer so silence detection can rerun cheaply */
+  private levelCache = new WeakMap<AudioBuffer, Float32Array>();
+
+  /** Mono mixdowns, cached per buffer for onset analysis */
+  private monoCache = new WeakMap<AudioBuffer, Float32Array>();
+
+  /**
+   * Compute the spectral flux onset envelope of an AudioBuffer
+   * Results are cached per buffer, so repeated calls are cheap
+   *
+   * @param audioBuffer - The decoded AudioBuffer to analyze
+   * @returns Normalized onset strength per analysis frame
+   */
+  public getOnsetEnvelope(audioBuffer: AudioBuffer): OnsetEnvelope {
+    const cached = this.envelopeCache.get(audioBuffer);
+    if (cached) {
+      return cached;
+    }
+
+    const samples = this.getMonoData(audioBuffer);
+    const frameCount = samples.length >= FRAME_SIZE
+      ? Math.floor((samples.length - FRAME_SIZE) / HOP_SIZE) + 1
+      : 0;
+    const values = new Float32Array(frameCount);
+
+    // Hann window to reduce spectral leakage
+    const window = new Float32Array(FRAME_SIZE);
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (FRAME_SIZE - 1));
+    }
+
+    const binCount = FRAME_SIZE / 2;
+    const re = new Float32Array(FRAME_SIZE);
+    const im = new Float32Array(FRAME_SIZE);
+    let previousMagnitudes = new Float32Array(binCount);
+    let currentMagnitudes = new Float32Array(binCount);
+    let maxValue = 0;
+
+    for (let frame = 0; frame < frameCount; frame++) {
+      const offset = frame * HOP_SIZE;
+      for (let i = 0; i < FRAME_SIZE; i++) {
+        re[i] = samples[offset + i] * window[i];
+        im[i] = 0;
+      }
+      fft(re, im);
+
+      // Spectral flux: sum of positive magnitude changes (log-compressed)
+      let flux = 0;
+      for (let bin = 0; bin < binCount; bin++) {
+        const magnitude = Math.log1p(100 * Math.sqrt(re[bin] * re[bin] + im[bin] * im[bin]));
+        currentMagnitudes[bin] = magnitude;
+        const diff = magnitude - previousMagnitudes[bin];
+        if (diff > 0) {
+          flux += diff;
+        }
+      }
+
+      // First frame has no predecessor, so its flux is meaningless
+      values[frame] = frame === 0 ? 0 : flux;
+      if (values[frame] > maxValue) {
+        maxValue = values[frame];
+      }
+
+      [previousMagnitudes, currentMagnitudes] = [currentMagnitudes, previousMagnitudes];
+    }
+
+    // Normalize to 0-1 so thresholds are independent of level
+    if (maxValue > 0) {
+      for (let i = 0; i < frameCount; i++) {
+        values[i] /= maxValue;
+      }
+    }
+
+    const envelope: OnsetEnvelope = {
+      values,
+      hopSize: HOP_SIZE,
+      sampleRate: audioBuffer.sampleRate,
+    };
+    this.envelopeCache.set(audioBuffer, envelope);
+    return envelope;
+  }
+
+  /**
+   * Detect transient onsets using peak picking on the spectral flux envelope
+   *
+   * @param audioBuffer - The decoded AudioBuffer to analyze
+   * @param options - Sensitivity and minimum gap between onsets
+   * @returns Onset times in seconds, sorted ascending
+   */
+  public detectOnsets(audioBuffer: AudioBuffer, options: OnsetDetectionOptions): number[] {
+    const { values, hopSize, sampleRate } = this.getOnsetEnvelope(audioBuffer);
+    const samples = this.getMonoData(audioBuffer);
+    const sensitivity = Math.max(0, Math.min(1, options.sensitivity));
+    const minGapSeconds = Math.max(0, options.minGapMs) / 1000;
+
+    // Higher sensitivity = lower threshold above the local average
+    const delta = 0.02 + (1 - sensitivity) * 0.3;
+
+    const onsets: number[] = [];
+    let lastOnsetTime = -Infinity;
+
+    for (let i = 0; i < values.length; i++) {
+      const value = values[i];
+      if (value <= 0) continue;
+
+      // Must be the maximum within the peak window
+      let isLocalMax = true;
+      for (let j = Math.max(0, i - PEAK_WINDOW); j <= Math.min(values.length - 1, i + PEAK_WINDOW); j++) {
+        if (values[j] > value) {
+          isLocalMax = false;
+          break;
+        }
+      }
+      if (!isLocalMax) continue;
+
+      // Must rise above the adaptive (local mean) threshold
+      const windowStart = Math.max(0, i - THRESHOLD_WINDOW);
+      const windowEnd = Math.min(values.length - 1, i + PEAK_WINDOW);
+      let sum = 0;
+      for (let j = windowStart; j <= windowEnd; j++) {
+        sum += values[j];
+      }
+      const localMean = sum / (windowEnd - windowStart + 1);
+      if (value < localMean + delta) continue;
+
+      // The frame only says the attack is somewhere inside it, so find where it starts
+      const attackSample = this.findAttackStart(samples, i * hopSize, i * hopSize + FRAME_SIZE);
+      const time = Math.max(0, attackSample / sampleRate - ONSET_PRE_ROLL_SECONDS);
+      if (time - lastOnsetTime < minGapSeconds) continue;
+
+      onsets.push(time);
+      lastOnsetTime = time;
+    }
+
+    return onsets;
+  }
+
+  /**
+   * Estimate the tempo of an AudioBuffer using autocorrelation of the onset envelope
+   *
+   * @param audioBuffer - The decoded AudioBuffer to analyze
+   * @param options - Tempo range to consider
+   * @returns Estimated tempo in BPM (one decimal), or null if the audio is too short or has no rhythm
+   */
+  public estimateTempo(audioBuffer: AudioBuffer, options: TempoEstimationOptions = {}): number | null {
+    const { minBpm = DEFAULT_MIN_BPM, maxBpm = DEFAULT_MAX_BPM } = options;
+    const { values, hopSize, sampleRate } = this.getOnsetEnvelope(audioBuffer);
+    const framesPerSecond = sampleRate / hopSize;
+
+    // Lag range in frames (keep one extra lag on each side for interpolation)
+    const minLag = Math.max(2, Math.floor((60 * framesPerSecond) / maxBpm));
+    const maxLag = Math.ceil((60 * framesPerSecond) / minBpm);
+
+    // Need at least two beat periods of audio to measure anything
+    if (values.length < maxLag * 2) {
+      return null;
+    }
+
+    // Remove the mean so silence and constant energy do not dominate
+    let mean = 0;
+    for (let i = 0; i < values.length; i++) {
+      mean += values[i];
+    }
+    mean /= values.length;
+    const centered = new Float32Array(values.length);
+    for (let i = 0; i < values.length; i++) {
+      centered[i] = values[i] - mean;
+    }
+
+    // Autocorrelation for each candidate lag and its multiples (normalized by overlap length)
+    const maxMultipleLag = Math.min(2 * maxLag + 1, centered.length - 1);
+    const correlation = new Float32Array(2 * maxLag + 2);
+    for (let lag = minLag - 1; lag <= maxMultipleLag; lag++) {
+      let sum = 0;
+      for (let i = 0; i + lag < centered.length; i++) {
+        sum += centered[i] * centered[i + lag];
+      }
+      correlation[lag] = sum / (centered.length - lag);
+    }
+
+    // Score each lag together with its multiples (a beat also repeats every two or
+    // four beats), so a kick/snare pattern is not mistaken for half tempo, then weight
+    // the score toward common tempos to settle the remaining half/double ambiguity
+    let bestLag = -1;
+    let bestScore = 0;
+    for (let lag = minLag; lag <= maxLag; lag++) {
+      const isPeak = correlation[lag] >= correlation[lag - 1] && correlation[lag] >= correlation[lag + 1];
+      if (!isPeak || correlation[lag] <= 0) continue;
+
+      let periodicity = correlation[lag];
+      for (let multiple = 2; multiple * lag <= 2 * maxLag; multiple++) {
+        // Multiples of a fractional beat period land within one frame of k * lag
+        const multipleLag = multiple * lag;
+        const peak = Math.max(correlation[multipleLag - 1], correlation[multipleLag], correlation[multipleLag + 1]);
+        periodicity += peak / multiple;
+      }
+
+      const bpm = (60 * framesPerSecond) / lag;
+      const octaveDistance = Math.log2(bpm / PREFERRED_BPM) / PREFERRED_BPM_WIDTH;
+      const score = periodicity * Math.exp(-0.5 * octaveDistance * octaveDistance);
+      if (score > bestScore) {
+        bestScore = score;
+        bestLag = lag;
+      }
+    }
+
+    if (bestLag < 0) {
+      return null;
+    }
+
+    // Parabolic interpolation around the peak for sub-frame lag precision
+    const left = correlation[bestLag - 1];
+    const center = correlation[bestLag];
+    const right = correlation[bestLag + 1];
+    const denominator = left - 2 * center + right;
+    const shift = denominator !== 0 ? (0.5 * (left - right)) / denominator : 0;
+    const refinedLag = bestLag + Math.max(-0.5, Math.min(0.5, shift));
+
+    const bpm = (60 * framesPerSecond) / refinedLag;
+    return Math.round(bpm * 10) / 10;
+  }
+
+  /**
+   * Find the non-silent regions of an AudioBuffer
+   * Gaps quieter than the threshold for at least the minimum silence length split regions,
+   * and each region is padded (overlapping regions are merged)
+   *
+   * @param audioBuffer - The decoded AudioBuffer to analyze
+   * @param options - Threshold, minimum silence length and padding
+   * @returns Non-silent regions in seconds, sorted ascending
+   */
+  public detectSoundRegions(audioBuffer: AudioBuffer, options: SilenceDetectionOptions): AudioRegion[] {
+    const levels = this.getWindowLevels(audioBuffer);
+    const { duration } = audioBuffer;
+    const threshold = Math.pow(10, options.thresholdDb / 20);
+    const minSilenceWindows = Math.max(1, Math.round(options.minSilenceMs / 1000 / LEVEL_WINDOW_SECONDS));
+    const paddingBefore = Math.max(0, options.paddingBeforeMs) / 1000;
+    const paddingAfter = Math.max(0, options.paddingAfterMs) / 1000;
+
+    // Collect raw sound regions, ignoring silent runs shorter than the minimum
+    const rawRegions: Array<{ startWindow: number; endWindow: number }> = [];
+    let regionStart = -1;
+    let silentRun = 0;
+
+    for (let i = 0; i < levels.length; i++) {
+      if (levels[i] >= threshold) {
+        if (regionStart < 0) {
+          regionStart = i;
+        }
+        silentRun = 0;
+      } else if (regionStart >= 0) {
+        silentRun++;
+        if (silentRun >= minSilenceWindows) {
+          rawRegions.push({ startWindow: regionStart, endWindow: i - silentRun + 1 });
+          regionStart = -1;
+          silentRun = 0;
+        }
+      }
+    }
+    if (regionStart >= 0) {
+      rawRegions.push({ startWindow: regionStart, endWindow: levels.length - silentRun });
+    }
+
+    // Convert to seconds, apply padding and merge regions that now overlap
+    const regions: AudioRegion[] = [];
+    for (const raw of rawRegions) {
+      const start = Math.max(0, raw.startWindow * LEVEL_WINDOW_SECONDS - paddingBefore);
+      const end = Math.min(duration, raw.endWindow * LEVEL_WINDOW_SECONDS + paddingAfter);
+      const previous = regions[regions.length - 1];
+      if (previous && start <= previous.end) {
+        previous.end = Math.max(previous.end, end);
+      } else {
+        regions.push({ start, end });
+      }
+    }
+
+    return regions;
+  }
+
+  /**
+   * Find the zero crossing closest to a time position
+   * Searches every channel within a window on each side of the time: the nearest position
+   * where all channels cross zero together wins; if there is none, the position with the
+   * lowest peak level across channels is used (channels rarely cross at the same sample)
+   *
+   * @param audioBuffer - The decoded AudioBuffer to search
+   * @param time - Time position in seconds
+   * @param windowMs - Search window in milliseconds on each side of the time
+   * @returns Time of the nearest zero crossing in seconds, or the original time if the window is empty
+   */
+  public findNearestZeroCrossing(audioBuffer: AudioBuffer, time: number, windowMs: number): number {
+    const { sampleRate, length, numberOfChannels } = audioBuffer;
+    const channels = Array.from({ length: numberOfChannels }, (_, channel) => audioBuffer.getChannelData(channel));
+    const center = Math.round(time * sampleRate);
+    const windowSamples = Math.max(1, Math.round((windowMs / 1000) * sampleRate));
+
+    if (center <= 0 || center >= length) {
+      return time;
+    }
+
+    // Largest absolute sample across channels at an index
+    const peakAt = (index: number) => {
+      let peak = 0;
+      for (const samples of channels) {
+        peak = Math.max(peak, Math.abs(samples[index]));
+      }
+      return peak;
+    };
+
+    let quietest = -1;
+    let quietestPeak = Infinity;
+
+    // Walk outward from the center so the first crossing found is the nearest
+    for (let distance = 0; distance <= windowSamples; distance++) {
+      for (const index of [center - distance, center + distance]) {
+        if (index < 1 || index >= length) continue;
+        const isCrossing = channels.every((samples) => {
+          const previous = samples[index - 1];
+          const current = samples[index];
+          return current === 0 || (previous < 0) !== (current < 0);
+        });
+        if (isCrossing) {
+          // Pick whichever sample of the pair is closer to zero
+          const crossing = peakAt(index - 1) < peakAt(index) ? index - 1 : index;
+          return crossing / sampleRate;
+        }
+        const peak = peakAt(index);
+        if (peak < quietestPeak) {
+          quietest = index;
+          quietestPeak = peak;
+        }
+      }
+    }
+
+    return quietest >= 0 ? quietest / sampleRate : time;
+  }
+
+  /**
+   * Find the first sample of the attack within a range of samples
+   * The attack is the envelope block that rises the most above the level just before it
+   * (a silent floor, or the tail of the previous sound); the first sample in it that
+   * exceeds that level is where the new sound starts
+   *
+   * @param samples - Mono sample data
+   * @param start - First sample of the range to search
+   * @param end - Sample after the last one of the range
+   * @returns Sample index of the attack start (the range start if nothing rises)
+   */
+  private findAttackStart(samples: Float32Array, start: number, end: number): number {
+    const rangeEnd = Math.min(end, samples.length);
+    const blockLevel = (blockStart: number) => {
+      let peak = 0;
+      for (let i = Math.max(0, blockStart); i < Math.min(blockStart + ATTACK_BLOCK_SIZE, samples.length); i++) {
+        peak = Math.max(peak, Math.abs(samples[i]));
+      }
+      return peak;
+    };
+
+    let attackBlock = -1;
+    let attackFloor = 0;
+    let largestRise = 0;
+    for (let blockStart = start; blockStart < rangeEnd; blockStart += ATTACK_BLOCK_SIZE) {
+      let floor = 0;
+      for (let block = 1; block <= ATTACK_FLOOR_BLOCKS; block++) {
+        floor = Math.max(floor, blockLevel(blockStart - block * ATTACK_BLOCK_SIZE));
+      }
+      const rise = blockLevel(blockStart) - floor;
+      if (rise > largestRise) {
+        largestRise = rise;
+        attackBlock = blockStart;
+        attackFloor = floor;
+      }
+    }
+
+    if (attackBlock < 0) {
+      return start;
+    }
+    for (let i = attackBlock; i < Math.min(attackBlock + ATTACK_BLOCK_SIZE, samples.length); i++) {
+      if (Math.abs(samples[i]) > attackFloor) {
+        return i;
+      }
+    }
+    return attackBlock;
+  }
+
+  /**
+   * Compute the peak absolute level (across all channels) of each short window
+   */
+  private getWindowLevels(audioBuffer: AudioBuffer): Float32Array {
+    const cached = this.levelCache.get(audioBuffer);
+    if (cached) {
+      return cached;
+    }
+
+    const { numberOfChannels, length, sampleRate } = audioBuffer;
+    const windowSize = Math.max(1, Math.round(sampleRate * LEVEL_WINDOW_SECONDS));
+    const levels = new Float32Array(Math.ceil(length / windowSize));
+
+    for (let channel = 0; channel < numberOfChannels; channel++) {
+      const channelData = audioBuffer.getChannelData(channel);
+      for (let i = 0; i < length; i++) {
+        const absValue = Math.abs(channelData[i]);
+        const windowIndex = Math.floor(i / windowSize);
+        if (absValue > levels[windowIndex]) {
+          levels[windowIndex] = absValue;
+        }
+      }
+    }
+
+    this.levelCache.set(audioBuffer, levels);
+    return levels;
+  }
+
+  /**
+   * Mix all channels of an AudioBuffer down to a single channel
+   */
+  private getMonoData(audioBuffer: AudioBuffer): Float32Array {
+    const { numberOfChannels, length } = audioBuffer;
+    if (numberOfChannels === 1) {
+      return audioBuffer.getChannelData(0);
+    }
+
+    const cached = this.monoCache.get(audioBuffer);
+    if (cached) {
+      return cached;
+    }
+
+    const mono = new Float32Array(length);
+    for (let channel = 0; channel < numberOfChannels; channel++) {
+      const channelData = audioBuffer.getChannelData(channel);
+      for (let i = 0; i < length; i++) {
+        mono[i] += channelData[i] / numberOfChannels;
+      }
+    }
+    this.monoCache.set(audioBuffer, mono);
+    return mono;
+  }
+}
+
+// Export singleton instance for convenience
+export const audioAnalysisService = new AudioAnalysisService();
@@ -3,9 +3,12 @@ import {
   SUPPORTED_AUDIO_FORMATS,
   SUPPORTED_EXTENSIONS,
 } from '../types/audio';
+import { readWavMarkers } from './wavChunks';
+import { isAiffFile, readAiff } from './aiffChunks';
 import type {
   AudioDecodeResult,
   AudioMetadata,
+  EmbeddedMarkers,
   SupportedAudioFormat,
 } from '../types/audio';
 
@@ -64,6 +67,42 @@ export class AudioService {
     };
   }
 
+  /**
+   * Read markers embedded in the file metadata (WAV cue/adtl/smpl chunks)
+   * Malformed metadata is ignored so it never prevents decoding
+   */
+  private extractEmbeddedMarkers(arrayBuffer: ArrayBuffer): EmbeddedMarkers | null {
+    try {
+      return readWavMarkers(arrayBuffer);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Decode an AIFF/AIFF-C file without the Web Audio API (most browsers cannot decode AIFF)
+   * @param arrayBuffer - The raw file contents
+   * @returns The decoded AudioBuffer and markers from the MARK/INST chunks
+   * @throws AudioDecodeError if the file cannot be parsed
+   */
+  private decodeAiff(arrayBuffer: ArrayBuffer): { audioBuffer: AudioBuffer; embeddedMarkers: EmbeddedMarkers | null } {
+    try {
+      const aiff = readAiff(arrayBuffer);
+      const length = aiff.channels[0]?.length ?? 0;
+      if (length === 0) {
+        throw new Error('File contains no audio');
+      }
+      const audioBuffer = this.getAudioContext().createBuffer(aiff.channels.length, length, aiff.sampleRate);
+      aiff.channels.forEach((channel, index) => audioBuffer.copyToChannel(channel, index));
+      return { audioBuffer, embeddedMarkers: aiff.embeddedMarkers };
+    } catch (error) {
+      throw new AudioDecodeError(
+        'DECODE_ERROR',
+        `Failed to decode AIFF: ${error instanceof Error ? error.message : 'File may be corrupted'}`
+      );
+    }
+  }
+
   /**
    * Decode an audio file and return the AudioBuffer with metadata
    * @param file - The audio file to decode
@@ -75,7 +114,7 @@ export class AudioService {
     if (!this.isSupported(file)) {
       throw new AudioDecodeError(
         'UNSUPPORTED_FORMAT',
-        `Unsupported audio format: ${file.type || 'unknown'}. Supported formats: WAV, MP3, M4A, AAC, FLAC`
+        `Unsupported audio format: ${file.type || 'unknown'}. Supported formats: WAV, MP3, M4A, AAC, FLAC, AIFF`
       );
     }
 
@@ -90,6 +129,19 @@ export class AudioService {
       );
     }
 
+    // AIFF is decoded here; other formats go through the Web Audio API
+    if (isAiffFile(arrayBuffer)) {
+      const { audioBuffer, embeddedMarkers } = this.decodeAiff(arrayBuffer);
+      return {
+        audioBuffer,
+        metadata: this.extractMetadata(audioBuffer),
+        embeddedMarkers,
+      };
+    }
+
+    // Read embedded markers first (decodeAudioData detaches the buffer)
+    const embeddedMarkers = this.extractEmbeddedMarkers(arrayBuffer);
+
     // Decode audio data
     const audioContext = this.getAudioContext();
     let audioBuffer: AudioBuffer;
@@ -105,6 +157,7 @@ export class AudioService {
     return {
       audioBuffer,
       metadata: this.extractMetadata(audioBuffer),
+      embeddedMarkers,
     };
   }
 
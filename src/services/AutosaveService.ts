@@ -0,0 +1,135 @@
+import { AUTOSAVE_VERSION } from '../types/session';
+import type { AutosaveAudio, AutosaveSession, RestorableSession } from '../types/session';
+
+const DATABASE_NAME = 'sample-slice-tool';
+const DATABASE_VERSION = 1;
+const STORE_NAME = 'autosave';
+
+/** Record keys within the autosave store */
+const SESSION_KEY = 'session';
+const AUDIO_KEY = 'audio';
+
+/**
+ * Wrap an IndexedDB request in a promise
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Service for persisting the editing session to IndexedDB for crash recovery
+ *
+ * The audio file is stored once per loaded file, while the (much smaller)
+ * session state is rewritten on every change.
+ */
+export class AutosaveService {
+  private databasePromise: Promise<IDBDatabase> | null = null;
+
+  /**
+   * Check if IndexedDB is available in the current browser
+   */
+  public isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  /**
+   * Open (and create if needed) the autosave database
+   */
+  private getDatabase(): Promise<IDBDatabase> {
+    if (!this.databasePromise) {
+      this.databasePromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+            request.result.createObjectStore(STORE_NAME);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Allow retrying if opening failed (e.g., private browsing)
+      this.databasePromise.catch(() => {
+        this.databasePromise = null;
+      });
+    }
+    return this.databasePromise;
+  }
+
+  /**
+   * Write a value to the autosave store
+   */
+  private async put(key: string, value: unknown): Promise<void> {
+    const database = await this.getDatabase();
+    const transaction = database.transaction(STORE_NAME, 'readwrite');
+    await requestToPromise(transaction.objectStore(STORE_NAME).put(value, key));
+  }
+
+  /**
+   * Read a value from the autosave store
+   */
+  private async get<T>(key: string): Promise<T | undefined> {
+    const database = await this.getDatabase();
+    const transaction = database.transaction(STORE_NAME, 'readonly');
+    return requestToPromise(transaction.objectStore(STORE_NAME).get(key) as IDBRequest<T | undefined>);
+  }
+
+  /**
+   * Store the audio file of the current session
+   * @param file - The loaded audio file
+   * @param hash - SHA-256 hash of the file contents
+   */
+  public async saveAudio(file: File, hash: string): Promise<void> {
+    const audio: AutosaveAudio = { hash, name: file.name, blob: file };
+    await this.put(AUDIO_KEY, audio);
+  }
+
+  /**
+   * Store the current session state
+   * @param session - Session state (version and timestamp are filled in)
+   */
+  public async saveSession(session: Omit<AutosaveSession, 'version' | 'savedAt'>): Promise<void> {
+    const record: AutosaveSession = {
+      ...session,
+      version: AUTOSAVE_VERSION,
+      savedAt: Date.now(),
+    };
+    await this.put(SESSION_KEY, record);
+  }
+
+  /**
+   * Load the last autosaved session if it can be restored
+   * @returns The session and its audio, or null if nothing (usable) was saved
+   */
+  public async loadSession(): Promise<RestorableSession | null> {
+    const [session, audio] = await Promise.all([
+      this.get<AutosaveSession>(SESSION_KEY),
+      this.get<AutosaveAudio>(AUDIO_KEY),
+    ]);
+
+    if (
+      !session
+      || !audio
+      || session.version !== AUTOSAVE_VERSION
+      || session.source.hash !== audio.hash
+    ) {
+      return null;
+    }
+
+    return { session, audio };
+  }
+
+  /**
+   * Remove the autosaved session and audio
+   */
+  public async clear(): Promise<void> {
+    const database = await this.getDatabase();
+    const transaction = database.transaction(STORE_NAME, 'readwrite');
+    await requestToPromise(transaction.objectStore(STORE_NAME).clear());
+  }
+}
+
+// Export singleton instance for convenience
+export const autosaveService = new AutosaveService();
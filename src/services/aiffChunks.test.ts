@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createCommonChunk,
+  createFormatVersionChunk,
+  createIffChunk,
+  createInstrumentChunk,
+  createMarkerChunk,
+  isAiffFile,
+  readAiff,
+} from './aiffChunks';
+
+/**
+ * Join byte arrays
+ */
+function concat(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+/**
+ * Build an SSND chunk with `offset` junk bytes before the big-endian 16-bit samples
+ */
+function createSoundChunk(samples: number[], offset = 0): Uint8Array {
+  const data = new Uint8Array(8 + offset + samples.length * 2);
+  const view = new DataView(data.buffer);
+  view.setUint32(0, offset, false);
+  data.fill(0x7f, 8, 8 + offset);
+  samples.forEach((sample, index) => view.setInt16(8 + offset + index * 2, sample, false));
+  return createIffChunk('SSND', data);
+}
+
+/**
+ * Build a FORM container around the given chunks
+ */
+function createAiffFile(chunks: Uint8Array[], formType = 'AIFF'): ArrayBuffer {
+  const body = concat([new TextEncoder().encode(formType), ...chunks]);
+  return createIffChunk('FORM', body).buffer as ArrayBuffer;
+}
+
+describe('createCommonChunk', () => {
+  it('writes the sample rate as an 80-bit extended float', () => {
+    const chunk = createCommonChunk(2, 1000, 16, 44100);
+    // 44100 = 0xac44 * 2^0 with the exponent 15 biased by 16383
+    expect([...chunk.subarray(16, 26)]).toEqual([0x40, 0x0e, 0xac, 0x44, 0, 0, 0, 0, 0, 0]);
+  });
+
+  it.each([8000, 11025, 22050, 44100, 48000, 88200, 96000, 192000, 44100.5, 1])('reads back %d Hz', (sampleRate) => {
+    const file = createAiffFile([createCommonChunk(1, 1, 16, sampleRate), createSoundChunk([0])]);
+    expect(readAiff(file).sampleRate).toBe(sampleRate);
+  });
+});
+
+describe('readAiff', () => {
+  it('reads 16-bit samples after the SSND offset', () => {
+    const file = createAiffFile([createCommonChunk(2, 2, 16, 48000), createSoundChunk([16384, -16384, 32767, -32768], 6)]);
+
+    const aiff = readAiff(file);
+
+    expect(aiff.channels).toEqual([new Float32Array([0.5, 32767 / 32768]), new Float32Array([-0.5, -1])]);
+    expect(aiff.embeddedMarkers).toBeNull();
+  });
+
+  it('reads little-endian AIFF-C samples', () => {
+    const sound = createIffChunk('SSND', new Uint8Array([0, 0, 0, 0, 0, 0, 0, 0, 0x00, 0x40, 0x00, 0xc0]));
+    const file = createAiffFile([
+      createFormatVersionChunk(),
+      createCommonChunk(1, 2, 16, 44100, { type: 'sowt', name: '' }),
+      sound,
+    ], 'AIFC');
+
+    expect(readAiff(file).channels).toEqual([new Float32Array([0.5, -0.5])]);
+  });
+
+  it('reads markers with odd and even name lengths and turns the sustain loop into a loop', () => {
+    const file = createAiffFile([
+      createCommonChunk(1, 4, 16, 1000),
+      createMarkerChunk([
+        { id: 1, position: 1, name: 'Hat' }, // Count byte + 3 bytes: even
+        { id: 2, position: 2, name: 'Kick' }, // Count byte + 4 bytes: odd, padded
+        { id: 3, position: 0, name: '' },
+        { id: 4, position: 3, name: 'Loop end' },
+      ])!,
+      createInstrumentChunk({ baseNote: 60, detuneCents: 0, sustainLoop: { beginMarkerId: 2, endMarkerId: 4 } }),
+      createSoundChunk([0, 0, 0, 0]),
+    ]);
+
+    expect(readAiff(file).embeddedMarkers).toEqual({
+      cuePoints: [
+        { id: 3, time: 0, label: '' },
+        { id: 1, time: 0.001, label: 'Hat' },
+      ],
+      loops: [{ start: 0.002, end: 0.003 }],
+    });
+  });
+
+  it('keeps the loop markers as cue points when the sustain loop is off', () => {
+    const file = createAiffFile([
+      createCommonChunk(1, 4, 16, 1000),
+      createMarkerChunk([
+        { id: 1, position: 1, name: 'Start' },
+        { id: 2, position: 3, name: 'End' },
+      ])!,
+      createInstrumentChunk({ baseNote: 60, detuneCents: 0 }),
+      createSoundChunk([0, 0, 0, 0]),
+    ]);
+
+    expect(readAiff(file).embeddedMarkers?.loops).toEqual([]);
+    expect(readAiff(file).embeddedMarkers?.cuePoints.map((cuePoint) => cuePoint.label)).toEqual(['Start', 'End']);
+  });
+
+  it('stops reading markers at a name that runs past the MARK chunk', () => {
+    const mark = createMarkerChunk([
+      { id: 1, position: 1, name: 'Kick' },
+      { id: 2, position: 2, name: 'Snare' },
+    ])!;
+    // Claim a 200-byte name for the second marker
+    mark[8 + 2 + 12 + 6] = 200;
+
+    const file = createAiffFile([createCommonChunk(1, 4, 16, 1000), mark, createSoundChunk([0, 0, 0, 0])]);
+
+    expect(readAiff(file).embeddedMarkers?.cuePoints).toEqual([{ id: 1, time: 0.001, label: 'Kick' }]);
+  });
+
+  it('keeps the markers that fit in a file truncated inside the MARK chunk', () => {
+    const file = createAiffFile([
+      createCommonChunk(1, 0, 16, 1000),
+      createSoundChunk([]),
+      createMarkerChunk([
+        { id: 1, position: 0, name: 'Kick' },
+        { id: 2, position: 0, name: 'Snare drum' },
+      ])!,
+    ]);
+
+    // Cut the file in the middle of the second name
+    const aiff = readAiff(file.slice(0, file.byteLength - 6));
+
+    expect(aiff.embeddedMarkers?.cuePoints).toEqual([{ id: 1, time: 0, label: 'Kick' }]);
+  });
+
+  it('rejects files that are not AIFF or lack the COMM or SSND chunk', () => {
+    expect(isAiffFile(new TextEncoder().encode('RIFF\x00\x00\x00\x04WAVE').buffer as ArrayBuffer)).toBe(false);
+    expect(() => readAiff(new ArrayBuffer(12))).toThrow('Not an AIFF file');
+    expect(() => readAiff(createAiffFile([createCommonChunk(1, 0, 16, 44100)]))).toThrow('missing its COMM or SSND chunk');
+  });
+});
@@ -0,0 +1,366 @@
+// AIFF file utilities
+// Reads AIFF/AIFF-C audio (COMM, SSND, MARK, INST) and writes the chunks for AIFF exports
+
+import type { EmbeddedCuePoint, EmbeddedLoop, EmbeddedMarkers } from '../types/audio';
+
+/**
+ * Decoded contents of an AIFF or AIFF-C file
+ */
+export interface AiffData {
+  /** Sample rate in Hz */
+  sampleRate: number;
+  /** Samples per channel as floats in [-1, 1] */
+  channels: Float32Array<ArrayBuffer>[];
+  /** Markers and sustain loop (null if the file has none) */
+  embeddedMarkers: EmbeddedMarkers | null;
+}
+
+/**
+ * Marker to write into an AIFF file
+ */
+export interface AiffMarker {
+  /** Marker ID (positive, unique within the file) */
+  id: number;
+  /** Position in sample frames */
+  position: number;
+  /** Marker name */
+  name: string;
+}
+
+/**
+ * Instrument settings to write into an AIFF file
+ */
+export interface AiffInstrument {
+  /** MIDI note played back at the original pitch (0-127) */
+  baseNote: number;
+  /** Pitch correction in cents (-50 to +50) */
+  detuneCents: number;
+  /** Marker IDs of the forward sustain loop (omit for no loop) */
+  sustainLoop?: { beginMarkerId: number; endMarkerId: number };
+}
+
+/** AIFF-C version timestamp (FVER chunk) */
+const AIFC_VERSION_1 = 0xa2805140;
+
+/**
+ * Reads a four-character code at the given offset.
+ */
+function readFourCC(view: DataView, offset: number): string {
+  return String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3)
+  );
+}
+
+/**
+ * Reads a Pascal string (count byte + text, padded to an even total length).
+ * @param end Offset of the end of the enclosing chunk
+ * @returns The text and the number of bytes used, or null if the text runs past `end`
+ */
+function readPascalString(view: DataView, offset: number, end: number): { text: string; size: number } | null {
+  if (offset >= end) return null;
+  const length = view.getUint8(offset);
+  if (offset + 1 + length > end) return null;
+  const bytes = new Uint8Array(view.buffer, view.byteOffset + offset + 1, length);
+  const text = new TextDecoder('latin1').decode(bytes);
+  return { text, size: 1 + length + ((length + 1) % 2) };
+}
+
+/**
+ * Reads an 80-bit IEEE 754 extended precision number (used for the sample rate).
+ */
+function readExtended(view: DataView, offset: number): number {
+  const signAndExponent = view.getUint16(offset, false);
+  const sign = signAndExponent & 0x8000 ? -1 : 1;
+  const exponent = signAndExponent & 0x7fff;
+  const mantissaHigh = view.getUint32(offset + 2, false);
+  const mantissaLow = view.getUint32(offset + 6, false);
+  if (exponent === 0 && mantissaHigh === 0 && mantissaLow === 0) return 0;
+  const mantissa = mantissaHigh * 2 ** 32 + mantissaLow;
+  return sign * mantissa * 2 ** (exponent - 16383 - 63);
+}
+
+/**
+ * Writes a positive number as an 80-bit IEEE 754 extended precision value.
+ */
+function writeExtended(view: DataView, offset: number, value: number): void {
+  if (value <= 0) {
+    for (let i = 0; i < 10; i++) view.setUint8(offset + i, 0);
+    return;
+  }
+  const exponent = Math.floor(Math.log2(value));
+  const mantissa = value / 2 ** exponent; // [1, 2)
+  view.setUint16(offset, exponent + 16383, false);
+  const high = Math.floor(mantissa * 2 ** 31);
+  const low = Math.floor((mantissa * 2 ** 31 - high) * 2 ** 32);
+  view.setUint32(offset + 2, high, false);
+  view.setUint32(offset + 6, low, false);
+}
+
+/**
+ * Checks whether a buffer holds an AIFF or AIFF-C file.
+ * @param buffer The raw file contents
+ */
+export function isAiffFile(buffer: ArrayBuffer): boolean {
+  if (buffer.byteLength < 12) return false;
+  const view = new DataView(buffer);
+  const formType = readFourCC(view, 8);
+  return readFourCC(view, 0) === 'FORM' && (formType === 'AIFF' || formType === 'AIFC');
+}
+
+/**
+ * Decodes an AIFF or AIFF-C file.
+ * Supports 8-32 bit big-endian PCM, little-endian PCM (`sowt`) and 32/64-bit float (`fl32`/`fl64`).
+ * @param buffer The raw file contents
+ * @returns Sample rate, channel data and embedded markers
+ * @throws Error if the file is malformed or uses an unsupported compression type
+ */
+export function readAiff(buffer: ArrayBuffer): AiffData {
+  if (!isAiffFile(buffer)) {
+    throw new Error('Not an AIFF file');
+  }
+
+  const view = new DataView(buffer);
+  const isAifc = readFourCC(view, 8) === 'AIFC';
+  const end = Math.min(buffer.byteLength, 8 + view.getUint32(4, false));
+
+  let numChannels = 0;
+  let numFrames = 0;
+  let sampleSize = 0;
+  let sampleRate = 0;
+  let compressionType = 'NONE';
+  let soundOffset = -1;
+  let soundSize = 0;
+  const markers = new Map<number, { position: number; name: string }>();
+  let sustainLoop: { mode: number; begin: number; end: number } | null = null;
+
+  // Chunks are word-aligned
+  for (let offset = 12; offset + 8 <= end;) {
+    const id = readFourCC(view, offset);
+    const size = view.getUint32(offset + 4, false);
+    const dataOffset = offset + 8;
+    const available = Math.min(size, end - dataOffset);
+
+    if (id === 'COMM' && available >= 18) {
+      numChannels = view.getUint16(dataOffset, false);
+      numFrames = view.getUint32(dataOffset + 2, false);
+      sampleSize = view.getUint16(dataOffset + 6, false);
+      sampleRate = readExtended(view, dataOffset + 8);
+      if (isAifc && available >= 22) {
+        compressionType = readFourCC(view, dataOffset + 18);
+      }
+    } else if (id === 'SSND' && available >= 8) {
+      const dataStart = view.getUint32(dataOffset, false);
+      soundOffset = dataOffset + 8 + dataStart;
+      soundSize = Math.max(0, available - 8 - dataStart);
+    } else if (id === 'MARK' && available >= 2) {
+      const count = view.getUint16(dataOffset, false);
+      const markEnd = dataOffset + available;
+      let markerOffset = dataOffset + 2;
+      for (let i = 0; i < count && markerOffset + 7 <= markEnd; i++) {
+        const markerId = view.getUint16(markerOffset, false);
+        const position = view.getUint32(markerOffset + 2, false);
+        // Stop at a truncated or corrupt name
+        const name = readPascalString(view, markerOffset + 6, markEnd);
+        if (!name) break;
+        markers.set(markerId, { position, name: name.text.trim() });
+        markerOffset += 6 + name.size;
+      }
+    } else if (id === 'INST' && available >= 20) {
+      sustainLoop = {
+        mode: view.getInt16(dataOffset + 8, false),
+        begin: view.getInt16(dataOffset + 10, false),
+        end: view.getInt16(dataOffset + 12, false),
+      };
+    }
+
+    offset = dataOffset + size + (size % 2);
+  }
+
+  if (numChannels === 0 || sampleRate <= 0 || soundOffset < 0) {
+    throw new Error('AIFF file is missing its COMM or SSND chunk');
+  }
+
+  // Sample decoding per compression type
+  const type = compressionType.toLowerCase();
+  const isFloat = type === 'fl32' || type === 'fl64';
+  const littleEndian = type === 'sowt';
+  if (type !== 'none' && type !== 'twos' && !isFloat && !littleEndian) {
+    throw new Error(`Unsupported AIFF-C compression: ${compressionType}`);
+  }
+  const bytesPerSample = type === 'fl64' ? 8 : type === 'fl32' ? 4 : Math.ceil(sampleSize / 8);
+  if (bytesPerSample < 1 || bytesPerSample > 8) {
+    throw new Error(`Unsupported AIFF sample size: ${sampleSize}`);
+  }
+
+  const frameCount = Math.min(numFrames, Math.floor(soundSize / (bytesPerSample * numChannels)));
+  const channels = Array.from({ length: numChannels }, () => new Float32Array(frameCount));
+  const scale = 2 ** (bytesPerSample * 8 - 1);
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    for (let channel = 0; channel < numChannels; channel++) {
+      const offset = soundOffset + (frame * numChannels + channel) * bytesPerSample;
+      let sample: number;
+      if (type === 'fl32') {
+        sample = view.getFloat32(offset, false);
+      } else if (type === 'fl64') {
+        sample = view.getFloat64(offset, false);
+      } else {
+        // Signed integer, left-justified in bytesPerSample bytes
+        let value = 0;
+        for (let byte = 0; byte < bytesPerSample; byte++) {
+          const index = littleEndian ? bytesPerSample - 1 - byte : byte;
+          value = value * 256 + view.getUint8(offset + index);
+        }
+        if (value >= scale) value -= scale * 2;
+        sample = value / scale;
+      }
+      channels[channel][frame] = sample;
+    }
+  }
+
+  // A sustain loop between two markers becomes a loop; the other markers become cue points
+  const loops: EmbeddedLoop[] = [];
+  const loopMarkerIds = new Set<number>();
+  if (sustainLoop && sustainLoop.mode !== 0) {
+    const begin = markers.get(sustainLoop.begin);
+    const loopEnd = markers.get(sustainLoop.end);
+    if (begin && loopEnd && loopEnd.position > begin.position) {
+      loops.push({ start: begin.position / sampleRate, end: loopEnd.position / sampleRate });
+      loopMarkerIds.add(sustainLoop.begin).add(sustainLoop.end);
+    }
+  }
+  const cuePoints: EmbeddedCuePoint[] = [...markers.entries()]
+    .filter(([id]) => !loopMarkerIds.has(id))
+    .map(([id, marker]) => ({ id, time: marker.position / sampleRate, label: marker.name }))
+    .sort((a, b) => a.time - b.time);
+
+  return {
+    sampleRate,
+    channels,
+    embeddedMarkers: cuePoints.length > 0 || loops.length > 0 ? { cuePoints, loops } : null,
+  };
+}
+
+/**
+ * Builds an IFF chunk (big-endian size, pad byte for odd sizes).
+ * @param id Four-character chunk ID
+ * @param data Chunk data
+ * @returns The complete chunk
+ */
+export function createIffChunk(id: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(8 + data.length + (data.length % 2));
+  const view = new DataView(chunk.buffer);
+  for (let i = 0; i < 4; i++) {
+    view.setUint8(i, id.charCodeAt(i));
+  }
+  view.setUint32(4, data.length, false);
+  chunk.set(data, 8);
+  return chunk;
+}
+
+/**
+ * Encodes a Pascal string (count byte + Latin-1 text, padded to an even total length).
+ */
+function encodePascalString(text: string): Uint8Array {
+  const chars = [...text]
+    .map((char) => char.charCodeAt(0))
+    .filter((code) => code <= 0xff)
+    .slice(0, 255);
+  const bytes = new Uint8Array(1 + chars.length + ((chars.length + 1) % 2));
+  bytes[0] = chars.length;
+  bytes.set(chars, 1);
+  return bytes;
+}
+
+/**
+ * Builds the COMM chunk.
+ * @param numChannels Number of channels
+ * @param numFrames Number of sample frames
+ * @param sampleSize Bits per sample
+ * @param sampleRate Sample rate in Hz
+ * @param compression AIFF-C compression type and name (omit for plain AIFF)
+ */
+export function createCommonChunk(
+  numChannels: number,
+  numFrames: number,
+  sampleSize: number,
+  sampleRate: number,
+  compression?: { type: string; name: string }
+): Uint8Array {
+  const compressionName = compression ? encodePascalString(compression.name) : new Uint8Array(0);
+  const data = new Uint8Array(18 + (compression ? 4 + compressionName.length : 0));
+  const view = new DataView(data.buffer);
+  view.setUint16(0, numChannels, false);
+  view.setUint32(2, numFrames, false);
+  view.setUint16(6, sampleSize, false);
+  writeExtended(view, 8, sampleRate);
+  if (compression) {
+    for (let i = 0; i < 4; i++) {
+      view.setUint8(18 + i, compression.type.charCodeAt(i));
+    }
+    data.set(compressionName, 22);
+  }
+  return createIffChunk('COMM', data);
+}
+
+/**
+ * Builds the FVER chunk required at the start of AIFF-C files.
+ */
+export function createFormatVersionChunk(): Uint8Array {
+  const data = new Uint8Array(4);
+  new DataView(data.buffer).setUint32(0, AIFC_VERSION_1, false);
+  return createIffChunk('FVER', data);
+}
+
+/**
+ * Builds the MARK chunk.
+ * @param markers Markers to write
+ * @returns The chunk, or null if there are no markers
+ */
+export function createMarkerChunk(markers: AiffMarker[]): Uint8Array | null {
+  if (markers.length === 0) return null;
+
+  const names = markers.map((marker) => encodePascalString(marker.name));
+  const size = 2 + names.reduce((total, name) => total + 6 + name.length, 0);
+  const data = new Uint8Array(size);
+  const view = new DataView(data.buffer);
+  view.setUint16(0, markers.length, false);
+  let offset = 2;
+  markers.forEach((marker, index) => {
+    view.setUint16(offset, marker.id, false);
+    view.setUint32(offset + 2, marker.position, false);
+    data.set(names[index], offset + 6);
+    offset += 6 + names[index].length;
+  });
+
+  return createIffChunk('MARK', data);
+}
+
+/**
+ * Builds the INST chunk (full key and velocity range, no release loop).
+ * @param instrument Base note, detune and optional sustain loop
+ * @returns The complete chunk
+ */
+export function createInstrumentChunk(instrument: AiffInstrument): Uint8Array {
+  const data = new Uint8Array(20);
+  const view = new DataView(data.buffer);
+  view.setInt8(0, Math.max(0, Math.min(127, Math.round(instrument.baseNote)))); // Base note
+  view.setInt8(1, Math.max(-50, Math.min(50, Math.round(instrument.detuneCents)))); // Detune
+  view.setInt8(2, 0); // Low note
+  view.setInt8(3, 127); // High note
+  view.setInt8(4, 1); // Low velocity
+  view.setInt8(5, 127); // High velocity
+  view.setInt16(6, 0, false); // Gain (dB)
+  // Sustain loop: play mode (0 = none, 1 = forward), begin and end marker IDs
+  view.setInt16(8, instrument.sustainLoop ? 1 : 0, false);
+  view.setInt16(10, instrument.sustainLoop?.beginMarkerId ?? 0, false);
+  view.setInt16(12, instrument.sustainLoop?.endMarkerId ?? 0, false);
+  // Release loop: none
+  view.setInt16(14, 0, false);
+  view.setInt16(16, 0, false);
+  view.setInt16(18, 0, false);
+  return createIffChunk('INST', data);
+}
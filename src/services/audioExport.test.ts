@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import { readAiff } from './aiffChunks';
+import { encodeAiff, encodeWav, encodeWavWithCuePoints } from './audioExport';
+import { readWavMarkers } from './wavChunks';
+
+const SAMPLE_RATE = 44100;
+
+/**
+ * Build a minimal AudioBuffer stand-in with a ramp on every channel
+ */
+function createAudioBuffer(length: number, numberOfChannels = 1): AudioBuffer {
+  const channels = Array.from({ length: numberOfChannels }, (_, channel) =>
+    Float32Array.from({ length }, (_, i) => ((i % 100) / 100 - 0.5) * (channel === 0 ? 1 : -1))
+  );
+  return {
+    sampleRate: SAMPLE_RATE,
+    length,
+    duration: length / SAMPLE_RATE,
+    numberOfChannels,
+    getChannelData: (channel: number) => channels[channel],
+  } as unknown as AudioBuffer;
+}
+
+describe('encodeWavWithCuePoints', () => {
+  it('embeds every marker as a labeled cue point that reads back at the same sample', async () => {
+    const markers = [
+      { time: 0, name: 'Intro' },
+      { time: 0.25, name: 'Kick' },
+      { time: 0.5, name: '' },
+      { time: 0.999, name: 'Fill' },
+    ];
+
+    const blob = encodeWavWithCuePoints(createAudioBuffer(SAMPLE_RATE, 2), markers);
+    const embedded = readWavMarkers(await blob.arrayBuffer());
+
+    expect(embedded?.loops).toEqual([]);
+    expect(embedded?.cuePoints.map((cuePoint) => cuePoint.label)).toEqual(['Intro', 'Kick', '', 'Fill']);
+    embedded?.cuePoints.forEach((cuePoint, index) => {
+      expect(Math.round(cuePoint.time * SAMPLE_RATE)).toBe(Math.round(markers[index].time * SAMPLE_RATE));
+    });
+  });
+
+  it('writes cue points at the target rate when resampling', async () => {
+    const blob = encodeWavWithCuePoints(createAudioBuffer(SAMPLE_RATE), [{ time: 0.5, name: 'Half' }], { sampleRate: 48000 });
+    const buffer = await blob.arrayBuffer();
+
+    const view = new DataView(buffer);
+    expect(view.getUint32(24, true)).toBe(48000);
+    expect(readWavMarkers(buffer)?.cuePoints).toEqual([{ id: 1, time: 0.5, label: 'Half', duration: undefined }]);
+  });
+});
+
+describe('encodeWav sampler chunk', () => {
+  it('writes the section loop relative to the section start', async () => {
+    const blob = encodeWav(createAudioBuffer(SAMPLE_RATE), 0.5, 0.9, {
+      sampler: { unityNote: 48, fineTuneCents: 10, loopStart: 0.1, loopEnd: 0.3 },
+    });
+
+    const embedded = readWavMarkers(await blob.arrayBuffer());
+
+    expect(embedded?.cuePoints).toEqual([]);
+    expect(embedded?.loops).toHaveLength(1);
+    expect(embedded!.loops[0].start * SAMPLE_RATE).toBeCloseTo(4410, 6);
+    expect(embedded!.loops[0].end * SAMPLE_RATE).toBeCloseTo(13230, 6);
+  });
+
+  it('clamps the loop to the exported section', async () => {
+    const blob = encodeWav(createAudioBuffer(SAMPLE_RATE), 0, 0.1, {
+      sampler: { unityNote: 60, fineTuneCents: 0, loopStart: 0.05, loopEnd: 2 },
+    });
+
+    const embedded = readWavMarkers(await blob.arrayBuffer());
+
+    expect(embedded!.loops[0].end * SAMPLE_RATE).toBeCloseTo(4410, 6);
+  });
+});
+
+describe('encodeWav', () => {
+  it.each([
+    ['pcm16', 1, 101],
+    ['pcm24', 1, 101],
+    ['pcm24', 1, 100],
+    ['pcm24', 2, 101],
+    ['float32', 1, 101],
+  ] as const)('pads the %s data chunk (%i channel(s), %i frames) to an even RIFF size', async (sampleFormat, channels, frames) => {
+    const blob = encodeWav(createAudioBuffer(frames, channels), 0, frames / SAMPLE_RATE, { sampleFormat });
+    const buffer = await blob.arrayBuffer();
+    const view = new DataView(buffer);
+
+    const dataSize = frames * channels * { pcm16: 2, pcm24: 3, float32: 4 }[sampleFormat];
+    const dataOffset = buffer.byteLength - dataSize - (dataSize % 2);
+    expect(new TextDecoder().decode(new Uint8Array(buffer, dataOffset - 8, 4))).toBe('data');
+    expect(view.getUint32(dataOffset - 4, true)).toBe(dataSize);
+    expect(buffer.byteLength % 2).toBe(0);
+    expect(view.getUint32(4, true)).toBe(buffer.byteLength - 8);
+  });
+});
+
+describe('encodeAiff', () => {
+  // Positive samples are scaled by 2^(n-1) - 1 but read back by 2^(n-1), so allow two steps
+  it.each([
+    ['pcm16', false, 2 / 32768],
+    ['pcm24', true, 2 / 8388608],
+    ['float32', false, 0],
+  ] as const)('reads back %s samples (AIFF-C: %s)', async (sampleFormat, aifc, tolerance) => {
+    const audioBuffer = createAudioBuffer(101, 2);
+    const blob = encodeAiff(audioBuffer, 0, 101 / SAMPLE_RATE, { sampleFormat, aifc });
+    const buffer = await blob.arrayBuffer();
+
+    const aiff = readAiff(buffer);
+
+    expect(new TextDecoder().decode(new Uint8Array(buffer, 8, 4))).toBe(aifc || sampleFormat === 'float32' ? 'AIFC' : 'AIFF');
+    expect(buffer.byteLength % 2).toBe(0);
+    expect(aiff.sampleRate).toBe(SAMPLE_RATE);
+    expect(aiff.channels).toHaveLength(2);
+    aiff.channels.forEach((channel, index) => {
+      const source = audioBuffer.getChannelData(index);
+      expect(channel).toHaveLength(101);
+      channel.forEach((sample, i) => expect(Math.abs(sample - source[i])).toBeLessThanOrEqual(tolerance));
+    });
+  });
+
+  it('writes cue points as markers and the sampler loop as a sustain loop', async () => {
+    const blob = encodeAiff(createAudioBuffer(SAMPLE_RATE), 0.5, 0.9, {
+      sampleRate: 48000,
+      cuePoints: [
+        { time: 0, label: 'Start' },
+        { time: 0.25, label: 'Hit' },
+        { time: 2, label: 'Outside' },
+      ],
+      sampler: { unityNote: 48, fineTuneCents: 10, loopStart: 0.1, loopEnd: 0.3 },
+    });
+
+    const aiff = readAiff(await blob.arrayBuffer());
+
+    expect(aiff.sampleRate).toBe(48000);
+    expect(aiff.embeddedMarkers).toEqual({
+      cuePoints: [
+        { id: 1, time: 0, label: 'Start' },
+        { id: 2, time: 0.25, label: 'Hit' },
+      ],
+      loops: [{ start: 0.1, end: 0.3 }],
+    });
+  });
+});
@@ -6,56 +6,366 @@ import type { Mp3Encoder as Mp3EncoderType } from 'lamejs';
 import JSZip from 'jszip';
 import type JSZipType from 'jszip';
 import type { saveAs as saveAsType } from 'file-saver';
+import { createCueChunks, createSamplerChunk } from './wavChunks';
+import { createId3v2Tag } from './id3Tags';
+import {
+  createCommonChunk,
+  createFormatVersionChunk,
+  createInstrumentChunk,
+  createMarkerChunk,
+  type AiffInstrument,
+  type AiffMarker,
+} from './aiffChunks';
+import { encodeFlacStream } from './flacEncoder';
+import { resample } from '../utils/resample';
+import type { ExportSettings, WavSampleFormat } from '../types/exportSettings';
+import type { AudioTags } from '../types/audio';
 
 // Re-export types for use in other modules
 export type { Mp3EncoderType, JSZipType, saveAsType };
 
+/** Bytes per sample for each WAV sample encoding */
+const WAV_BYTES_PER_SAMPLE: Record<WavSampleFormat, number> = {
+  pcm16: 2,
+  pcm24: 3,
+  float32: 4,
+};
+
+/** Format tags for the WAV `fmt ` chunk */
+const WAVE_FORMAT_PCM = 0x0001;
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+/**
+ * Encoding options and metadata for exported WAV files
+ */
+export interface WavExportOptions {
+  /** Sample encoding (default: 16-bit PCM) */
+  sampleFormat?: WavSampleFormat;
+  /** Whether to add TPDF dither when quantizing to integer PCM (default: false) */
+  dither?: boolean;
+  /** Target sample rate in Hz (default: the source rate) */
+  sampleRate?: number | null;
+  /** Cue points (times in seconds relative to the segment start) written as `cue ` + `LIST adtl` chunks */
+  cuePoints?: Array<{ time: number; label: string }>;
+  /** Sampler info written as a `smpl` chunk (loop times in seconds relative to the segment start) */
+  sampler?: {
+    unityNote: number;
+    fineTuneCents: number;
+    loopStart: number;
+    loopEnd: number;
+  };
+}
+
 /**
  * Encodes a segment of an AudioBuffer as a WAV file.
  * @param audioBuffer The source AudioBuffer
  * @param startTime Start time in seconds
  * @param endTime End time in seconds
+ * @param options Encoding options and metadata chunks
  * @returns Blob containing WAV audio data
  */
 export function encodeWav(
   audioBuffer: AudioBuffer,
   startTime: number,
-  endTime: number
+  endTime: number,
+  options: WavExportOptions = {}
 ): Blob {
-  const sampleRate = audioBuffer.sampleRate;
   const numChannels = audioBuffer.numberOfChannels;
+  const sampleFormat = options.sampleFormat ?? 'pcm16';
+
+  // Extract the segment, converting to the target sample rate if needed
+  const sampleRate = options.sampleRate ?? audioBuffer.sampleRate;
+  const channels = extractChannels(audioBuffer, startTime, endTime, sampleRate);
+  const numSamples = channels[0]?.length ?? 0;
+
+  // Quantize and interleave
+  const sampleData = encodeSamples(channels, sampleFormat, options.dither ?? false);
+
+  // Metadata chunks written after the audio data
+  const cuePoints = (options.cuePoints ?? [])
+    .map((cuePoint) => ({ sampleOffset: Math.round(cuePoint.time * sampleRate), label: cuePoint.label }))
+    .filter((cuePoint) => cuePoint.sampleOffset >= 0 && cuePoint.sampleOffset <= numSamples);
+  const extraChunks = createCueChunks(cuePoints);
+  if (options.sampler) {
+    const loopStart = Math.max(0, Math.min(numSamples, Math.round(options.sampler.loopStart * sampleRate)));
+    const loopEnd = Math.max(loopStart, Math.min(numSamples, Math.round(options.sampler.loopEnd * sampleRate)));
+    extraChunks.push(createSamplerChunk({
+      sampleRate,
+      unityNote: options.sampler.unityNote,
+      fineTuneCents: options.sampler.fineTuneCents,
+      loopStart,
+      loopEnd,
+    }));
+  }
 
-  // Calculate sample indices for the segment
-  const startSample = Math.floor(startTime * sampleRate);
-  const endSample = Math.floor(endTime * sampleRate);
-  const numSamples = endSample - startSample;
+  // Create WAV file
+  const wavBuffer = createWavBuffer(sampleData, sampleRate, numChannels, sampleFormat, extraChunks);
+
+  return new Blob([wavBuffer], { type: 'audio/wav' });
+}
+
+/**
+ * Copies a segment of every channel of an AudioBuffer.
+ * @param audioBuffer The source AudioBuffer
+ * @param startTime Start time in seconds
+ * @param endTime End time in seconds
+ * @param targetSampleRate Sample rate to convert to (default: the source rate)
+ * @returns One array per channel (zero-padded if endTime exceeds the buffer)
+ */
+function extractChannels(
+  audioBuffer: AudioBuffer,
+  startTime: number,
+  endTime: number,
+  targetSampleRate = audioBuffer.sampleRate
+): Float32Array[] {
+  const sampleRate = audioBuffer.sampleRate;
 
-  // Extract and interleave channel data
-  const interleaved = new Float32Array(numSamples * numChannels);
+  // Calculate sample indices for the segment
+  const startSample = Math.round(startTime * sampleRate);
+  const endSample = Math.round(endTime * sampleRate);
+  const numSamples = Math.max(0, endSample - startSample);
 
-  for (let channel = 0; channel < numChannels; channel++) {
+  const channels: Float32Array[] = [];
+  for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
     const channelData = audioBuffer.getChannelData(channel);
-    for (let i = 0; i < numSamples; i++) {
-      const sampleIndex = startSample + i;
-      // Clamp to valid range in case endTime exceeds buffer length
-      const sample = sampleIndex < channelData.length ? channelData[sampleIndex] : 0;
-      // Interleave: for stereo, samples go L0, R0, L1, R1, ...
-      interleaved[i * numChannels + channel] = sample;
+    const segment = new Float32Array(numSamples);
+    // Clamp to valid range in case endTime exceeds buffer length
+    segment.set(channelData.subarray(startSample, Math.min(endSample, channelData.length)));
+    channels.push(targetSampleRate === sampleRate ? segment : resample(segment, sampleRate, targetSampleRate));
+  }
+
+  return channels;
+}
+
+/**
+ * Converts a float sample to a signed integer of the given bit depth.
+ * @param sample Float sample (clamped to [-1, 1])
+ * @param bitsPerSample Target bit depth (16 or 24)
+ * @param dither Whether to add TPDF dither before rounding
+ * @returns Integer sample
+ */
+function quantizeSample(sample: number, bitsPerSample: number, dither: boolean): number {
+  // Integer range of the target format
+  const negativeScale = 2 ** (bitsPerSample - 1);
+  const positiveScale = negativeScale - 1;
+
+  // Clamp to [-1, 1] then scale to the integer range
+  const clamped = Math.max(-1, Math.min(1, sample));
+  let value = clamped < 0 ? clamped * negativeScale : clamped * positiveScale;
+  if (dither) {
+    // Triangular noise of +/-1 LSB decorrelates the quantization error from the signal
+    value = Math.round(value + Math.random() - Math.random());
+  } else {
+    value = Math.trunc(value);
+  }
+  return Math.max(-negativeScale, Math.min(positiveScale, value));
+}
+
+/**
+ * Quantizes and interleaves channel data.
+ * @param channels One array of float samples per channel
+ * @param sampleFormat Target sample encoding
+ * @param dither Whether to add TPDF dither (integer formats only)
+ * @param littleEndian Byte order (WAV is little-endian, AIFF big-endian)
+ * @returns Interleaved sample bytes (for stereo: L0, R0, L1, R1, ...)
+ */
+function encodeSamples(
+  channels: Float32Array[],
+  sampleFormat: WavSampleFormat,
+  dither: boolean,
+  littleEndian = true
+): Uint8Array {
+  const numChannels = channels.length;
+  const numSamples = channels[0]?.length ?? 0;
+  const bytesPerSample = WAV_BYTES_PER_SAMPLE[sampleFormat];
+  const data = new Uint8Array(numSamples * numChannels * bytesPerSample);
+  const view = new DataView(data.buffer);
+
+  const bitsPerSample = sampleFormat === 'pcm24' ? 24 : 16;
+
+  for (let i = 0; i < numSamples; i++) {
+    for (let channel = 0; channel < numChannels; channel++) {
+      const offset = (i * numChannels + channel) * bytesPerSample;
+      const sample = channels[channel][i];
+
+      if (sampleFormat === 'float32') {
+        view.setFloat32(offset, sample, littleEndian);
+        continue;
+      }
+
+      const value = quantizeSample(sample, bitsPerSample, dither);
+      if (sampleFormat === 'pcm16') {
+        view.setInt16(offset, value, littleEndian);
+      } else {
+        view.setUint8(offset + (littleEndian ? 0 : 2), value & 0xff);
+        view.setUint8(offset + 1, (value >> 8) & 0xff);
+        view.setUint8(offset + (littleEndian ? 2 : 0), (value >> 16) & 0xff);
+      }
     }
   }
 
-  // Convert float32 samples to 16-bit PCM
-  const pcmData = new Int16Array(interleaved.length);
-  for (let i = 0; i < interleaved.length; i++) {
-    // Clamp to [-1, 1] then scale to 16-bit range
-    const clamped = Math.max(-1, Math.min(1, interleaved[i]));
-    pcmData[i] = clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff;
+  return data;
+}
+
+/**
+ * Encodes the whole AudioBuffer as a single WAV file with every marker embedded as a cue point.
+ * Marker names are written as cue labels so samplers, DAWs and our own importer can slice the file.
+ * @param audioBuffer The source AudioBuffer
+ * @param markers Markers to embed
+ * @param options Sample encoding options
+ * @returns Blob containing WAV audio data with cue chunks
+ */
+export function encodeWavWithCuePoints(
+  audioBuffer: AudioBuffer,
+  markers: Array<{ time: number; name: string }>,
+  options: Pick<WavExportOptions, 'sampleFormat' | 'dither' | 'sampleRate'> = {}
+): Blob {
+  return encodeWav(audioBuffer, 0, audioBuffer.duration, {
+    ...options,
+    cuePoints: markers.map((marker) => ({ time: marker.time, label: marker.name })),
+  });
+}
+
+/**
+ * Encoding options and metadata for exported AIFF files
+ */
+export interface AiffExportOptions extends WavExportOptions {
+  /** Whether to write AIFF-C instead of plain AIFF (always AIFF-C for float samples) */
+  aifc?: boolean;
+}
+
+/**
+ * Encodes a segment of an AudioBuffer as an AIFF or AIFF-C file.
+ * Cue points are written as MARK markers; the sampler loop becomes an INST sustain loop.
+ * @param audioBuffer The source AudioBuffer
+ * @param startTime Start time in seconds
+ * @param endTime End time in seconds
+ * @param options Encoding options, markers and loop
+ * @returns Blob containing AIFF audio data
+ */
+export function encodeAiff(
+  audioBuffer: AudioBuffer,
+  startTime: number,
+  endTime: number,
+  options: AiffExportOptions = {}
+): Blob {
+  const numChannels = audioBuffer.numberOfChannels;
+  const sampleFormat = options.sampleFormat ?? 'pcm16';
+
+  // Extract the segment, converting to the target sample rate if needed
+  const sampleRate = options.sampleRate ?? audioBuffer.sampleRate;
+  const channels = extractChannels(audioBuffer, startTime, endTime, sampleRate);
+  const numSamples = channels[0]?.length ?? 0;
+
+  // Quantize and interleave (big-endian)
+  const sampleData = encodeSamples(channels, sampleFormat, options.dither ?? false, false);
+
+  // Markers: cue points first, then the loop boundaries
+  const markers: AiffMarker[] = (options.cuePoints ?? [])
+    .map((cuePoint) => ({ position: Math.round(cuePoint.time * sampleRate), name: cuePoint.label }))
+    .filter((marker) => marker.position >= 0 && marker.position <= numSamples)
+    .map((marker, index) => ({ ...marker, id: index + 1 }));
+  let instrument: AiffInstrument | null = null;
+  if (options.sampler) {
+    const loopStart = Math.max(0, Math.min(numSamples, Math.round(options.sampler.loopStart * sampleRate)));
+    const loopEnd = Math.max(loopStart, Math.min(numSamples, Math.round(options.sampler.loopEnd * sampleRate)));
+    const beginMarkerId = markers.length + 1;
+    markers.push(
+      { id: beginMarkerId, position: loopStart, name: 'Loop start' },
+      { id: beginMarkerId + 1, position: loopEnd, name: 'Loop end' }
+    );
+    instrument = {
+      baseNote: options.sampler.unityNote,
+      detuneCents: options.sampler.fineTuneCents,
+      sustainLoop: { beginMarkerId, endMarkerId: beginMarkerId + 1 },
+    };
   }
 
-  // Create WAV file
-  const wavBuffer = createWavBuffer(pcmData, sampleRate, numChannels);
+  const extraChunks: Uint8Array[] = [];
+  const markerChunk = createMarkerChunk(markers);
+  if (markerChunk) extraChunks.push(markerChunk);
+  if (instrument) extraChunks.push(createInstrumentChunk(instrument));
 
-  return new Blob([wavBuffer], { type: 'audio/wav' });
+  // Float samples require AIFF-C
+  const aifc = options.aifc || sampleFormat === 'float32';
+  const aiffBuffer = createAiffBuffer(sampleData, sampleRate, numChannels, sampleFormat, aifc, extraChunks);
+
+  return new Blob([aiffBuffer], { type: aifc ? 'audio/x-aifc' : 'audio/aiff' });
+}
+
+/**
+ * Options for concatenated AIFF exports
+ */
+export interface AiffChainOptions {
+  /** Target sample rate in Hz (default: the source rate) */
+  sampleRate?: number;
+  /** Whether to downmix to a single channel (default: false) */
+  mono?: boolean;
+  /** Builds extra chunks (e.g., device metadata) from the frame range of each segment */
+  getExtraChunks?: (ranges: Array<{ start: number; end: number }>) => Uint8Array[];
+}
+
+/**
+ * Encodes several segments of an AudioBuffer back to back as one 16-bit AIFF file.
+ * @param audioBuffer The source AudioBuffer
+ * @param segments Segments in seconds, in output order
+ * @param options Sample rate, downmix and extra chunks
+ * @returns Blob containing AIFF audio data
+ */
+export function encodeAiffChain(
+  audioBuffer: AudioBuffer,
+  segments: Array<{ startTime: number; endTime: number }>,
+  options: AiffChainOptions = {}
+): Blob {
+  const sampleRate = options.sampleRate ?? audioBuffer.sampleRate;
+  const numChannels = options.mono ? 1 : audioBuffer.numberOfChannels;
+
+  // Extract every segment and note where it lands in the output
+  const ranges: Array<{ start: number; end: number }> = [];
+  const parts: Float32Array[][] = [];
+  let totalFrames = 0;
+  for (const segment of segments) {
+    let channels = extractChannels(audioBuffer, segment.startTime, segment.endTime, sampleRate);
+    if (options.mono && channels.length > 1) {
+      const mixed = new Float32Array(channels[0].length);
+      for (const channel of channels) {
+        for (let i = 0; i < mixed.length; i++) {
+          mixed[i] += channel[i] / channels.length;
+        }
+      }
+      channels = [mixed];
+    }
+    const frames = channels[0]?.length ?? 0;
+    ranges.push({ start: totalFrames, end: totalFrames + frames });
+    parts.push(channels);
+    totalFrames += frames;
+  }
+
+  // Concatenate per channel
+  const channels = Array.from({ length: numChannels }, (_, channel) => {
+    const joined = new Float32Array(totalFrames);
+    parts.forEach((part, index) => joined.set(part[channel], ranges[index].start));
+    return joined;
+  });
+
+  const sampleData = encodeSamples(channels, 'pcm16', false, false);
+  const extraChunks = options.getExtraChunks?.(ranges) ?? [];
+  const aiffBuffer = createAiffBuffer(sampleData, sampleRate, numChannels, 'pcm16', false, extraChunks);
+
+  return new Blob([aiffBuffer], { type: 'audio/aiff' });
+}
+
+/**
+ * Encoding options and tags for exported MP3 files
+ */
+export interface Mp3ExportOptions {
+  /** Constant bitrate in kbps (default: 192) */
+  bitrate?: number;
+  /** Whether to downmix to a single channel (default: false) */
+  mono?: boolean;
+  /** ID3v2 tags written before the audio frames */
+  tags?: AudioTags;
 }
 
 /**
@@ -63,20 +373,23 @@ export function encodeWav(
  * @param audioBuffer The source AudioBuffer
  * @param startTime Start time in seconds
  * @param endTime End time in seconds
+ * @param options Bitrate, channel mode and tags
  * @returns Blob containing MP3 audio data
  */
 export function encodeMp3(
   audioBuffer: AudioBuffer,
   startTime: number,
-  endTime: number
+  endTime: number,
+  options: Mp3ExportOptions = {}
 ): Blob {
   const sampleRate = audioBuffer.sampleRate;
-  const numChannels = audioBuffer.numberOfChannels;
-  const kbps = 192; // MP3 bitrate
+  const isStereoSource = audioBuffer.numberOfChannels > 1;
+  const numChannels = isStereoSource && !options.mono ? 2 : 1;
+  const kbps = options.bitrate ?? 192; // MP3 bitrate
 
   // Calculate sample indices for the segment
-  const startSample = Math.floor(startTime * sampleRate);
-  const endSample = Math.floor(endTime * sampleRate);
+  const startSample = Math.round(startTime * sampleRate);
+  const endSample = Math.round(endTime * sampleRate);
   const numSamples = endSample - startSample;
 
   // Extract channel data and convert to 16-bit PCM
@@ -84,19 +397,24 @@ export function encodeMp3(
   const rightChannel = numChannels > 1 ? new Int16Array(numSamples) : leftChannel;
 
   const leftData = audioBuffer.getChannelData(0);
-  const rightData = numChannels > 1 ? audioBuffer.getChannelData(1) : leftData;
+  const rightData = isStereoSource ? audioBuffer.getChannelData(1) : leftData;
 
   for (let i = 0; i < numSamples; i++) {
     const sampleIndex = startSample + i;
+    let leftSample = sampleIndex < leftData.length ? leftData[sampleIndex] : 0;
+    const rightSample = sampleIndex < rightData.length ? rightData[sampleIndex] : 0;
+
+    // Mono downmix: average left and right
+    if (numChannels === 1) {
+      leftSample = (leftSample + rightSample) / 2;
+    }
 
     // Left channel
-    const leftSample = sampleIndex < leftData.length ? leftData[sampleIndex] : 0;
     const leftClamped = Math.max(-1, Math.min(1, leftSample));
     leftChannel[i] = leftClamped < 0 ? leftClamped * 0x8000 : leftClamped * 0x7fff;
 
     // Right channel (same as left for mono)
     if (numChannels > 1) {
-      const rightSample = sampleIndex < rightData.length ? rightData[sampleIndex] : 0;
       const rightClamped = Math.max(-1, Math.min(1, rightSample));
       rightChannel[i] = rightClamped < 0 ? rightClamped * 0x8000 : rightClamped * 0x7fff;
     }
@@ -106,6 +424,12 @@ export function encodeMp3(
   const encoder = new Mp3Encoder(numChannels, sampleRate, kbps);
   const mp3Chunks: BlobPart[] = [];
 
+  // ID3v2 tag goes before the first audio frame
+  const id3Tag = options.tags ? createId3v2Tag(options.tags) : new Uint8Array(0);
+  if (id3Tag.length > 0) {
+    mp3Chunks.push(id3Tag);
+  }
+
   // Encode in chunks for better performance
   const chunkSize = 1152; // MP3 frame size
   for (let i = 0; i < numSamples; i += chunkSize) {
@@ -140,24 +464,143 @@ export function encodeMp3(
 }
 
 /**
- * Creates a WAV file buffer from PCM data.
- * @param pcmData 16-bit PCM samples (interleaved if stereo)
+ * Encoding options and tags for exported FLAC files
+ */
+export interface FlacExportOptions {
+  /** Bits per sample, 16 or 24 (default: 16) */
+  bitsPerSample?: number;
+  /** Whether to add TPDF dither when quantizing (default: false) */
+  dither?: boolean;
+  /** Target sample rate in Hz (default: the source rate) */
+  sampleRate?: number | null;
+  /** Compression level 0-8 (default: 5) */
+  compressionLevel?: number;
+  /** Tags written as Vorbis comments */
+  tags?: AudioTags;
+}
+
+/**
+ * Encodes a segment of an AudioBuffer as a FLAC file.
+ * @param audioBuffer The source AudioBuffer
+ * @param startTime Start time in seconds
+ * @param endTime End time in seconds
+ * @param options Sample size, compression level and tags
+ * @returns Blob containing FLAC audio data
+ */
+export function encodeFlac(
+  audioBuffer: AudioBuffer,
+  startTime: number,
+  endTime: number,
+  options: FlacExportOptions = {}
+): Blob {
+  const bitsPerSample = options.bitsPerSample ?? 16;
+  const dither = options.dither ?? false;
+
+  // Extract the segment, converting to the target sample rate if needed
+  const sampleRate = options.sampleRate ?? audioBuffer.sampleRate;
+  const channels = extractChannels(audioBuffer, startTime, endTime, sampleRate);
+
+  // FLAC stores integer samples
+  const integerChannels = channels.map((channel) => {
+    const samples = new Int32Array(channel.length);
+    for (let i = 0; i < channel.length; i++) {
+      samples[i] = quantizeSample(channel[i], bitsPerSample, dither);
+    }
+    return samples;
+  });
+
+  // Vorbis comments from tags
+  const tags = options.tags ?? {};
+  const comments: Array<[string, string]> = [];
+  if (tags.title) comments.push(['TITLE', tags.title]);
+  if (tags.album) comments.push(['ALBUM', tags.album]);
+  if (tags.track !== undefined) comments.push(['TRACKNUMBER', String(tags.track)]);
+  if (tags.trackCount) comments.push(['TRACKTOTAL', String(tags.trackCount)]);
+  if (tags.bpm) comments.push(['BPM', String(Math.round(tags.bpm))]);
+
+  const flacData = encodeFlacStream(integerChannels, {
+    sampleRate,
+    bitsPerSample,
+    compressionLevel: options.compressionLevel,
+    comments,
+  });
+
+  return new Blob([flacData], { type: 'audio/flac' });
+}
+
+/** Typical FLAC output size relative to uncompressed PCM, used for size estimates */
+const FLAC_ESTIMATED_RATIO = 0.6;
+
+/** Approximate bytes of headers and metadata chunks per exported file */
+const ESTIMATED_HEADER_BYTES = 128;
+
+/**
+ * Estimates the size of an exported file before encoding it.
+ * PCM formats are exact apart from metadata chunks; MP3 follows the bitrate and FLAC assumes typical compression.
+ * @param format Export format
+ * @param duration Duration of the exported audio in seconds
+ * @param sourceSampleRate Sample rate of the source audio in Hz
+ * @param numChannels Number of channels in the source audio
+ * @param settings Export settings applied to the file
+ * @returns Estimated file size in bytes
+ */
+export function estimateEncodedSize(
+  format: ExportSettings['format'],
+  duration: number,
+  sourceSampleRate: number,
+  numChannels: number,
+  settings: ExportSettings
+): number {
+  if (format === 'mp3') {
+    return Math.round(duration * settings.mp3Bitrate * 125) + ESTIMATED_HEADER_BYTES;
+  }
+
+  const sampleRate = settings.sampleRate ?? sourceSampleRate;
+  const frames = Math.ceil(duration * sampleRate);
+  if (format === 'flac') {
+    const bytesPerSample = settings.wavSampleFormat === 'pcm16' ? 2 : 3;
+    return Math.round(frames * numChannels * bytesPerSample * FLAC_ESTIMATED_RATIO) + ESTIMATED_HEADER_BYTES;
+  }
+
+  return frames * numChannels * WAV_BYTES_PER_SAMPLE[settings.wavSampleFormat] + ESTIMATED_HEADER_BYTES;
+}
+
+/**
+ * Creates a WAV file buffer from encoded sample data.
+ * Integer PCM with up to two channels uses the plain PCM header; float data uses
+ * WAVE_FORMAT_IEEE_FLOAT with a `fact` chunk; more than two channels use WAVE_FORMAT_EXTENSIBLE.
+ * @param sampleData Interleaved little-endian samples
  * @param sampleRate Sample rate in Hz
  * @param numChannels Number of audio channels
+ * @param sampleFormat Encoding of the sample data
+ * @param extraChunks Complete RIFF chunks appended after the data chunk (e.g., cue points)
  * @returns ArrayBuffer containing complete WAV file
  */
 function createWavBuffer(
-  pcmData: Int16Array,
+  sampleData: Uint8Array,
   sampleRate: number,
-  numChannels: number
+  numChannels: number,
+  sampleFormat: WavSampleFormat,
+  extraChunks: Uint8Array[] = []
 ): ArrayBuffer {
-  const bitsPerSample = 16;
-  const bytesPerSample = bitsPerSample / 8;
+  const bytesPerSample = WAV_BYTES_PER_SAMPLE[sampleFormat];
+  const bitsPerSample = bytesPerSample * 8;
   const blockAlign = numChannels * bytesPerSample;
   const byteRate = sampleRate * blockAlign;
-  const dataSize = pcmData.length * bytesPerSample;
-  const headerSize = 44;
-  const totalSize = headerSize + dataSize;
+  const isFloat = sampleFormat === 'float32';
+  const isExtensible = numChannels > 2;
+  const formatTag = isFloat ? WAVE_FORMAT_IEEE_FLOAT : WAVE_FORMAT_PCM;
+
+  // fmt chunk: 16 bytes for PCM, 18 for float (cbSize), 40 for extensible
+  const fmtSize = isExtensible ? 40 : isFloat ? 18 : 16;
+  // Non-PCM formats need a fact chunk with the frame count
+  const factSize = isFloat ? 12 : 0;
+  const dataSize = sampleData.length;
+  const headerSize = 12 + 8 + fmtSize + factSize + 8;
+  // Data chunk is padded to an even size (RIFF chunks are word-aligned)
+  const dataPadding = dataSize % 2;
+  const extraSize = extraChunks.reduce((total, chunk) => total + chunk.length, 0);
+  const totalSize = headerSize + dataSize + dataPadding + extraSize;
 
   const buffer = new ArrayBuffer(totalSize);
   const view = new DataView(buffer);
@@ -169,24 +612,107 @@ function createWavBuffer(
 
   // fmt subchunk
   writeString(view, 12, 'fmt ');
-  view.setUint32(16, 16, true); // Subchunk1Size (16 for PCM)
-  view.setUint16(20, 1, true); // AudioFormat (1 = PCM)
+  view.setUint32(16, fmtSize, true);
+  view.setUint16(20, isExtensible ? WAVE_FORMAT_EXTENSIBLE : formatTag, true);
   view.setUint16(22, numChannels, true);
   view.setUint32(24, sampleRate, true);
   view.setUint32(28, byteRate, true);
   view.setUint16(32, blockAlign, true);
   view.setUint16(34, bitsPerSample, true);
+  if (isExtensible) {
+    view.setUint16(36, 22, true); // cbSize
+    view.setUint16(38, bitsPerSample, true); // Valid bits per sample
+    view.setUint32(40, 0, true); // Channel mask (unassigned)
+    // Sub-format GUID: {formatTag}-0000-0010-8000-00AA00389B71
+    view.setUint32(44, formatTag, true);
+    new Uint8Array(buffer, 48, 12).set([0x00, 0x00, 0x10, 0x00, 0x80, 0x00, 0x00, 0xaa, 0x00, 0x38, 0x9b, 0x71]);
+  } else if (isFloat) {
+    view.setUint16(36, 0, true); // cbSize
+  }
+
+  // fact subchunk (frame count)
+  let offset = 20 + fmtSize;
+  if (factSize > 0) {
+    writeString(view, offset, 'fact');
+    view.setUint32(offset + 4, 4, true);
+    view.setUint32(offset + 8, dataSize / blockAlign, true);
+    offset += factSize;
+  }
 
   // data subchunk
-  writeString(view, 36, 'data');
-  view.setUint32(40, dataSize, true);
+  writeString(view, offset, 'data');
+  view.setUint32(offset + 4, dataSize, true);
+
+  // Write sample data
+  const bytes = new Uint8Array(buffer);
+  bytes.set(sampleData, headerSize);
+
+  // Append metadata chunks
+  let chunkOffset = headerSize + dataSize + dataPadding;
+  for (const chunk of extraChunks) {
+    bytes.set(chunk, chunkOffset);
+    chunkOffset += chunk.length;
+  }
+
+  return buffer;
+}
 
-  // Write PCM data
-  const offset = 44;
-  for (let i = 0; i < pcmData.length; i++) {
-    view.setInt16(offset + i * 2, pcmData[i], true);
+/**
+ * Creates an AIFF or AIFF-C file buffer from encoded sample data.
+ * @param sampleData Interleaved big-endian samples
+ * @param sampleRate Sample rate in Hz
+ * @param numChannels Number of audio channels
+ * @param sampleFormat Encoding of the sample data
+ * @param aifc Whether to write AIFF-C (FVER chunk and compression type in COMM)
+ * @param extraChunks Complete IFF chunks written before the sound data (e.g., MARK, INST)
+ * @returns ArrayBuffer containing complete AIFF file
+ */
+function createAiffBuffer(
+  sampleData: Uint8Array,
+  sampleRate: number,
+  numChannels: number,
+  sampleFormat: WavSampleFormat,
+  aifc: boolean,
+  extraChunks: Uint8Array[] = []
+): ArrayBuffer {
+  const bytesPerSample = WAV_BYTES_PER_SAMPLE[sampleFormat];
+  const numFrames = sampleData.length / (bytesPerSample * numChannels);
+  const compression = sampleFormat === 'float32'
+    ? { type: 'fl32', name: '32-bit floating point' }
+    : { type: 'NONE', name: 'not compressed' };
+
+  const headerChunks = [
+    ...(aifc ? [createFormatVersionChunk()] : []),
+    createCommonChunk(numChannels, numFrames, bytesPerSample * 8, sampleRate, aifc ? compression : undefined),
+    ...extraChunks,
+  ];
+  const headerSize = headerChunks.reduce((total, chunk) => total + chunk.length, 0);
+  // SSND: offset and block size, then the samples (padded to an even size)
+  const soundSize = 8 + sampleData.length;
+  const totalSize = 12 + headerSize + 8 + soundSize + (soundSize % 2);
+
+  const buffer = new ArrayBuffer(totalSize);
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  // FORM header
+  writeString(view, 0, 'FORM');
+  view.setUint32(4, totalSize - 8, false);
+  writeString(view, 8, aifc ? 'AIFC' : 'AIFF');
+
+  let offset = 12;
+  for (const chunk of headerChunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
   }
 
+  // SSND chunk
+  writeString(view, offset, 'SSND');
+  view.setUint32(offset + 4, soundSize, false);
+  view.setUint32(offset + 8, 0, false); // Offset
+  view.setUint32(offset + 12, 0, false); // Block size
+  bytes.set(sampleData, offset + 16);
+
   return buffer;
 }
 
@@ -0,0 +1,134 @@
+// Decent Sampler preset utilities
+// Writes a .dspreset XML file with one sample zone per section and a basic volume/attack/release UI
+
+import type { InstrumentPlayback, InstrumentSlice } from '../types/instrument';
+import { formatNoteName } from '../utils/noteNames';
+
+/** Default UI size of Decent Sampler instruments */
+const UI_WIDTH = 812;
+const UI_MIN_HEIGHT = 375;
+
+/** Layout of the slice name labels below the knobs */
+const LABEL_COLUMNS = 4;
+const LABEL_TOP = 130;
+const LABEL_ROW_HEIGHT = 22;
+
+/**
+ * Options for the Decent Sampler preset
+ */
+export interface DecentSamplerOptions {
+  /** Folder containing the samples, relative to the preset (empty for the same folder) */
+  samplePath: string;
+  /** How slices play when their key is held */
+  playback: InstrumentPlayback;
+}
+
+/**
+ * Escapes text for use in an XML attribute.
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Builds an XML element with attributes on one line.
+ */
+function element(name: string, attributes: Record<string, string | number>, selfClosing = true): string {
+  const attributeText = Object.entries(attributes)
+    .map(([key, value]) => `${key}="${escapeXml(String(value))}"`)
+    .join(' ');
+  return `<${name} ${attributeText}${selfClosing ? ' />' : '>'}`;
+}
+
+/**
+ * Builds a knob bound to an instrument-level amp parameter.
+ */
+function createKnob(x: number, label: string, parameter: string, maxValue: number, value: number): string[] {
+  return [
+    `      ${element('labeled-knob', {
+      x,
+      y: 30,
+      width: 90,
+      textSize: 14,
+      textColor: 'FFFFFFFF',
+      trackForegroundColor: 'FF22D3EE',
+      label,
+      type: 'float',
+      minValue: 0,
+      maxValue,
+      value,
+    }, false)}`,
+    `        ${element('binding', { type: 'amp', level: 'instrument', position: 0, parameter })}`,
+    '      </labeled-knob>',
+  ];
+}
+
+/**
+ * Writes a Decent Sampler preset with one zone per slice.
+ * Each slice covers a single key; the UI has volume, attack and release knobs
+ * and a label per slice showing its key and section name.
+ * @param slices Slices in key order
+ * @param options Sample folder and playback mode
+ * @returns The .dspreset file contents
+ */
+export function createDecentSamplerPreset(slices: InstrumentSlice[], options: DecentSamplerOptions): string {
+  const samplePrefix = options.samplePath ? options.samplePath.replace(/\/?$/, '/') : '';
+  const rows = Math.ceil(slices.length / LABEL_COLUMNS);
+  const height = Math.max(UI_MIN_HEIGHT, LABEL_TOP + rows * LABEL_ROW_HEIGHT + 20);
+  const columnWidth = Math.floor((UI_WIDTH - 40) / LABEL_COLUMNS);
+
+  const lines = ['<?xml version="1.0" encoding="UTF-8"?>', '<DecentSampler minVersion="1.0.0">'];
+
+  // UI: amp knobs and slice labels
+  lines.push(`  ${element('ui', { width: UI_WIDTH, height, bgColor: 'FF171717' }, false)}`);
+  lines.push('    <tab name="main">');
+  lines.push(...createKnob(20, 'Volume', 'AMP_VOLUME', 1, 1));
+  lines.push(...createKnob(120, 'Attack', 'ENV_ATTACK', 5, 0));
+  lines.push(...createKnob(220, 'Release', 'ENV_RELEASE', 10, 0.1));
+  slices.forEach((slice, index) => {
+    lines.push(`      ${element('label', {
+      x: 20 + (index % LABEL_COLUMNS) * columnWidth,
+      y: LABEL_TOP + Math.floor(index / LABEL_COLUMNS) * LABEL_ROW_HEIGHT,
+      width: columnWidth - 10,
+      height: LABEL_ROW_HEIGHT,
+      textSize: 14,
+      textColor: 'FFD4D4D4',
+      hAlign: 'left',
+      text: `${formatNoteName(slice.note)}  ${slice.name}`,
+    })}`);
+  });
+  lines.push('    </tab>');
+  lines.push('  </ui>');
+
+  // Zones: one sample per key
+  lines.push(`  ${element('groups', { attack: 0, decay: 0, sustain: 1, release: 0.1 }, false)}`);
+  lines.push('    <group>');
+  for (const slice of slices) {
+    const attributes: Record<string, string | number> = {
+      name: slice.name,
+      path: `${samplePrefix}${slice.file}`,
+      rootNote: slice.note,
+      loNote: slice.note,
+      hiNote: slice.note,
+      volume: `${Math.round(slice.volume * 100) / 100}dB`,
+    };
+    if (options.playback === 'loop') {
+      // Decent Sampler loop end is inclusive
+      attributes.loopEnabled = 'true';
+      attributes.loopStart = slice.loop.start;
+      attributes.loopEnd = Math.max(slice.loop.start, slice.loop.end - 1);
+    } else {
+      attributes.loopEnabled = 'false';
+    }
+    lines.push(`      ${element('sample', attributes)}`);
+  }
+  lines.push('    </group>');
+  lines.push('  </groups>');
+  lines.push('</DecentSampler>');
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,127 @@
+// Export manifest utilities
+// Describes the files in a bulk export ZIP (source positions, keys, settings) as JSON and CSV
+
+import type { ExportAllFormat, ExportSettings } from '../types/exportSettings';
+import type { Section } from '../types/section';
+import { getKeyForIndex } from '../constants/keyboardMapping';
+import { escapeCsvField, toSamples, type MarkerExportSource } from './markerExport';
+
+/** Name of the JSON manifest inside export ZIPs */
+export const MANIFEST_JSON_FILE_NAME = 'manifest.json';
+
+/** Name of the CSV manifest inside export ZIPs */
+export const MANIFEST_CSV_FILE_NAME = 'manifest.csv';
+
+/**
+ * One exported file and the section it was cut from
+ */
+export interface ExportManifestFile {
+  /** File name inside the ZIP */
+  file: string;
+  /** Exported section */
+  section: Section;
+  /** Zero-based position of the section among all sections (determines the keyboard key) */
+  index: number;
+}
+
+/**
+ * Export-wide details written to the manifest
+ */
+export interface ExportManifestDetails {
+  /** Source audio file */
+  source: MarkerExportSource;
+  /** Audio format of the exported files */
+  format: ExportAllFormat;
+  /** Tempo in BPM (null if unknown) */
+  bpm: number | null;
+  /** Export settings used to encode the files */
+  exportSettings: ExportSettings;
+}
+
+/**
+ * Sample rate of the exported files (MP3 is always encoded at the source rate).
+ */
+function getOutputSampleRate(details: ExportManifestDetails): number {
+  if (details.format === 'mp3') return details.source.sampleRate;
+  return details.exportSettings.sampleRate ?? details.source.sampleRate;
+}
+
+/**
+ * Builds the per-file rows shared by the JSON and CSV manifests.
+ */
+function getManifestRows(files: ExportManifestFile[], sampleRate: number) {
+  return files.map(({ file, section, index }) => {
+    const startSample = toSamples(section.startTime, sampleRate);
+    const endSample = toSamples(section.endTime, sampleRate);
+    return {
+      file,
+      index: index + 1,
+      name: section.name,
+      key: getKeyForIndex(index) ?? null,
+      enabled: section.enabled,
+      startSeconds: section.startTime,
+      endSeconds: section.endTime,
+      durationSeconds: section.endTime - section.startTime,
+      startSample,
+      endSample,
+      durationSamples: endSample - startSample,
+    };
+  });
+}
+
+/**
+ * Writes the JSON manifest for a bulk export.
+ * Sample positions refer to the source file; the output sample rate is listed separately.
+ * @param files Exported files in ZIP order
+ * @param details Source, format and settings of the export
+ * @returns Blob containing the JSON manifest
+ */
+export function createExportManifest(files: ExportManifestFile[], details: ExportManifestDetails): Blob {
+  const text = JSON.stringify({
+    source: details.source.fileName,
+    sampleRate: details.source.sampleRate,
+    bpm: details.bpm,
+    exportedAt: new Date().toISOString(),
+    output: {
+      format: details.format,
+      sampleRate: getOutputSampleRate(details),
+    },
+    exportSettings: details.exportSettings,
+    files: getManifestRows(files, details.source.sampleRate),
+  }, null, 2);
+
+  return new Blob([text], { type: 'application/json' });
+}
+
+/**
+ * Writes the CSV manifest for a bulk export (one row per file).
+ * @param files Exported files in ZIP order
+ * @param details Source, format and settings of the export
+ * @returns Blob containing the CSV manifest
+ */
+export function createExportManifestCsv(files: ExportManifestFile[], details: ExportManifestDetails): Blob {
+  const outputSampleRate = getOutputSampleRate(details);
+  const header = [
+    'file', 'index', 'name', 'key', 'enabled',
+    'start_seconds', 'end_seconds', 'duration_seconds',
+    'start_sample', 'end_sample', 'duration_samples',
+    'format', 'sample_rate',
+  ];
+  const lines = getManifestRows(files, details.source.sampleRate).map((row) => [
+    row.file,
+    row.index,
+    row.name,
+    row.key ?? '',
+    row.enabled,
+    row.startSeconds.toFixed(6),
+    row.endSeconds.toFixed(6),
+    row.durationSeconds.toFixed(6),
+    row.startSample,
+    row.endSample,
+    row.durationSamples,
+    details.format,
+    outputSampleRate,
+  ].map(escapeCsvField).join(','));
+
+  return new Blob([[header.join(','), ...lines].join('\r\n') + '\r\n'], { type: 'text/csv' });
+}
@@ -0,0 +1,121 @@
+// Filename template utilities
+// Builds export filenames from a template such as "{source}_{index:02}_{name}" and keeps them unique
+
+import type { Section } from '../types/section';
+import { getKeyForIndex } from '../constants/keyboardMapping';
+import { sanitizeFilename } from './audioExport';
+import { getBaseName } from '../utils/fileNames';
+
+/** Template matching the original naming scheme (section name only) */
+export const DEFAULT_FILENAME_TEMPLATE = '{name}';
+
+/**
+ * Tokens available in filename templates, with descriptions for the settings UI.
+ * Numeric tokens accept a zero-padding width, e.g. {index:02} → 01, 02, …
+ */
+export const FILENAME_TEMPLATE_TOKENS: Array<{ token: string; description: string }> = [
+  { token: '{source}', description: 'Source file name without extension' },
+  { token: '{index}', description: 'Section number, starting at 1' },
+  { token: '{name}', description: 'Section name' },
+  { token: '{key}', description: 'Keyboard shortcut key' },
+  { token: '{start_ms}', description: 'Section start in milliseconds' },
+  { token: '{bpm}', description: 'Tempo, rounded to whole BPM' },
+];
+
+/** Matches {token} and {token:width} placeholders */
+const TOKEN_PATTERN = /\{(\w+)(?::(\d+))?\}/g;
+
+/**
+ * Values substituted into a filename template for one section
+ */
+export interface FilenameTemplateContext {
+  /** Source file name (the extension is removed) */
+  source: string;
+  /** Zero-based position of the section */
+  index: number;
+  /** Section being exported */
+  section: Section;
+  /** Tempo in BPM (null if unknown) */
+  bpm: number | null;
+}
+
+/**
+ * Formats a number for a template token, zero-padded to the given width.
+ */
+function formatNumber(value: number, width: string | undefined): string {
+  const text = String(Math.round(value));
+  return width ? text.padStart(Number(width), '0') : text;
+}
+
+/**
+ * Expands a filename template for one section (without extension).
+ * Unknown tokens are left as written; tokens without a value expand to nothing.
+ * @param template Template string containing tokens
+ * @param context Values for the section being exported
+ * @returns A sanitized filename without extension
+ */
+export function applyFilenameTemplate(template: string, context: FilenameTemplateContext): string {
+  const { source, index, section, bpm } = context;
+
+  const expanded = template.replace(TOKEN_PATTERN, (match, token: string, width: string | undefined) => {
+    switch (token) {
+      case 'source':
+        return getBaseName(source);
+      case 'index':
+        return formatNumber(index + 1, width);
+      case 'name':
+        return section.name;
+      case 'key':
+        return getKeyForIndex(index) ?? '';
+      case 'start_ms':
+        return formatNumber(section.startTime * 1000, width);
+      case 'bpm':
+        return bpm ? formatNumber(bpm, width) : '';
+      default:
+        return match;
+    }
+  });
+
+  // Drop separators left dangling by empty tokens
+  return sanitizeFilename(expanded.replace(/^[\s._-]+|[\s._-]+$/g, ''));
+}
+
+/**
+ * Appends a numeric suffix to a filename until it is not in the set of used names.
+ * Comparison is case-insensitive so files do not collide on case-insensitive file systems.
+ * @param baseName Filename without extension
+ * @param extension Extension without the dot
+ * @param usedNames Lowercased names already taken (the returned name is added)
+ * @returns A unique filename with extension
+ */
+export function getUniqueFilename(baseName: string, extension: string, usedNames: Set<string>): string {
+  let filename = `${baseName}.${extension}`;
+  for (let suffix = 2; usedNames.has(filename.toLowerCase()); suffix++) {
+    filename = `${baseName}-${suffix}.${extension}`;
+  }
+  usedNames.add(filename.toLowerCase());
+  return filename;
+}
+
+/**
+ * Builds unique export filenames for all sections from a template.
+ * Single and bulk exports use the same list so a section always gets the same name.
+ * @param sections Sections in timeline order
+ * @param template Filename template
+ * @param extension Extension without the dot
+ * @param source Source file name
+ * @param bpm Tempo in BPM (null if unknown)
+ * @returns Filenames in the same order as the sections
+ */
+export function getSectionFilenames(
+  sections: Section[],
+  template: string,
+  extension: string,
+  source: string,
+  bpm: number | null
+): string[] {
+  const usedNames = new Set<string>();
+  return sections.map((section, index) =>
+    getUniqueFilename(applyFilenameTemplate(template, { source, index, section, bpm }), extension, usedNames)
+  );
+}
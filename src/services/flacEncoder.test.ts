@@ -0,0 +1,376 @@
+import { describe, expect, it } from 'vitest';
+import { encodeFlacStream } from './flacEncoder';
+
+interface StreamInfo {
+  minBlockSize: number;
+  maxBlockSize: number;
+  sampleRate: number;
+  channels: number;
+  bitsPerSample: number;
+  totalSamples: number;
+  md5: string;
+}
+
+interface DecodedFrame {
+  number: number;
+  blockSize: number;
+  channelAssignment: number;
+  subframeTypes: string[];
+  headerCrcValid: boolean;
+  frameCrcValid: boolean;
+}
+
+interface DecodedStream {
+  streamInfo: StreamInfo;
+  comments: string[];
+  frames: DecodedFrame[];
+  channels: Int32Array[];
+}
+
+/** Fixed predictor coefficients by order */
+const FIXED_COEFFICIENTS = [[], [1], [2, -1], [3, -3, 1], [4, -6, 4, -1]];
+
+/**
+ * MSB-first bit reader over a byte array
+ */
+class BitReader {
+  position = 0;
+  private bytes: Uint8Array;
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes;
+  }
+
+  get byteOffset(): number {
+    return this.position >> 3;
+  }
+
+  read(bits: number): number {
+    let value = 0;
+    for (let i = 0; i < bits; i++) {
+      const bit = (this.bytes[this.position >> 3] >> (7 - (this.position & 7))) & 1;
+      value = value * 2 + bit;
+      this.position++;
+    }
+    return value;
+  }
+
+  readSigned(bits: number): number {
+    const value = this.read(bits);
+    return value >= 2 ** (bits - 1) ? value - 2 ** bits : value;
+  }
+
+  readUnary(): number {
+    let zeros = 0;
+    while (this.read(1) === 0) zeros++;
+    return zeros;
+  }
+
+  alignToByte(): void {
+    this.position = (this.position + 7) & ~7;
+  }
+}
+
+/**
+ * CRC-8 (polynomial 0x07), written independently of the encoder
+ */
+function crc8(bytes: Uint8Array): number {
+  let crc = 0;
+  for (const byte of bytes) {
+    crc ^= byte;
+    for (let bit = 0; bit < 8; bit++) crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xff : (crc << 1) & 0xff;
+  }
+  return crc;
+}
+
+/**
+ * CRC-16 (polynomial 0x8005), written independently of the encoder
+ */
+function crc16(bytes: Uint8Array): number {
+  let crc = 0;
+  for (const byte of bytes) {
+    crc ^= byte << 8;
+    for (let bit = 0; bit < 8; bit++) crc = crc & 0x8000 ? ((crc << 1) ^ 0x8005) & 0xffff : (crc << 1) & 0xffff;
+  }
+  return crc;
+}
+
+/**
+ * Read a Rice-coded residual into `samples`, after the warm-up samples
+ */
+function readResidual(reader: BitReader, samples: Int32Array, order: number): void {
+  const method = reader.read(2);
+  const partitionOrder = reader.read(4);
+  const parameterBits = method === 1 ? 5 : 4;
+  const partitionSize = samples.length >> partitionOrder;
+  for (let partition = 0; partition < 1 << partitionOrder; partition++) {
+    const parameter = reader.read(parameterBits);
+    const start = partition === 0 ? order : partition * partitionSize;
+    const end = (partition + 1) * partitionSize;
+    if (parameter === (1 << parameterBits) - 1) {
+      const rawBits = reader.read(5);
+      for (let i = start; i < end; i++) samples[i] = reader.readSigned(rawBits);
+      continue;
+    }
+    for (let i = start; i < end; i++) {
+      const folded = reader.readUnary() * 2 ** parameter + reader.read(parameter);
+      samples[i] = folded % 2 ? -(folded + 1) / 2 : folded / 2;
+    }
+  }
+}
+
+/**
+ * Read one subframe and return its type and samples
+ */
+function readSubframe(reader: BitReader, blockSize: number, bitsPerSample: number): { type: string; samples: Int32Array } {
+  reader.read(1); // Padding
+  const type = reader.read(6);
+  if (reader.read(1)) throw new Error('Wasted bits are not supported');
+  const samples = new Int32Array(blockSize);
+
+  if (type === 0) {
+    samples.fill(reader.readSigned(bitsPerSample));
+    return { type: 'constant', samples };
+  }
+  if (type === 1) {
+    for (let i = 0; i < blockSize; i++) samples[i] = reader.readSigned(bitsPerSample);
+    return { type: 'verbatim', samples };
+  }
+
+  const isLpc = type >= 32;
+  const order = isLpc ? type - 31 : type - 8;
+  for (let i = 0; i < order; i++) samples[i] = reader.readSigned(bitsPerSample);
+  let coefficients = FIXED_COEFFICIENTS[order];
+  let shift = 0;
+  if (isLpc) {
+    const precision = reader.read(4) + 1;
+    shift = reader.readSigned(5);
+    coefficients = Array.from({ length: order }, () => reader.readSigned(precision));
+  }
+  readResidual(reader, samples, order);
+  for (let i = order; i < blockSize; i++) {
+    let prediction = 0;
+    coefficients.forEach((coefficient, j) => (prediction += coefficient * samples[i - 1 - j]));
+    samples[i] += Math.floor(prediction / 2 ** shift);
+  }
+  return { type: isLpc ? 'lpc' : 'fixed', samples };
+}
+
+/**
+ * Decode one frame starting at `offset` into `output`
+ */
+function readFrame(bytes: Uint8Array, offset: number, streamInfo: StreamInfo, output: Int32Array[]): { frame: DecodedFrame; end: number } {
+  const reader = new BitReader(bytes);
+  reader.position = offset * 8;
+  if (reader.read(14) !== 0b11111111111110) throw new Error(`Missing frame sync at byte ${offset}`);
+  reader.read(2); // Reserved, fixed block size
+  const blockSizeCode = reader.read(4);
+  const sampleRateCode = reader.read(4);
+  const channelAssignment = reader.read(4);
+  reader.read(4); // Sample size, reserved
+
+  const firstByte = reader.read(8);
+  let extraBytes = 0;
+  while (firstByte & (0x80 >> extraBytes)) extraBytes++;
+  let number = firstByte & (0xff >> (extraBytes + 1));
+  for (let i = 1; i < extraBytes; i++) number = number * 64 + (reader.read(8) & 0x3f);
+
+  const blockSize = blockSizeCode === 0b0110 ? reader.read(8) + 1 : blockSizeCode === 0b0111 ? reader.read(16) + 1 : NaN;
+  if (sampleRateCode === 0b1100) reader.read(8);
+  if (sampleRateCode === 0b1101 || sampleRateCode === 0b1110) reader.read(16);
+  const headerCrcValid = crc8(bytes.subarray(offset, reader.byteOffset)) === reader.read(8);
+
+  const sideChannel = { 0b1000: 1, 0b1001: 0, 0b1010: 1 }[channelAssignment] ?? -1;
+  const subframes = Array.from({ length: streamInfo.channels }, (_, channel) =>
+    readSubframe(reader, blockSize, streamInfo.bitsPerSample + (channel === sideChannel ? 1 : 0))
+  );
+  reader.alignToByte();
+  const frameCrcValid = crc16(bytes.subarray(offset, reader.byteOffset)) === reader.read(16);
+
+  const [a, b] = subframes.map((subframe) => subframe.samples);
+  for (let i = 0; i < blockSize; i++) {
+    const index = number * streamInfo.maxBlockSize + i;
+    if (channelAssignment === 0b1000) {
+      output[0][index] = a[i];
+      output[1][index] = a[i] - b[i];
+    } else if (channelAssignment === 0b1001) {
+      output[0][index] = a[i] + b[i];
+      output[1][index] = b[i];
+    } else if (channelAssignment === 0b1010) {
+      const mid = a[i] * 2 + (b[i] & 1);
+      output[0][index] = (mid + b[i]) >> 1;
+      output[1][index] = (mid - b[i]) >> 1;
+    } else {
+      subframes.forEach((subframe, channel) => (output[channel][index] = subframe.samples[i]));
+    }
+  }
+
+  const frame = {
+    number,
+    blockSize,
+    channelAssignment,
+    subframeTypes: subframes.map((subframe) => subframe.type),
+    headerCrcValid,
+    frameCrcValid,
+  };
+  return { frame, end: reader.byteOffset };
+}
+
+/**
+ * Minimal FLAC decoder for the features the encoder uses
+ */
+function decodeFlac(bytes: Uint8Array): DecodedStream {
+  if (new TextDecoder().decode(bytes.subarray(0, 4)) !== 'fLaC') throw new Error('Missing fLaC marker');
+  const reader = new BitReader(bytes);
+  reader.position = 32;
+
+  let streamInfo: StreamInfo | null = null;
+  const comments: string[] = [];
+  let isLast = false;
+  while (!isLast) {
+    isLast = reader.read(1) === 1;
+    const type = reader.read(7);
+    const length = reader.read(24);
+    const blockEnd = reader.byteOffset + length;
+    if (type === 0) {
+      const minBlockSize = reader.read(16);
+      const maxBlockSize = reader.read(16);
+      reader.read(48); // Minimum and maximum frame size
+      streamInfo = {
+        minBlockSize,
+        maxBlockSize,
+        sampleRate: reader.read(20),
+        channels: reader.read(3) + 1,
+        bitsPerSample: reader.read(5) + 1,
+        totalSamples: reader.read(36),
+        md5: Array.from(bytes.subarray(reader.byteOffset, reader.byteOffset + 16), (byte) => byte.toString(16).padStart(2, '0')).join(''),
+      };
+    } else if (type === 4) {
+      const view = new DataView(bytes.buffer, bytes.byteOffset + reader.byteOffset, length);
+      let offset = 4 + view.getUint32(0, true);
+      const count = view.getUint32(offset, true);
+      offset += 4;
+      for (let i = 0; i < count; i++) {
+        const commentLength = view.getUint32(offset, true);
+        comments.push(new TextDecoder().decode(bytes.subarray(reader.byteOffset + offset + 4, reader.byteOffset + offset + 4 + commentLength)));
+        offset += 4 + commentLength;
+      }
+    }
+    reader.position = blockEnd * 8;
+  }
+  if (!streamInfo) throw new Error('Missing STREAMINFO');
+
+  const channels = Array.from({ length: streamInfo.channels }, () => new Int32Array(streamInfo.totalSamples));
+  const frames: DecodedFrame[] = [];
+  let offset = reader.byteOffset;
+  while (offset < bytes.length) {
+    const { frame, end } = readFrame(bytes, offset, streamInfo, channels);
+    frames.push(frame);
+    offset = end;
+  }
+  return { streamInfo, comments, frames, channels };
+}
+
+/**
+ * Build correlated channels: a triangle wave with a little hashed noise.
+ * The same formula produced the MD5 digests below.
+ */
+function createChannels(length: number, channelCount: number, bitsPerSample: number): Int32Array[] {
+  const scale = bitsPerSample === 24 ? 256 : 1;
+  return Array.from({ length: channelCount }, (_, channel) =>
+    Int32Array.from({ length }, (_, i) => {
+      const triangle = ((i * 37) % 200 - 100) * (channel === 0 ? 100 : -75);
+      const noise = ((Math.imul(i + channel * 7919, 2654435761) >>> 24) & 15) - 8;
+      return (triangle + noise) * scale;
+    })
+  );
+}
+
+/**
+ * Build full-scale white noise (xorshift32), which no predictor can compress
+ */
+function createNoise(length: number, bitsPerSample: number): Int32Array {
+  let state = 0x12345678;
+  return Int32Array.from({ length }, () => {
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    return (state >>> 0) % 2 ** bitsPerSample - 2 ** (bitsPerSample - 1);
+  });
+}
+
+describe('encodeFlacStream', () => {
+  it.each([
+    [1, 16, 44100, '2d6b0cd9259abfd28e56059752656cde'],
+    [2, 16, 48000, 'c890f49ed7aa92a9a912e6355291862e'],
+    [1, 24, 96000, '131ab8f32d3ac5b7eb16a5f089d59c04'],
+    [2, 24, 44100, 'bdb92ac2c5224df38e5fc2ef4cc97dab'],
+  ])('writes STREAMINFO for %i channel(s) at %i bits and %i Hz', (channelCount, bitsPerSample, sampleRate, md5) => {
+    const flac = encodeFlacStream(createChannels(3000, channelCount, bitsPerSample), { sampleRate, bitsPerSample, compressionLevel: 0 });
+
+    expect(decodeFlac(flac).streamInfo).toEqual({
+      minBlockSize: 1152,
+      maxBlockSize: 1152,
+      sampleRate,
+      channels: channelCount,
+      bitsPerSample,
+      totalSamples: 3000,
+      md5,
+    });
+  });
+
+  it.each([
+    [1, 16, 0],
+    [2, 16, 0],
+    [1, 24, 0],
+    [2, 24, 0],
+    [2, 16, 5],
+    [2, 24, 8],
+  ])('decodes %i channel(s) at %i bits and level %i sample for sample', (channelCount, bitsPerSample, compressionLevel) => {
+    const input = createChannels(5000, channelCount, bitsPerSample);
+    const flac = encodeFlacStream(input, { sampleRate: 44100, bitsPerSample, compressionLevel });
+
+    const decoded = decodeFlac(flac);
+
+    expect(decoded.frames.map((frame) => frame.number)).toEqual(decoded.frames.map((_, index) => index));
+    expect(decoded.frames.every((frame) => frame.headerCrcValid && frame.frameCrcValid)).toBe(true);
+    expect(decoded.channels).toEqual(input);
+  });
+
+  it('uses fixed predictors and independent channels at level 0', () => {
+    const decoded = decodeFlac(encodeFlacStream(createChannels(2000, 2, 16), { sampleRate: 44100, bitsPerSample: 16, compressionLevel: 0 }));
+
+    expect(decoded.frames.map((frame) => frame.blockSize)).toEqual([1152, 848]);
+    expect(decoded.frames.every((frame) => frame.channelAssignment === 1)).toBe(true);
+    expect(decoded.frames.flatMap((frame) => frame.subframeTypes)).toEqual(['fixed', 'fixed', 'fixed', 'fixed']);
+  });
+
+  it.each([16, 24])('stores incompressible %i-bit noise verbatim', (bitsPerSample) => {
+    const input = [createNoise(1000, bitsPerSample)];
+    const decoded = decodeFlac(encodeFlacStream(input, { sampleRate: 44100, bitsPerSample, compressionLevel: 5 }));
+
+    expect(decoded.frames).toHaveLength(1);
+    expect(decoded.frames[0]).toMatchObject({ subframeTypes: ['verbatim'], headerCrcValid: true, frameCrcValid: true });
+    expect(decoded.channels).toEqual(input);
+  });
+
+  it('stores silence as constant subframes', () => {
+    const input = [new Int32Array(100), new Int32Array(100).fill(-5)];
+    const decoded = decodeFlac(encodeFlacStream(input, { sampleRate: 44100, bitsPerSample: 16, compressionLevel: 0 }));
+
+    expect(decoded.frames[0].subframeTypes).toEqual(['constant', 'constant']);
+    expect(decoded.channels).toEqual(input);
+  });
+
+  it('writes Vorbis comments after STREAMINFO', () => {
+    const flac = encodeFlacStream(createChannels(100, 1, 16), {
+      sampleRate: 44100,
+      bitsPerSample: 16,
+      comments: [['TITLE', 'Kick'], ['TRACKNUMBER', '3']],
+    });
+
+    // STREAMINFO is not the last metadata block
+    expect(flac[4]).toBe(0x00);
+    expect(decodeFlac(flac).comments).toEqual(['TITLE=Kick', 'TRACKNUMBER=3']);
+  });
+});
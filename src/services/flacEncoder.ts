@@ -0,0 +1,846 @@
+// FLAC encoding utilities
+// Pure-TS FLAC stream encoder: fixed and LPC prediction, Rice-coded residuals, stereo decorrelation and Vorbis comments
+
+/**
+ * Options for encoding a FLAC stream
+ */
+export interface FlacStreamOptions {
+  /** Sample rate in Hz */
+  sampleRate: number;
+  /** Bits per sample of the integer input (16 or 24) */
+  bitsPerSample: number;
+  /** Compression level 0-8 (higher is smaller and slower, default: 5) */
+  compressionLevel?: number;
+  /** Vorbis comments as [field, value] pairs (e.g., ["TITLE", "Kick"]) */
+  comments?: Array<[string, string]>;
+}
+
+/**
+ * Encoder parameters for a compression level
+ */
+interface FlacLevelParams {
+  /** Samples per block */
+  blockSize: number;
+  /** Highest LPC order to try (0 = fixed predictors only) */
+  maxLpcOrder: number;
+  /** Whether to try left/side, right/side and mid/side coding for stereo */
+  stereoDecorrelation: boolean;
+  /** Highest Rice partition order to try */
+  maxPartitionOrder: number;
+}
+
+/** Encoder parameters per compression level (modeled on the reference encoder's presets) */
+const LEVEL_PARAMS: FlacLevelParams[] = [
+  { blockSize: 1152, maxLpcOrder: 0, stereoDecorrelation: false, maxPartitionOrder: 3 },
+  { blockSize: 1152, maxLpcOrder: 0, stereoDecorrelation: true, maxPartitionOrder: 3 },
+  { blockSize: 1152, maxLpcOrder: 0, stereoDecorrelation: true, maxPartitionOrder: 4 },
+  { blockSize: 4096, maxLpcOrder: 6, stereoDecorrelation: false, maxPartitionOrder: 4 },
+  { blockSize: 4096, maxLpcOrder: 8, stereoDecorrelation: true, maxPartitionOrder: 4 },
+  { blockSize: 4096, maxLpcOrder: 8, stereoDecorrelation: true, maxPartitionOrder: 5 },
+  { blockSize: 4096, maxLpcOrder: 8, stereoDecorrelation: true, maxPartitionOrder: 6 },
+  { blockSize: 4096, maxLpcOrder: 12, stereoDecorrelation: true, maxPartitionOrder: 6 },
+  { blockSize: 4096, maxLpcOrder: 12, stereoDecorrelation: true, maxPartitionOrder: 8 },
+];
+
+/** Precision in bits of quantized LPC coefficients */
+const LPC_PRECISION = 12;
+
+/** Vendor string written to the Vorbis comment block */
+const VENDOR_STRING = 'sample-slice-tool';
+
+/** Frame header sample rate codes for common rates */
+const SAMPLE_RATE_CODES: Record<number, number> = {
+  88200: 0b0001,
+  176400: 0b0010,
+  192000: 0b0011,
+  8000: 0b0100,
+  16000: 0b0101,
+  22050: 0b0110,
+  24000: 0b0111,
+  32000: 0b1000,
+  44100: 0b1001,
+  48000: 0b1010,
+  96000: 0b1011,
+};
+
+/** Frame header sample size codes */
+const SAMPLE_SIZE_CODES: Record<number, number> = {
+  8: 0b001,
+  12: 0b010,
+  16: 0b100,
+  20: 0b101,
+  24: 0b110,
+};
+
+/** Frame header channel assignments for stereo decorrelation */
+const CHANNEL_LEFT_SIDE = 0b1000;
+const CHANNEL_RIGHT_SIDE = 0b1001;
+const CHANNEL_MID_SIDE = 0b1010;
+
+/**
+ * Big-endian bit writer backed by a growable byte array
+ */
+class BitWriter {
+  private bytes = new Uint8Array(1 << 16);
+  private bytePosition = 0;
+  private bitBuffer = 0;
+  private bitCount = 0;
+
+  /** Number of complete bytes written (the writer must be byte-aligned to read it) */
+  get length(): number {
+    return this.bytePosition;
+  }
+
+  /**
+   * Writes the lowest `count` bits of an unsigned value (count up to 32).
+   */
+  writeBits(value: number, count: number): void {
+    for (let remaining = count; remaining > 0;) {
+      const take = Math.min(remaining, 8 - this.bitCount);
+      remaining -= take;
+      const chunk = Math.floor(value / 2 ** remaining) & ((1 << take) - 1);
+      this.bitBuffer = (this.bitBuffer << take) | chunk;
+      this.bitCount += take;
+      if (this.bitCount === 8) {
+        this.pushByte(this.bitBuffer);
+        this.bitBuffer = 0;
+        this.bitCount = 0;
+      }
+    }
+  }
+
+  /**
+   * Writes a signed value in two's complement using `count` bits.
+   */
+  writeSigned(value: number, count: number): void {
+    this.writeBits(value < 0 ? value + 2 ** count : value, count);
+  }
+
+  /**
+   * Writes `count` zero bits followed by a one.
+   */
+  writeUnary(count: number): void {
+    let zeros = count;
+    while (zeros >= 24) {
+      this.writeBits(0, 24);
+      zeros -= 24;
+    }
+    this.writeBits(1, zeros + 1);
+  }
+
+  /**
+   * Writes a signed value as a Rice code with the given parameter.
+   */
+  writeRice(value: number, parameter: number): void {
+    const folded = value < 0 ? -2 * value - 1 : 2 * value;
+    const quotient = Math.floor(folded / 2 ** parameter);
+    this.writeUnary(quotient);
+    if (parameter > 0) {
+      this.writeBits(folded, parameter);
+    }
+  }
+
+  /**
+   * Pads with zero bits up to the next byte boundary.
+   */
+  alignToByte(): void {
+    if (this.bitCount > 0) {
+      this.writeBits(0, 8 - this.bitCount);
+    }
+  }
+
+  /**
+   * Writes whole bytes (the writer must be byte-aligned).
+   */
+  writeBytes(data: Uint8Array): void {
+    for (const byte of data) {
+      this.pushByte(byte);
+    }
+  }
+
+  /**
+   * Returns a view of bytes written so far.
+   */
+  slice(start: number, end = this.bytePosition): Uint8Array {
+    return this.bytes.subarray(start, end);
+  }
+
+  /**
+   * Returns a copy of all bytes written.
+   */
+  toBytes(): Uint8Array<ArrayBuffer> {
+    return this.bytes.slice(0, this.bytePosition);
+  }
+
+  /**
+   * Overwrites a byte written earlier (for sizes known only after encoding).
+   */
+  setByte(position: number, value: number): void {
+    this.bytes[position] = value;
+  }
+
+  private pushByte(byte: number): void {
+    if (this.bytePosition === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.bytePosition++] = byte;
+  }
+}
+
+/** MD5 per-round shift amounts */
+const MD5_SHIFTS = [
+  7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22,
+  5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20,
+  4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23,
+  6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21,
+];
+
+/** MD5 round constants (integer part of abs(sin(i + 1)) * 2^32) */
+const MD5_CONSTANTS = Array.from({ length: 64 }, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 2 ** 32) | 0);
+
+/**
+ * Incremental MD5 hash for the STREAMINFO audio signature
+ */
+class Md5 {
+  private state = [0x67452301, 0xefcdab89 | 0, 0x98badcfe | 0, 0x10325476];
+  private block = new Uint8Array(64);
+  private blockLength = 0;
+  private totalLength = 0;
+
+  /**
+   * Adds bytes to the hash.
+   */
+  update(data: Uint8Array): void {
+    this.totalLength += data.length;
+    for (const byte of data) {
+      this.block[this.blockLength++] = byte;
+      if (this.blockLength === 64) {
+        this.processBlock();
+        this.blockLength = 0;
+      }
+    }
+  }
+
+  /**
+   * Pads the message and returns the 16-byte digest.
+   */
+  digest(): Uint8Array {
+    const bitLength = this.totalLength * 8;
+    const padding = new Uint8Array(((55 - this.totalLength) % 64 + 64) % 64 + 9);
+    padding[0] = 0x80;
+    const view = new DataView(padding.buffer);
+    view.setUint32(padding.length - 8, bitLength >>> 0, true);
+    view.setUint32(padding.length - 4, Math.floor(bitLength / 2 ** 32), true);
+    this.update(padding);
+
+    const digest = new Uint8Array(16);
+    const digestView = new DataView(digest.buffer);
+    this.state.forEach((word, index) => digestView.setInt32(index * 4, word, true));
+    return digest;
+  }
+
+  private processBlock(): void {
+    const view = new DataView(this.block.buffer);
+    let [a, b, c, d] = this.state;
+    for (let i = 0; i < 64; i++) {
+      let f: number;
+      let g: number;
+      if (i < 16) {
+        f = (b & c) | (~b & d);
+        g = i;
+      } else if (i < 32) {
+        f = (d & b) | (~d & c);
+        g = (5 * i + 1) % 16;
+      } else if (i < 48) {
+        f = b ^ c ^ d;
+        g = (3 * i + 5) % 16;
+      } else {
+        f = c ^ (b | ~d);
+        g = (7 * i) % 16;
+      }
+      f = (f + a + MD5_CONSTANTS[i] + view.getInt32(g * 4, true)) | 0;
+      a = d;
+      d = c;
+      c = b;
+      b = (b + ((f << MD5_SHIFTS[i]) | (f >>> (32 - MD5_SHIFTS[i])))) | 0;
+    }
+    this.state = [
+      (this.state[0] + a) | 0,
+      (this.state[1] + b) | 0,
+      (this.state[2] + c) | 0,
+      (this.state[3] + d) | 0,
+    ];
+  }
+}
+
+/**
+ * Interleaves a block of samples as little-endian bytes (the input of the MD5 signature).
+ */
+function getSampleBytes(channels: Int32Array[], bitsPerSample: number): Uint8Array {
+  const bytesPerSample = Math.ceil(bitsPerSample / 8);
+  const length = channels[0].length;
+  const bytes = new Uint8Array(length * channels.length * bytesPerSample);
+  let offset = 0;
+  for (let i = 0; i < length; i++) {
+    for (const channel of channels) {
+      const sample = channel[i];
+      for (let byte = 0; byte < bytesPerSample; byte++) {
+        bytes[offset++] = (sample >> (8 * byte)) & 0xff;
+      }
+    }
+  }
+  return bytes;
+}
+
+/**
+ * CRC-8 (polynomial 0x07) over frame header bytes.
+ */
+function crc8(data: Uint8Array): number {
+  let crc = 0;
+  for (const byte of data) {
+    crc ^= byte;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xff : (crc << 1) & 0xff;
+    }
+  }
+  return crc;
+}
+
+/**
+ * CRC-16 (polynomial 0x8005) over whole frame bytes.
+ */
+function crc16(data: Uint8Array): number {
+  let crc = 0;
+  for (const byte of data) {
+    crc ^= byte << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x8005) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc;
+}
+
+/**
+ * Residual partitioning and Rice parameters for one subframe
+ */
+interface RicePlan {
+  /** Partition order (2^order partitions) */
+  partitionOrder: number;
+  /** Rice parameter per partition */
+  parameters: number[];
+  /** Whether 5-bit parameters (RICE2) are needed */
+  useRice2: boolean;
+  /** Total size of the residual section in bits */
+  bits: number;
+}
+
+/**
+ * Chooses the partition order and Rice parameters that minimize the residual size.
+ * @param residual Prediction residual (the first `order` entries are unused warm-up positions)
+ * @param order Predictor order
+ * @param blockSize Samples in the block
+ * @param maxPartitionOrder Highest partition order to try
+ */
+function planRice(residual: Float64Array, order: number, blockSize: number, maxPartitionOrder: number): RicePlan {
+  let best: RicePlan | null = null;
+
+  for (let partitionOrder = 0; partitionOrder <= maxPartitionOrder; partitionOrder++) {
+    const partitionCount = 1 << partitionOrder;
+    const partitionSize = blockSize / partitionCount;
+    // Partitions must divide the block evenly and the first one must extend past the warm-up samples
+    if (!Number.isInteger(partitionSize) || partitionSize <= order) break;
+
+    const parameters: number[] = [];
+    let bits = 2 + 4;
+    let useRice2 = false;
+    for (let partition = 0; partition < partitionCount; partition++) {
+      const start = partition === 0 ? order : partition * partitionSize;
+      const end = (partition + 1) * partitionSize;
+      let sum = 0;
+      for (let i = start; i < end; i++) {
+        const value = residual[i];
+        sum += value < 0 ? -2 * value - 1 : 2 * value;
+      }
+
+      // Estimate the best parameter around log2 of the mean, then compare neighbors
+      const count = end - start;
+      const mean = sum / count;
+      const estimate = mean > 1 ? Math.floor(Math.log2(mean)) : 0;
+      let bestParameter = 0;
+      let bestBits = Infinity;
+      for (let parameter = Math.max(0, estimate - 1); parameter <= Math.min(30, estimate + 1); parameter++) {
+        const partitionBits = count * (parameter + 1) + Math.floor(sum / 2 ** parameter);
+        if (partitionBits < bestBits) {
+          bestBits = partitionBits;
+          bestParameter = parameter;
+        }
+      }
+      if (bestParameter > 14) useRice2 = true;
+      parameters.push(bestParameter);
+      bits += bestBits;
+    }
+    bits += partitionCount * (useRice2 ? 5 : 4);
+
+    if (!best || bits < best.bits) {
+      best = { partitionOrder, parameters, useRice2, bits };
+    }
+  }
+
+  // Partition order 0 is always valid for blocks longer than the predictor order
+  return best as RicePlan;
+}
+
+/**
+ * Encoding plan for one subframe
+ */
+type SubframePlan =
+  | { type: 'constant'; bits: number; value: number }
+  | { type: 'verbatim'; bits: number }
+  | { type: 'fixed'; bits: number; order: number; residual: Float64Array; rice: RicePlan }
+  | {
+    type: 'lpc';
+    bits: number;
+    order: number;
+    coefficients: number[];
+    shift: number;
+    residual: Float64Array;
+    rice: RicePlan;
+  };
+
+/**
+ * Computes the residual of a fixed polynomial predictor.
+ */
+function getFixedResidual(samples: Int32Array, order: number): Float64Array {
+  const residual = new Float64Array(samples.length);
+  for (let i = order; i < samples.length; i++) {
+    switch (order) {
+      case 0:
+        residual[i] = samples[i];
+        break;
+      case 1:
+        residual[i] = samples[i] - samples[i - 1];
+        break;
+      case 2:
+        residual[i] = samples[i] - 2 * samples[i - 1] + samples[i - 2];
+        break;
+      case 3:
+        residual[i] = samples[i] - 3 * samples[i - 1] + 3 * samples[i - 2] - samples[i - 3];
+        break;
+      default:
+        residual[i] = samples[i] - 4 * samples[i - 1] + 6 * samples[i - 2] - 4 * samples[i - 3] + samples[i - 4];
+    }
+  }
+  return residual;
+}
+
+/**
+ * Computes LPC coefficients for every order up to maxOrder (Welch-windowed autocorrelation
+ * and Levinson-Durbin recursion).
+ * @returns Coefficients per order (index 0 = order 1) and the prediction error per order
+ */
+function getLpcCoefficients(samples: Int32Array, maxOrder: number): { coefficients: number[][]; errors: number[] } {
+  const n = samples.length;
+  const windowed = new Float64Array(n);
+  const half = (n - 1) / 2;
+  for (let i = 0; i < n; i++) {
+    const x = (i - half) / (half + 1);
+    windowed[i] = samples[i] * (1 - x * x);
+  }
+
+  const autocorrelation = new Float64Array(maxOrder + 1);
+  for (let lag = 0; lag <= maxOrder; lag++) {
+    let sum = 0;
+    for (let i = lag; i < n; i++) {
+      sum += windowed[i] * windowed[i - lag];
+    }
+    autocorrelation[lag] = sum;
+  }
+
+  const coefficients: number[][] = [];
+  const errors: number[] = [];
+  let error = autocorrelation[0];
+  let current: number[] = [];
+  for (let order = 1; order <= maxOrder && error > 0; order++) {
+    let reflection = -autocorrelation[order];
+    for (let j = 0; j < order - 1; j++) {
+      reflection -= current[j] * autocorrelation[order - 1 - j];
+    }
+    reflection /= error;
+
+    const next = new Array<number>(order);
+    next[order - 1] = reflection;
+    for (let j = 0; j < order - 1; j++) {
+      next[j] = current[j] + reflection * current[order - 2 - j];
+    }
+    current = next;
+    error *= 1 - reflection * reflection;
+
+    // Predictor form: x[i] ~ sum(c[j] * x[i - 1 - j])
+    coefficients.push(current.map((value) => -value));
+    errors.push(error);
+  }
+
+  return { coefficients, errors };
+}
+
+/**
+ * Quantizes LPC coefficients to LPC_PRECISION bits with a common shift.
+ */
+function quantizeLpcCoefficients(coefficients: number[]): { quantized: number[]; shift: number } | null {
+  const maxMagnitude = Math.max(...coefficients.map(Math.abs));
+  if (!(maxMagnitude > 0) || !Number.isFinite(maxMagnitude)) return null;
+
+  const exponent = Math.floor(Math.log2(maxMagnitude)) + 1;
+  const shift = Math.min(15, LPC_PRECISION - 1 - exponent);
+  if (shift < 0) return null;
+
+  const limit = 2 ** (LPC_PRECISION - 1);
+  const quantized: number[] = [];
+  let error = 0;
+  for (const coefficient of coefficients) {
+    // Carry the rounding error into the next coefficient
+    error += coefficient * 2 ** shift;
+    const value = Math.max(-limit, Math.min(limit - 1, Math.round(error)));
+    quantized.push(value);
+    error -= value;
+  }
+
+  return { quantized, shift };
+}
+
+/**
+ * Computes the residual of a quantized LPC predictor.
+ */
+function getLpcResidual(samples: Int32Array, coefficients: number[], shift: number): Float64Array {
+  const order = coefficients.length;
+  const divisor = 2 ** shift;
+  const residual = new Float64Array(samples.length);
+  for (let i = order; i < samples.length; i++) {
+    let prediction = 0;
+    for (let j = 0; j < order; j++) {
+      prediction += coefficients[j] * samples[i - 1 - j];
+    }
+    residual[i] = samples[i] - Math.floor(prediction / divisor);
+  }
+  return residual;
+}
+
+/**
+ * Picks the smallest encoding for one channel of a block.
+ * @param samples Channel samples of the block
+ * @param bitsPerSample Sample size of this subframe (side channels need one extra bit)
+ * @param params Compression level parameters
+ */
+function planSubframe(samples: Int32Array, bitsPerSample: number, params: FlacLevelParams): SubframePlan {
+  const blockSize = samples.length;
+  const header = 8;
+
+  if (samples.every((sample) => sample === samples[0])) {
+    return { type: 'constant', bits: header + bitsPerSample, value: samples[0] };
+  }
+
+  let best: SubframePlan = { type: 'verbatim', bits: header + blockSize * bitsPerSample };
+
+  // Fixed polynomial predictors
+  for (let order = 0; order <= Math.min(4, blockSize - 1); order++) {
+    const residual = getFixedResidual(samples, order);
+    const rice = planRice(residual, order, blockSize, params.maxPartitionOrder);
+    const bits = header + order * bitsPerSample + rice.bits;
+    if (bits < best.bits) {
+      best = { type: 'fixed', bits, order, residual, rice };
+    }
+  }
+
+  // Linear prediction: estimate the best order from the prediction error, then encode it
+  const maxLpcOrder = Math.min(params.maxLpcOrder, blockSize - 1);
+  if (maxLpcOrder > 0) {
+    const { coefficients, errors } = getLpcCoefficients(samples, maxLpcOrder);
+    let bestOrder = 0;
+    let bestEstimate = Infinity;
+    errors.forEach((error, index) => {
+      const order = index + 1;
+      const bitsPerResidual = Math.max(0, 0.5 * Math.log2(Math.max(error, 1e-12) / blockSize));
+      const estimate = blockSize * bitsPerResidual + order * (bitsPerSample + LPC_PRECISION);
+      if (estimate < bestEstimate) {
+        bestEstimate = estimate;
+        bestOrder = order;
+      }
+    });
+
+    const quantization = bestOrder > 0 ? quantizeLpcCoefficients(coefficients[bestOrder - 1]) : null;
+    if (quantization) {
+      const residual = getLpcResidual(samples, quantization.quantized, quantization.shift);
+      const rice = planRice(residual, bestOrder, blockSize, params.maxPartitionOrder);
+      const bits = header + bestOrder * bitsPerSample + 4 + 5 + bestOrder * LPC_PRECISION + rice.bits;
+      if (bits < best.bits) {
+        best = {
+          type: 'lpc',
+          bits,
+          order: bestOrder,
+          coefficients: quantization.quantized,
+          shift: quantization.shift,
+          residual,
+          rice,
+        };
+      }
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Writes the Rice-coded residual section.
+ */
+function writeResidual(writer: BitWriter, residual: Float64Array, order: number, rice: RicePlan): void {
+  writer.writeBits(rice.useRice2 ? 1 : 0, 2);
+  writer.writeBits(rice.partitionOrder, 4);
+  const partitionSize = residual.length >> rice.partitionOrder;
+  rice.parameters.forEach((parameter, partition) => {
+    writer.writeBits(parameter, rice.useRice2 ? 5 : 4);
+    const start = partition === 0 ? order : partition * partitionSize;
+    const end = (partition + 1) * partitionSize;
+    for (let i = start; i < end; i++) {
+      writer.writeRice(residual[i], parameter);
+    }
+  });
+}
+
+/**
+ * Writes one subframe according to its plan.
+ */
+function writeSubframe(writer: BitWriter, samples: Int32Array, bitsPerSample: number, plan: SubframePlan): void {
+  switch (plan.type) {
+    case 'constant':
+      writer.writeBits(0b00000000, 8);
+      writer.writeSigned(plan.value, bitsPerSample);
+      break;
+    case 'verbatim':
+      writer.writeBits(0b00000010, 8);
+      for (const sample of samples) {
+        writer.writeSigned(sample, bitsPerSample);
+      }
+      break;
+    case 'fixed':
+      writer.writeBits(0b00010000 | (plan.order << 1), 8);
+      for (let i = 0; i < plan.order; i++) {
+        writer.writeSigned(samples[i], bitsPerSample);
+      }
+      writeResidual(writer, plan.residual, plan.order, plan.rice);
+      break;
+    case 'lpc':
+      writer.writeBits(0b01000000 | ((plan.order - 1) << 1), 8);
+      for (let i = 0; i < plan.order; i++) {
+        writer.writeSigned(samples[i], bitsPerSample);
+      }
+      writer.writeBits(LPC_PRECISION - 1, 4);
+      writer.writeSigned(plan.shift, 5);
+      for (const coefficient of plan.coefficients) {
+        writer.writeSigned(coefficient, LPC_PRECISION);
+      }
+      writeResidual(writer, plan.residual, plan.order, plan.rice);
+      break;
+  }
+}
+
+/**
+ * Writes a frame number as a UTF-8 style variable-length integer.
+ */
+function writeFrameNumber(writer: BitWriter, value: number): void {
+  if (value < 0x80) {
+    writer.writeBits(value, 8);
+    return;
+  }
+  // Number of continuation bytes carrying 6 bits each
+  let continuationBytes = 1;
+  while (value >= 2 ** (6 * continuationBytes + (6 - continuationBytes))) {
+    continuationBytes++;
+  }
+  const leadingBits = 6 - continuationBytes;
+  const prefix = (0xff << (7 - continuationBytes)) & 0xff;
+  writer.writeBits(prefix | (Math.floor(value / 2 ** (6 * continuationBytes)) & ((1 << leadingBits) - 1)), 8);
+  for (let i = continuationBytes - 1; i >= 0; i--) {
+    writer.writeBits(0x80 | (Math.floor(value / 2 ** (6 * i)) & 0x3f), 8);
+  }
+}
+
+/**
+ * Writes one frame (header, subframes, padding and CRC-16).
+ */
+function writeFrame(
+  writer: BitWriter,
+  channels: Int32Array[],
+  frameNumber: number,
+  options: FlacStreamOptions,
+  params: FlacLevelParams
+): void {
+  const blockSize = channels[0].length;
+  const bitsPerSample = options.bitsPerSample;
+
+  // Choose the channel assignment with the smallest subframes
+  let assignment = channels.length - 1;
+  let subframes = channels.map((samples) => ({ samples, bitsPerSample }));
+  let plans = subframes.map((subframe) => planSubframe(subframe.samples, subframe.bitsPerSample, params));
+
+  if (channels.length === 2 && params.stereoDecorrelation) {
+    const [left, right] = channels;
+    const mid = new Int32Array(blockSize);
+    const side = new Int32Array(blockSize);
+    for (let i = 0; i < blockSize; i++) {
+      mid[i] = (left[i] + right[i]) >> 1;
+      side[i] = left[i] - right[i];
+    }
+    const midPlan = planSubframe(mid, bitsPerSample, params);
+    const sidePlan = planSubframe(side, bitsPerSample + 1, params);
+    const [leftPlan, rightPlan] = plans;
+
+    const candidates = [
+      { assignment, bits: leftPlan.bits + rightPlan.bits },
+      { assignment: CHANNEL_LEFT_SIDE, bits: leftPlan.bits + sidePlan.bits },
+      { assignment: CHANNEL_RIGHT_SIDE, bits: sidePlan.bits + rightPlan.bits },
+      { assignment: CHANNEL_MID_SIDE, bits: midPlan.bits + sidePlan.bits },
+    ];
+    const best = candidates.reduce((a, b) => (b.bits < a.bits ? b : a));
+    assignment = best.assignment;
+
+    const sideSubframe = { samples: side, bitsPerSample: bitsPerSample + 1 };
+    if (assignment === CHANNEL_LEFT_SIDE) {
+      subframes = [subframes[0], sideSubframe];
+      plans = [leftPlan, sidePlan];
+    } else if (assignment === CHANNEL_RIGHT_SIDE) {
+      subframes = [sideSubframe, subframes[1]];
+      plans = [sidePlan, rightPlan];
+    } else if (assignment === CHANNEL_MID_SIDE) {
+      subframes = [{ samples: mid, bitsPerSample }, sideSubframe];
+      plans = [midPlan, sidePlan];
+    }
+  }
+
+  // Frame header
+  const frameStart = writer.length;
+  const sampleRateCode = SAMPLE_RATE_CODES[options.sampleRate]
+    ?? (options.sampleRate % 10 === 0 && options.sampleRate / 10 < 0x10000 ? 0b1110 : 0b1101);
+  writer.writeBits(0b11111111111110, 14); // Sync code
+  writer.writeBits(0, 1); // Reserved
+  writer.writeBits(0, 1); // Fixed block size
+  writer.writeBits(0b0111, 4); // Block size stored as 16-bit value - 1
+  writer.writeBits(sampleRateCode, 4);
+  writer.writeBits(assignment, 4);
+  writer.writeBits(SAMPLE_SIZE_CODES[bitsPerSample] ?? 0, 3);
+  writer.writeBits(0, 1); // Reserved
+  writeFrameNumber(writer, frameNumber);
+  writer.writeBits(blockSize - 1, 16);
+  if (sampleRateCode === 0b1110) {
+    writer.writeBits(options.sampleRate / 10, 16);
+  } else if (sampleRateCode === 0b1101) {
+    writer.writeBits(options.sampleRate, 16);
+  }
+  writer.writeBits(crc8(writer.slice(frameStart)), 8);
+
+  // Subframes
+  subframes.forEach((subframe, index) => {
+    writeSubframe(writer, subframe.samples, subframe.bitsPerSample, plans[index]);
+  });
+
+  // Frame footer
+  writer.alignToByte();
+  writer.writeBits(crc16(writer.slice(frameStart)), 16);
+}
+
+/**
+ * Builds the Vorbis comment block contents.
+ */
+function createVorbisComment(comments: Array<[string, string]>): Uint8Array {
+  const encoder = new TextEncoder();
+  const vendor = encoder.encode(VENDOR_STRING);
+  const entries = comments.map(([field, value]) => encoder.encode(`${field.toUpperCase()}=${value}`));
+  const size = 4 + vendor.length + 4 + entries.reduce((total, entry) => total + 4 + entry.length, 0);
+
+  const data = new Uint8Array(size);
+  const view = new DataView(data.buffer);
+  view.setUint32(0, vendor.length, true);
+  data.set(vendor, 4);
+  let offset = 4 + vendor.length;
+  view.setUint32(offset, entries.length, true);
+  offset += 4;
+  for (const entry of entries) {
+    view.setUint32(offset, entry.length, true);
+    data.set(entry, offset + 4);
+    offset += 4 + entry.length;
+  }
+
+  return data;
+}
+
+/**
+ * Encodes integer PCM channels as a FLAC file.
+ * @param channels One array per channel, all the same length, holding signed samples of `bitsPerSample` bits
+ * @param options Sample rate, sample size, compression level and Vorbis comments
+ * @returns Complete FLAC file (fLaC marker, STREAMINFO, VORBIS_COMMENT and audio frames)
+ */
+export function encodeFlacStream(channels: Int32Array[], options: FlacStreamOptions): Uint8Array<ArrayBuffer> {
+  const level = Math.max(0, Math.min(8, Math.round(options.compressionLevel ?? 5)));
+  const params = LEVEL_PARAMS[level];
+  const totalSamples = channels[0]?.length ?? 0;
+  const comments = options.comments ?? [];
+
+  const writer = new BitWriter();
+  writer.writeBits(0x664c6143, 32); // "fLaC"
+
+  // STREAMINFO (frame sizes are filled in after encoding)
+  writer.writeBits(comments.length > 0 ? 0 : 1, 1); // Last metadata block
+  writer.writeBits(0, 7);
+  writer.writeBits(34, 24);
+  const blockSize = Math.min(params.blockSize, Math.max(16, totalSamples));
+  writer.writeBits(blockSize, 16); // Minimum block size
+  writer.writeBits(blockSize, 16); // Maximum block size
+  const frameSizeOffset = writer.length;
+  writer.writeBits(0, 24); // Minimum frame size
+  writer.writeBits(0, 24); // Maximum frame size
+  writer.writeBits(options.sampleRate, 20);
+  writer.writeBits(channels.length - 1, 3);
+  writer.writeBits(options.bitsPerSample - 1, 5);
+  writer.writeBits(Math.floor(totalSamples / 2 ** 32), 4);
+  writer.writeBits(totalSamples >>> 0, 32);
+  const md5Offset = writer.length;
+  writer.writeBytes(new Uint8Array(16)); // MD5 signature of the samples (filled in after encoding)
+
+  // VORBIS_COMMENT
+  if (comments.length > 0) {
+    const vorbisComment = createVorbisComment(comments);
+    writer.writeBits(1, 1);
+    writer.writeBits(4, 7);
+    writer.writeBits(vorbisComment.length, 24);
+    writer.writeBytes(vorbisComment);
+  }
+
+  // Audio frames
+  let minFrameSize = Infinity;
+  let maxFrameSize = 0;
+  const md5 = new Md5();
+  for (let start = 0, frameNumber = 0; start < totalSamples; start += blockSize, frameNumber++) {
+    const frameStart = writer.length;
+    const end = Math.min(totalSamples, start + blockSize);
+    const blockChannels = channels.map((channel) => channel.subarray(start, end));
+    md5.update(getSampleBytes(blockChannels, options.bitsPerSample));
+    writeFrame(writer, blockChannels, frameNumber, options, params);
+    const frameSize = writer.length - frameStart;
+    minFrameSize = Math.min(minFrameSize, frameSize);
+    maxFrameSize = Math.max(maxFrameSize, frameSize);
+  }
+
+  if (maxFrameSize > 0) {
+    [minFrameSize, maxFrameSize].forEach((size, index) => {
+      const offset = frameSizeOffset + index * 3;
+      writer.setByte(offset, (size >> 16) & 0xff);
+      writer.setByte(offset + 1, (size >> 8) & 0xff);
+      writer.setByte(offset + 2, size & 0xff);
+    });
+  }
+
+  md5.digest().forEach((byte, index) => writer.setByte(md5Offset + index, byte));
+
+  return writer.toBytes();
+}
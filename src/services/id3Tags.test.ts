@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { createId3v2Tag } from './id3Tags';
+
+interface Id3Frame {
+  id: string;
+  encoding: number;
+  value: string;
+}
+
+/**
+ * Decode a synchsafe integer (7 bits per byte)
+ */
+function readSynchsafe(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] << 21) | (bytes[offset + 1] << 14) | (bytes[offset + 2] << 7) | bytes[offset + 3];
+}
+
+/**
+ * Split an ID3v2.3 tag into its text frames
+ */
+function readFrames(tag: Uint8Array): Id3Frame[] {
+  const view = new DataView(tag.buffer, tag.byteOffset, tag.byteLength);
+  const frames: Id3Frame[] = [];
+  let offset = 10;
+  while (offset < tag.length) {
+    const id = new TextDecoder().decode(tag.subarray(offset, offset + 4));
+    const size = view.getUint32(offset + 4, false);
+    const data = tag.subarray(offset + 10, offset + 10 + size);
+    const encoding = data[0];
+    const value = encoding === 0
+      ? new TextDecoder('latin1').decode(data.subarray(1))
+      : new TextDecoder('utf-16le').decode(data.subarray(3));
+    frames.push({ id, encoding, value });
+    offset += 10 + size;
+  }
+  return frames;
+}
+
+describe('createId3v2Tag', () => {
+  it('writes an ID3v2.3 header with the synchsafe size of the frames', () => {
+    const tag = createId3v2Tag({ title: 'Kick', album: 'drums', track: 3, trackCount: 12, bpm: 127.6 });
+
+    expect([...tag.subarray(0, 6)]).toEqual([0x49, 0x44, 0x33, 0x03, 0x00, 0x00]);
+    expect(readSynchsafe(tag, 6)).toBe(tag.length - 10);
+    expect(readFrames(tag)).toEqual([
+      { id: 'TIT2', encoding: 0, value: 'Kick' },
+      { id: 'TALB', encoding: 0, value: 'drums' },
+      { id: 'TRCK', encoding: 0, value: '3/12' },
+      { id: 'TBPM', encoding: 0, value: '128' },
+    ]);
+  });
+
+  it('keeps every size byte below 0x80 for tags larger than 127 bytes', () => {
+    const tag = createId3v2Tag({ title: 'x'.repeat(300) });
+
+    expect([...tag.subarray(6, 10)].every((byte) => byte < 0x80)).toBe(true);
+    expect(readSynchsafe(tag, 6)).toBe(10 + 1 + 300);
+  });
+
+  it.each([
+    ['ASCII', 'Snare 2', 0],
+    ['Latin-1 accents', 'Café Größe', 0],
+    ['Cyrillic', 'Бочка', 1],
+    ['CJK', 'ドラム', 1],
+    ['emoji', 'Hit 🥁', 1],
+  ])('encodes %s names with text encoding %i', (_script, title, expectedEncoding) => {
+    const [frame] = readFrames(createId3v2Tag({ title }));
+    expect(frame).toEqual({ id: 'TIT2', encoding: expectedEncoding, value: title });
+  });
+
+  it('writes a little-endian BOM before UTF-16 text', () => {
+    const tag = createId3v2Tag({ title: 'Ж' });
+    // Header, frame header, encoding byte, then the BOM
+    expect([...tag.subarray(20, 23)]).toEqual([0x01, 0xff, 0xfe]);
+  });
+
+  it('writes a track number without a total and omits empty fields', () => {
+    expect(readFrames(createId3v2Tag({ title: '', track: 7, bpm: null }))).toEqual([
+      { id: 'TRCK', encoding: 0, value: '7' },
+    ]);
+    expect(createId3v2Tag({})).toHaveLength(0);
+  });
+});
@@ -0,0 +1,79 @@
+// ID3 tag utilities
+// Writes ID3v2.3 tags (title, album, track number, BPM) for exported MP3 files
+
+import type { AudioTags } from '../types/audio';
+
+/**
+ * Encodes a text frame value, using ISO-8859-1 when possible and UTF-16 with BOM otherwise.
+ */
+function encodeTextValue(text: string): Uint8Array {
+  const isLatin1 = [...text].every((char) => char.charCodeAt(0) <= 0xff);
+  if (isLatin1) {
+    const bytes = new Uint8Array(1 + text.length);
+    bytes[0] = 0x00; // ISO-8859-1
+    for (let i = 0; i < text.length; i++) {
+      bytes[1 + i] = text.charCodeAt(i);
+    }
+    return bytes;
+  }
+
+  const bytes = new Uint8Array(3 + text.length * 2);
+  const view = new DataView(bytes.buffer);
+  bytes[0] = 0x01; // UTF-16 with BOM
+  view.setUint16(1, 0xfeff, true);
+  for (let i = 0; i < text.length; i++) {
+    view.setUint16(3 + i * 2, text.charCodeAt(i), true);
+  }
+  return bytes;
+}
+
+/**
+ * Builds an ID3v2.3 text frame.
+ */
+function createTextFrame(id: string, text: string): Uint8Array {
+  const value = encodeTextValue(text);
+  const frame = new Uint8Array(10 + value.length);
+  const view = new DataView(frame.buffer);
+  for (let i = 0; i < 4; i++) {
+    frame[i] = id.charCodeAt(i);
+  }
+  view.setUint32(4, value.length, false); // Frame size (plain 32-bit in v2.3)
+  view.setUint16(8, 0, false); // Flags
+  frame.set(value, 10);
+  return frame;
+}
+
+/**
+ * Builds an ID3v2.3 tag to prepend to an MP3 stream.
+ * Empty fields are omitted.
+ * @param tags Metadata to write
+ * @returns The complete tag, or an empty array if there is nothing to write
+ */
+export function createId3v2Tag(tags: AudioTags): Uint8Array<ArrayBuffer> {
+  const frames: Uint8Array[] = [];
+  if (tags.title) frames.push(createTextFrame('TIT2', tags.title));
+  if (tags.album) frames.push(createTextFrame('TALB', tags.album));
+  if (tags.track !== undefined) {
+    frames.push(createTextFrame('TRCK', tags.trackCount ? `${tags.track}/${tags.trackCount}` : String(tags.track)));
+  }
+  if (tags.bpm) frames.push(createTextFrame('TBPM', String(Math.round(tags.bpm))));
+
+  if (frames.length === 0) return new Uint8Array(0);
+
+  const framesSize = frames.reduce((total, frame) => total + frame.length, 0);
+  const tag = new Uint8Array(10 + framesSize);
+  tag.set([0x49, 0x44, 0x33, 0x03, 0x00, 0x00]); // "ID3", version 2.3.0, no flags
+  // Tag size is synchsafe (7 bits per byte)
+  tag[6] = (framesSize >> 21) & 0x7f;
+  tag[7] = (framesSize >> 14) & 0x7f;
+  tag[8] = (framesSize >> 7) & 0x7f;
+  tag[9] = framesSize & 0x7f;
+
+  let offset = 10;
+  for (const frame of frames) {
+    tag.set(frame, offset);
+    offset += frame.length;
+  }
+
+  return tag;
+}
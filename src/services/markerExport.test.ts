@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import type { Marker, MarkerDraft } from '../types/marker';
+import type { MarkerExportFormat } from '../types/markerFile';
+import { getSections } from '../utils/sections';
+import { escapeCsvField, exportMarkerFile, getMarkerExportFileName, toSamples } from './markerExport';
+import { importMarkerFile } from './markerImport';
+
+const DURATION = 10;
+const SOURCE = { fileName: 'drums.wav', sampleRate: 44100, duration: DURATION };
+const TEMPO = { bpm: null, beatsPerBar: 4 };
+
+/** Two enabled sections, a gap, and a last section ending before the end of the file */
+const MARKERS: Marker[] = [
+  { id: 'a', time: 0.5, name: 'Intro', enabled: true },
+  { id: 'b', time: 2, name: 'Gap', enabled: false },
+  { id: 'c', time: 3.25, name: 'Verse, part "A"', enabled: true },
+  { id: 'd', time: 5.5, name: 'Outro', enabled: true },
+  { id: 'e', time: 7.77, name: 'Gap', enabled: false },
+];
+
+/**
+ * Export the test markers and import the result again
+ */
+async function roundTrip(format: 'cue' | 'audacity' | 'reaper'): Promise<MarkerDraft[]> {
+  const blob = exportMarkerFile(getSections(MARKERS), format, SOURCE);
+  const fileName = getMarkerExportFileName(SOURCE.fileName, format);
+  return importMarkerFile(fileName, await blob.text(), DURATION, TEMPO).drafts;
+}
+
+describe('marker export round trip', () => {
+  it.each<['audacity' | 'reaper', number]>([
+    ['audacity', 1e-6],
+    ['reaper', 1e-3],
+  ])('restores enabled sections and gaps from %s files', async (format, tolerance) => {
+    const drafts = await roundTrip(format);
+
+    expect(drafts.map(({ name, enabled }) => ({ name, enabled }))).toEqual(
+      MARKERS.map(({ name, enabled }) => ({ name, enabled }))
+    );
+    drafts.forEach((draft, index) => {
+      expect(Math.abs(draft.time - MARKERS[index].time)).toBeLessThanOrEqual(tolerance);
+    });
+  });
+
+  it('restores every boundary from a CUE sheet, including the end of the last section', async () => {
+    const drafts = await roundTrip('cue');
+
+    // CUE times are rounded to 1/75 s frames
+    expect(drafts).toHaveLength(MARKERS.length);
+    drafts.forEach((draft, index) => {
+      expect(Math.abs(draft.time - MARKERS[index].time)).toBeLessThanOrEqual(0.5 / 75 + 1e-9);
+    });
+    expect(drafts.map((draft) => draft.name)).toEqual(['Intro', 'Gap', "Verse, part 'A'", 'Outro', 'Gap']);
+    expect(drafts[drafts.length - 1].enabled).toBe(false);
+  });
+
+  it('omits the closing CUE track when the last section ends at the end of the file', async () => {
+    const markers: Marker[] = [
+      { id: 'a', time: 0, name: 'One' },
+      { id: 'b', time: DURATION, name: 'End' },
+    ];
+    const text = await exportMarkerFile(getSections(markers), 'cue', SOURCE).text();
+    expect(text.match(/TRACK/g)).toHaveLength(1);
+    expect(text).not.toContain('REM SECTION END');
+  });
+});
+
+describe('exportMarkerFile', () => {
+  it.each<[MarkerExportFormat, string]>([
+    ['csv', '3,"Verse, part ""A""",true,3.250000,5.500000,2.250000,143325,242550'],
+    ['reaper', 'R2,"Verse, part ""A""",3.250,5.500,2.250'],
+    ['audacity', '3.250000\t5.500000\tVerse, part "A"'],
+  ])('writes the %s row for a section', async (format, expectedRow) => {
+    const text = await exportMarkerFile(getSections(MARKERS), format, SOURCE).text();
+    expect(text.split(/\r?\n/)).toContain(expectedRow);
+  });
+
+  it('writes sample positions with the encoders\' rounding to JSON', async () => {
+    const json = JSON.parse(await exportMarkerFile(getSections(MARKERS), 'json', SOURCE).text());
+    expect(json.sections[3]).toMatchObject({ name: 'Outro', startSample: 242550, endSample: 342657 });
+  });
+
+  it('rejects exports without sections', () => {
+    const disabledOnly = getSections([
+      { id: 'a', time: 0, name: 'Off', enabled: false },
+      { id: 'b', time: 1, name: 'Gap', enabled: false },
+    ]);
+    expect(() => exportMarkerFile(disabledOnly, 'audacity', SOURCE)).toThrow('No enabled sections to export');
+    expect(() => exportMarkerFile([], 'cue', SOURCE)).toThrow('No sections to export');
+  });
+});
+
+describe('escapeCsvField', () => {
+  it.each([
+    ['plain', 'plain'],
+    ['a,b', '"a,b"'],
+    ['say "hi"', '"say ""hi"""'],
+    ['two\nlines', '"two\nlines"'],
+    [42, '42'],
+  ])('escapes %j', (value, expected) => {
+    expect(escapeCsvField(value)).toBe(expected);
+  });
+});
+
+describe('toSamples', () => {
+  it('rounds to the nearest sample', () => {
+    expect(toSamples(7.77, 44100)).toBe(342657);
+    expect(toSamples(1 / 3, 3)).toBe(1);
+  });
+});
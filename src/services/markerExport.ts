@@ -0,0 +1,222 @@
+// Marker export utilities
+// Writes sections as marker lists for other tools (CUE sheets, Audacity labels, REAPER regions, CSV, JSON)
+
+import type { MarkerExportFormat } from '../types/markerFile';
+import type { Section } from '../types/section';
+import { getBaseName } from '../utils/fileNames';
+
+/** CUE sheet times are mm:ss:ff with 75 frames per second */
+const CUE_FRAMES_PER_SECOND = 75;
+
+/** Remark marking a CUE track that only closes the previous section */
+export const CUE_END_TRACK_REMARK = 'REM SECTION END';
+
+/**
+ * File extension and MIME type per export format
+ */
+export const MARKER_EXPORT_FILE_TYPES: Record<MarkerExportFormat, { extension: string; mimeType: string }> = {
+  cue: { extension: '.cue', mimeType: 'application/x-cue' },
+  audacity: { extension: '.txt', mimeType: 'text/plain' },
+  reaper: { extension: '.csv', mimeType: 'text/csv' },
+  csv: { extension: '.csv', mimeType: 'text/csv' },
+  json: { extension: '.json', mimeType: 'application/json' },
+};
+
+/**
+ * Source audio details written to marker lists
+ */
+export interface MarkerExportSource {
+  /** Name of the source audio file */
+  fileName: string;
+  /** Sample rate of the source audio in Hz (for sample positions) */
+  sampleRate: number;
+  /** Duration of the source audio in seconds (lets CUE sheets close a last section that ends early) */
+  duration?: number;
+}
+
+/**
+ * Converts seconds to a sample index, matching the rounding used by the audio encoders.
+ * @param seconds Time in seconds
+ * @param sampleRate Sample rate in Hz
+ * @returns Sample index
+ */
+export function toSamples(seconds: number, sampleRate: number): number {
+  return Math.round(seconds * sampleRate);
+}
+
+/**
+ * Formats seconds as a CUE sheet time (mm:ss:ff).
+ */
+function formatCueTime(seconds: number): string {
+  const totalFrames = Math.round(seconds * CUE_FRAMES_PER_SECOND);
+  const minutes = Math.floor(totalFrames / (60 * CUE_FRAMES_PER_SECOND));
+  const secs = Math.floor(totalFrames / CUE_FRAMES_PER_SECOND) % 60;
+  const frames = totalFrames % CUE_FRAMES_PER_SECOND;
+  return [minutes, secs, frames].map((value) => String(value).padStart(2, '0')).join(':');
+}
+
+/**
+ * Quotes a CSV field if it contains separators, quotes or line breaks.
+ * @param value Field value
+ * @returns The field as CSV text
+ */
+export function escapeCsvField(value: string | number | boolean): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Writes sections as a CUE sheet (one track per section, INDEX 01 at the section start).
+ * CUE tracks run until the next track, so a last section ending before the end of the file
+ * is followed by a closing track marked with CUE_END_TRACK_REMARK.
+ */
+function writeCueSheet(sections: Section[], source: MarkerExportSource): string {
+  const extension = source.fileName.split('.').pop()?.toUpperCase();
+  const fileType = extension === 'MP3' ? 'MP3' : extension === 'AIFF' || extension === 'AIF' ? 'AIFF' : 'WAVE';
+  const lines = [`FILE "${source.fileName.replace(/"/g, "'")}" ${fileType}`];
+
+  sections.forEach((section, index) => {
+    lines.push(`  TRACK ${String(index + 1).padStart(2, '0')} AUDIO`);
+    lines.push(`    TITLE "${section.name.replace(/"/g, "'")}"`);
+    lines.push(`    INDEX 01 ${formatCueTime(section.startTime)}`);
+  });
+
+  const endTime = sections[sections.length - 1].endTime;
+  if (source.duration === undefined || endTime < source.duration) {
+    lines.push(`  TRACK ${String(sections.length + 1).padStart(2, '0')} AUDIO`);
+    lines.push('    TITLE "End"');
+    lines.push(`    ${CUE_END_TRACK_REMARK}`);
+    lines.push(`    INDEX 01 ${formatCueTime(endTime)}`);
+  }
+
+  return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * Writes sections as an Audacity label track (tab-separated start, end, label).
+ */
+function writeAudacityLabels(sections: Section[]): string {
+  return sections
+    .map((section) => `${section.startTime.toFixed(6)}\t${section.endTime.toFixed(6)}\t${section.name}`)
+    .join('\n') + '\n';
+}
+
+/**
+ * Writes sections as a REAPER Region/Marker Manager CSV (times in seconds).
+ */
+function writeReaperRegions(sections: Section[]): string {
+  const rows = [['#', 'Name', 'Start', 'End', 'Length']];
+  sections.forEach((section, index) => {
+    rows.push([
+      `R${index + 1}`,
+      section.name,
+      section.startTime.toFixed(3),
+      section.endTime.toFixed(3),
+      (section.endTime - section.startTime).toFixed(3),
+    ]);
+  });
+  return rows.map((row) => row.map(escapeCsvField).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Builds the plain section table shared by the CSV and JSON exports.
+ */
+function getSectionRows(sections: Section[], sampleRate: number) {
+  return sections.map((section, index) => ({
+    index: index + 1,
+    name: section.name,
+    enabled: section.enabled,
+    startSeconds: section.startTime,
+    endSeconds: section.endTime,
+    durationSeconds: section.endTime - section.startTime,
+    startSample: toSamples(section.startTime, sampleRate),
+    endSample: toSamples(section.endTime, sampleRate),
+  }));
+}
+
+/**
+ * Writes sections as a plain CSV table.
+ */
+function writeCsv(sections: Section[], source: MarkerExportSource): string {
+  const rows = getSectionRows(sections, source.sampleRate);
+  const header = ['index', 'name', 'enabled', 'start_seconds', 'end_seconds', 'duration_seconds', 'start_sample', 'end_sample'];
+  const lines = rows.map((row) => [
+    row.index,
+    row.name,
+    row.enabled,
+    row.startSeconds.toFixed(6),
+    row.endSeconds.toFixed(6),
+    row.durationSeconds.toFixed(6),
+    row.startSample,
+    row.endSample,
+  ].map(escapeCsvField).join(','));
+  return [header.join(','), ...lines].join('\r\n') + '\r\n';
+}
+
+/**
+ * Writes sections as JSON.
+ */
+function writeJson(sections: Section[], source: MarkerExportSource): string {
+  return JSON.stringify({
+    source: source.fileName,
+    sampleRate: source.sampleRate,
+    sections: getSectionRows(sections, source.sampleRate),
+  }, null, 2);
+}
+
+/**
+ * Exports sections as a marker list file.
+ * Audacity and REAPER exports only contain enabled sections (disabled sections are gaps between regions).
+ * CUE tracks have no end time, so CUE sheets keep every section (and close the last one) to preserve the boundaries;
+ * CSV and JSON contain every section together with its enabled flag.
+ *
+ * @param sections Sections to export (from getSections)
+ * @param format Target format
+ * @param source Source audio details
+ * @returns Blob containing the marker list
+ * @throws Error if there are no sections to export
+ */
+export function exportMarkerFile(
+  sections: Section[],
+  format: MarkerExportFormat,
+  source: MarkerExportSource
+): Blob {
+  const includeDisabled = format === 'cue' || format === 'csv' || format === 'json';
+  const exported = includeDisabled ? sections : sections.filter((section) => section.enabled);
+  if (exported.length === 0) {
+    throw new Error(includeDisabled ? 'No sections to export' : 'No enabled sections to export');
+  }
+
+  let text: string;
+  switch (format) {
+    case 'cue':
+      text = writeCueSheet(exported, source);
+      break;
+    case 'audacity':
+      text = writeAudacityLabels(exported);
+      break;
+    case 'reaper':
+      text = writeReaperRegions(exported);
+      break;
+    case 'csv':
+      text = writeCsv(exported, source);
+      break;
+    case 'json':
+      text = writeJson(exported, source);
+      break;
+  }
+
+  return new Blob([text], { type: MARKER_EXPORT_FILE_TYPES[format].mimeType });
+}
+
+/**
+ * Builds the file name for a marker list export.
+ * @param sourceFileName Name of the source audio file
+ * @param format Export format
+ * @returns File name with the format's extension
+ */
+export function getMarkerExportFileName(sourceFileName: string, format: MarkerExportFormat): string {
+  const baseName = getBaseName(sourceFileName);
+  const suffix = format === 'audacity' ? '-labels' : format === 'reaper' ? '-regions' : '';
+  return `${baseName}${suffix}${MARKER_EXPORT_FILE_TYPES[format].extension}`;
+}
@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest';
+import { MarkerImportError } from '../types/markerFile';
+import type { ImportedLabel, MarkerImportErrorType } from '../types/markerFile';
+import {
+  detectMarkerFileFormat,
+  importMarkerFile,
+  parseAudacityLabels,
+  parseCueSheet,
+  parseReaperCsv,
+} from './markerImport';
+
+const NO_TEMPO = { bpm: null, beatsPerBar: 4 };
+
+/**
+ * Build a single-track CUE sheet around one INDEX line
+ */
+function cueWithIndex(indexLine: string): string {
+  return ['FILE "loop.wav" WAVE', '  TRACK 01 AUDIO', '    TITLE "One"', `    ${indexLine}`].join('\n');
+}
+
+/**
+ * Run a parser and return the type of the MarkerImportError it throws
+ */
+function getErrorType(parse: () => unknown): MarkerImportErrorType | null {
+  try {
+    parse();
+  } catch (err) {
+    if (err instanceof MarkerImportError) return err.type;
+    throw err;
+  }
+  return null;
+}
+
+describe('parseCueSheet', () => {
+  it.each([
+    ['INDEX 01 00:00:00', 0],
+    ['INDEX 01 00:01:00', 1],
+    ['INDEX 01 00:01:37', 1 + 37 / 75],
+    ['INDEX 01 01:02:74', 62 + 74 / 75],
+    ['index 01 10:00:15', 600.2],
+  ])('reads %s as mm:ss:ff with 75 frames per second', (indexLine, expected) => {
+    const [label] = parseCueSheet(cueWithIndex(indexLine));
+    expect(label.start).toBeCloseTo(expected, 9);
+  });
+
+  it('uses INDEX 01 and ignores pregap INDEX 00', () => {
+    const labels = parseCueSheet([
+      'FILE "loop.wav" WAVE',
+      '  TRACK 01 AUDIO',
+      '    INDEX 01 00:00:00',
+      '  TRACK 02 AUDIO',
+      '    TITLE "Two"',
+      '    INDEX 00 00:01:00',
+      '    INDEX 01 00:02:00',
+    ].join('\r\n'));
+    expect(labels).toEqual([
+      { start: 0, name: '' },
+      { start: 2, name: 'Two' },
+    ]);
+  });
+
+  it('keeps album titles out of track names', () => {
+    const labels = parseCueSheet(['TITLE "Album"', 'FILE "a.wav" WAVE', 'TRACK 01 AUDIO', 'INDEX 01 00:00:00'].join('\n'));
+    expect(labels).toEqual([{ start: 0, name: '' }]);
+  });
+
+  it('treats a REM SECTION END track as the end of the previous track', () => {
+    const labels = parseCueSheet([
+      'FILE "a.wav" WAVE',
+      'TRACK 01 AUDIO',
+      'TITLE "Hit"',
+      'INDEX 01 00:01:00',
+      'TRACK 02 AUDIO',
+      'TITLE "End"',
+      'REM SECTION END',
+      'INDEX 01 00:03:00',
+    ].join('\n'));
+    expect(labels).toEqual([{ start: 1, end: 3, name: 'Hit' }]);
+  });
+});
+
+describe('parseAudacityLabels', () => {
+  it.each<[string, ImportedLabel]>([
+    ['1.5\t2.5\tIntro', { start: 1.5, end: 2.5, name: 'Intro' }],
+    ['3.000000\t3.000000\tHit', { start: 3, end: undefined, name: 'Hit' }],
+    ['4\t', { start: 4, end: undefined, name: '' }],
+    ['1,25\t2,75\tComma decimals', { start: 1.25, end: 2.75, name: 'Comma decimals' }],
+    ['0\t1\tTabs\tin name', { start: 0, end: 1, name: 'Tabs\tin name' }],
+  ])('parses %j', (line, expected) => {
+    expect(parseAudacityLabels(line)).toEqual([expected]);
+  });
+
+  it('skips spectral selection lines', () => {
+    const labels = parseAudacityLabels('1\t2\tBand\n\\\t100.0\t2000.0\n');
+    expect(labels).toEqual([{ start: 1, end: 2, name: 'Band' }]);
+  });
+});
+
+describe('parseReaperCsv', () => {
+  it('reads markers and regions using the header columns', () => {
+    const labels = parseReaperCsv([
+      '#,Name,Start,End,Length',
+      'M1,Downbeat,0:01.000,,',
+      'R1,"Verse, part ""A""",0:02.500,0:04.000,0:01.500',
+    ].join('\n'), NO_TEMPO);
+    expect(labels).toEqual([
+      { start: 1, end: undefined, name: 'Downbeat' },
+      { start: 2.5, end: 4, name: 'Verse, part "A"' },
+    ]);
+  });
+
+  it.each([
+    ['seconds', '12.5', 12.5],
+    ['m:ss.fff', '1:02.250', 62.25],
+    ['h:mm:ss.fff', '1:00:01.5', 3601.5],
+  ])('converts %s times', (_format, time, expected) => {
+    const [label] = parseReaperCsv(`M1,Name,${time}`, NO_TEMPO);
+    expect(label.start).toBeCloseTo(expected, 9);
+  });
+
+  it('converts bars.beats.hundredths using the tempo', () => {
+    const [label] = parseReaperCsv('#,Name,Start\nM1,Bar 2,2.3.50', { bpm: 120, beatsPerBar: 4 });
+    // Bar 2, beat 3 and a half = 6.5 beats at 0.5 s per beat
+    expect(label.start).toBeCloseTo(3.25, 9);
+  });
+});
+
+describe('malformed marker files', () => {
+  it.each<[string, () => unknown, MarkerImportErrorType]>([
+    ['CUE INDEX without frames', () => parseCueSheet(cueWithIndex('INDEX 01 00:01')), 'PARSE_ERROR'],
+    ['CUE sheet with several files', () => parseCueSheet('FILE "a.wav" WAVE\nFILE "b.wav" WAVE'), 'PARSE_ERROR'],
+    ['Audacity line without times', () => parseAudacityLabels('start\tend\tName'), 'PARSE_ERROR'],
+    ['REAPER row with a bad time', () => parseReaperCsv('M1,Name,soon', NO_TEMPO), 'PARSE_ERROR'],
+    ['REAPER bars.beats without a tempo', () => parseReaperCsv('M1,Name,1.1.00', NO_TEMPO), 'PARSE_ERROR'],
+    ['unrecognized text file', () => detectMarkerFileFormat('notes.txt', 'just some notes'), 'UNSUPPORTED_FORMAT'],
+    ['labels outside the audio', () => importMarkerFile('l.txt', '20\t21\tLate', 10, NO_TEMPO), 'NO_MARKERS'],
+  ])('rejects %s', (_case, parse, expectedType) => {
+    expect(getErrorType(parse)).toBe(expectedType);
+  });
+});
+
+describe('detectMarkerFileFormat', () => {
+  it.each([
+    ['markers.cue', '', 'cue'],
+    ['markers.csv', '', 'reaper'],
+    ['labels.txt', '1.000000\t2.000000\tIntro', 'audacity'],
+    ['export.txt', '#,Name,Start,End,Length', 'reaper'],
+    ['sheet.txt', 'TRACK 01 AUDIO\nINDEX 01 00:00:00', 'cue'],
+  ])('detects %s', (fileName, text, expected) => {
+    expect(detectMarkerFileFormat(fileName, text)).toBe(expected);
+  });
+});
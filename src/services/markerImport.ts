@@ -0,0 +1,347 @@
+// Marker import utilities
+// Parses marker lists from other tools (CUE sheets, Audacity labels, REAPER marker CSV)
+
+import { MarkerImportError } from '../types/markerFile';
+import type {
+  ImportedLabel,
+  MarkerImportFormat,
+  MarkerImportOptions,
+  MarkerImportResult,
+} from '../types/markerFile';
+import type { MarkerDraft } from '../types/marker';
+import type { EmbeddedMarkers } from '../types/audio';
+import { CUE_END_TRACK_REMARK } from './markerExport';
+
+/** CUE sheet times are mm:ss:ff with 75 frames per second */
+const CUE_FRAMES_PER_SECOND = 75;
+
+/** Labels this close to each other (in seconds) are treated as the same position */
+const POSITION_EPSILON = 1e-6;
+
+/**
+ * Splits text into trimmed, non-empty lines.
+ */
+function getLines(text: string): string[] {
+  return text
+    .replace(/^\uFEFF/, '')
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+}
+
+/**
+ * Detects the marker file format from its name and contents.
+ * @param fileName Name of the imported file
+ * @param text File contents
+ * @returns The detected format
+ * @throws MarkerImportError if the format is not recognized
+ */
+export function detectMarkerFileFormat(fileName: string, text: string): MarkerImportFormat {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'cue') return 'cue';
+  if (extension === 'csv') return 'reaper';
+
+  // Fall back to content sniffing for .txt and unknown extensions
+  const lines = getLines(text);
+  if (lines.some((line) => /^INDEX\s+\d+\s+\d+:\d+:\d+$/i.test(line))) return 'cue';
+  if (lines.length > 0 && (/^#,/.test(lines[0]) || /^[MR]\d+,/i.test(lines[0]))) return 'reaper';
+  if (lines.some((line) => /^-?\d+([.,]\d+)?\t-?\d+([.,]\d+)?/.test(line))) return 'audacity';
+
+  throw new MarkerImportError(
+    'UNSUPPORTED_FORMAT',
+    'Unrecognized marker file. Supported: CUE sheets, Audacity label tracks (.txt), REAPER marker CSV'
+  );
+}
+
+/**
+ * Parses a CUE sheet, using the INDEX 01 time of every track.
+ * A track marked with CUE_END_TRACK_REMARK only sets the end of the track before it.
+ * @param text CUE sheet contents
+ * @returns One label per track (named after the track TITLE)
+ */
+export function parseCueSheet(text: string): ImportedLabel[] {
+  const labels: ImportedLabel[] = [];
+  let fileCount = 0;
+  let currentTrack: { name: string; start: number | null; isEnd: boolean } | null = null;
+
+  const finishTrack = () => {
+    if (!currentTrack || currentTrack.start === null) return;
+    if (!currentTrack.isEnd) {
+      labels.push({ start: currentTrack.start, name: currentTrack.name });
+    } else if (labels.length > 0) {
+      labels[labels.length - 1].end = currentTrack.start;
+    }
+  };
+
+  for (const line of getLines(text)) {
+    const [command] = line.split(/\s+/, 1);
+    switch (command.toUpperCase()) {
+      case 'FILE':
+        fileCount++;
+        if (fileCount > 1) {
+          throw new MarkerImportError('PARSE_ERROR', 'CUE sheets referencing multiple files are not supported');
+        }
+        break;
+      case 'TRACK':
+        finishTrack();
+        currentTrack = { name: '', start: null, isEnd: false };
+        break;
+      case 'REM':
+        if (currentTrack && line.toUpperCase() === CUE_END_TRACK_REMARK) {
+          currentTrack.isEnd = true;
+        }
+        break;
+      case 'TITLE': {
+        // Titles before the first TRACK belong to the album
+        const match = line.match(/^TITLE\s+"?(.*?)"?$/i);
+        if (currentTrack && match) {
+          currentTrack.name = match[1];
+        }
+        break;
+      }
+      case 'INDEX': {
+        const match = line.match(/^INDEX\s+(\d+)\s+(\d+):(\d+):(\d+)$/i);
+        if (!match) {
+          throw new MarkerImportError('PARSE_ERROR', `Invalid INDEX line: ${line}`);
+        }
+        if (currentTrack && Number(match[1]) === 1) {
+          const [minutes, seconds, frames] = [match[2], match[3], match[4]].map(Number);
+          currentTrack.start = minutes * 60 + seconds + frames / CUE_FRAMES_PER_SECOND;
+        }
+        break;
+      }
+    }
+  }
+  finishTrack();
+
+  return labels;
+}
+
+/**
+ * Parses an Audacity label track export (tab-separated start, end and label per line).
+ * @param text Label file contents
+ * @returns One label per line; point labels have no end
+ */
+export function parseAudacityLabels(text: string): ImportedLabel[] {
+  const labels: ImportedLabel[] = [];
+
+  for (const line of getLines(text)) {
+    // Spectral selection lines ("\t<low>\t<high>") follow their label
+    if (line.startsWith('\\')) continue;
+
+    const [startText, endText, ...nameParts] = line.split('\t');
+    const start = parseFloat(startText.replace(',', '.'));
+    const end = parseFloat((endText ?? startText).replace(',', '.'));
+    if (!Number.isFinite(start) || !Number.isFinite(end)) {
+      throw new MarkerImportError('PARSE_ERROR', `Invalid label line: ${line}`);
+    }
+
+    labels.push({
+      start,
+      end: end > start ? end : undefined,
+      name: nameParts.join('\t').trim(),
+    });
+  }
+
+  return labels;
+}
+
+/**
+ * Splits one CSV line into fields, honoring double-quoted fields.
+ */
+function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+
+  return fields.map((value) => value.trim());
+}
+
+/**
+ * Converts a REAPER ruler time (seconds, [h:]m:ss.fff or bars.beats.hundredths) to seconds.
+ */
+function parseReaperTime(value: string, options: MarkerImportOptions): number {
+  // Bars.beats.hundredths (1-based)
+  const musicalMatch = value.match(/^(\d+)\.(\d+)\.(\d+)$/);
+  if (musicalMatch) {
+    if (options.bpm === null) {
+      throw new MarkerImportError('PARSE_ERROR', 'Marker times are in bars.beats; set a tempo before importing');
+    }
+    const [bar, beat, hundredths] = musicalMatch.slice(1).map(Number);
+    const beats = (bar - 1) * options.beatsPerBar + (beat - 1) + hundredths / 100;
+    return beats * (60 / options.bpm);
+  }
+
+  // [h:]m:ss.fff
+  if (value.includes(':')) {
+    const parts = value.split(':').map(Number);
+    if (parts.length > 3 || parts.some((part) => !Number.isFinite(part))) {
+      throw new MarkerImportError('PARSE_ERROR', `Unsupported time format: ${value}`);
+    }
+    return parts.reduce((total, part) => total * 60 + part, 0);
+  }
+
+  const seconds = Number(value);
+  if (value === '' || !Number.isFinite(seconds)) {
+    throw new MarkerImportError('PARSE_ERROR', `Unsupported time format: ${value}`);
+  }
+  return seconds;
+}
+
+/**
+ * Parses a REAPER marker/region CSV (Region/Marker Manager export).
+ * @param text CSV contents
+ * @param options Tempo used to convert bars.beats times
+ * @returns One label per marker or region row
+ */
+export function parseReaperCsv(text: string, options: MarkerImportOptions): ImportedLabel[] {
+  const rows = getLines(text).map(parseCsvLine);
+  if (rows.length === 0) return [];
+
+  // Locate columns from the header row ("#,Name,Start,End,Length"), falling back to that order
+  const header = rows[0].map((field) => field.toLowerCase());
+  const hasHeader = header.includes('start');
+  const nameIndex = hasHeader ? header.indexOf('name') : 1;
+  const startIndex = hasHeader ? header.indexOf('start') : 2;
+  const endIndex = hasHeader ? header.indexOf('end') : 3;
+
+  return rows.slice(hasHeader ? 1 : 0).map((row) => {
+    const start = parseReaperTime(row[startIndex] ?? '', options);
+    // Region rows (R1, R2, ...) have an end; marker rows (M1, ...) leave it empty
+    const endText = endIndex >= 0 ? row[endIndex] ?? '' : '';
+    const end = endText !== '' ? parseReaperTime(endText, options) : undefined;
+    return {
+      start,
+      end: end !== undefined && end > start ? end : undefined,
+      name: nameIndex >= 0 ? row[nameIndex] ?? '' : '',
+    };
+  });
+}
+
+/**
+ * Converts markers embedded in an audio file to labels.
+ * Labeled regions (`ltxt`) and sampler loops become ranges; other cue points become point labels.
+ * @param embedded Markers read from the file
+ * @returns Labels for getMarkerDraftsForLabels
+ */
+export function getLabelsForEmbeddedMarkers(embedded: EmbeddedMarkers): ImportedLabel[] {
+  const cueLabels = embedded.cuePoints.map((cuePoint) => ({
+    start: cuePoint.time,
+    end: cuePoint.duration ? cuePoint.time + cuePoint.duration : undefined,
+    name: cuePoint.label,
+  }));
+  const loopLabels = embedded.loops.map((loop, index) => ({
+    start: loop.start,
+    end: loop.end,
+    name: embedded.loops.length > 1 ? `Loop ${index + 1}` : 'Loop',
+  }));
+  return [...cueLabels, ...loopLabels];
+}
+
+/**
+ * Converts imported labels to marker drafts.
+ * Point labels become a single marker; ranges get a start marker and, unless another
+ * label starts there, a disabled end marker so the range becomes its own section.
+ *
+ * @param labels Labels sorted or unsorted
+ * @param duration Duration of the loaded audio in seconds (labels outside are skipped, ends are clamped)
+ * @returns Drafts sorted by time and the number of skipped labels
+ */
+export function getMarkerDraftsForLabels(
+  labels: ImportedLabel[],
+  duration: number
+): { drafts: MarkerDraft[]; skippedCount: number } {
+  const validLabels = labels
+    .filter((label) => label.start >= 0 && label.start < duration)
+    .sort((a, b) => a.start - b.start);
+
+  const drafts: MarkerDraft[] = [];
+  validLabels.forEach((label, index) => {
+    drafts.push({
+      time: label.start,
+      name: label.name || `Section ${index + 1}`,
+      enabled: true,
+    });
+
+    if (label.end !== undefined) {
+      const end = Math.min(label.end, duration);
+      const next = validLabels[index + 1];
+      if (!next || next.start > end + POSITION_EPSILON) {
+        drafts.push({ time: end, name: 'Gap', enabled: false });
+      }
+    }
+  });
+
+  return {
+    drafts: drafts.sort((a, b) => a.time - b.time),
+    skippedCount: labels.length - validLabels.length,
+  };
+}
+
+/**
+ * Reads a marker file and converts it to marker drafts for the loaded audio.
+ * @param fileName Name of the imported file (used for format detection)
+ * @param text File contents
+ * @param duration Duration of the loaded audio in seconds
+ * @param options Tempo context for musical time formats
+ * @returns Import result with drafts sorted by time
+ * @throws MarkerImportError if the file cannot be parsed or has no usable markers
+ */
+export function importMarkerFile(
+  fileName: string,
+  text: string,
+  duration: number,
+  options: MarkerImportOptions
+): MarkerImportResult {
+  const format = detectMarkerFileFormat(fileName, text);
+
+  let labels: ImportedLabel[];
+  switch (format) {
+    case 'cue':
+      labels = parseCueSheet(text);
+      // Without a closing track the last track runs to the end of the file; close it so it becomes a section
+      if (labels.length > 0 && labels[labels.length - 1].end === undefined) {
+        labels[labels.length - 1].end = duration;
+      }
+      break;
+    case 'audacity':
+      labels = parseAudacityLabels(text);
+      break;
+    case 'reaper':
+      labels = parseReaperCsv(text, options);
+      break;
+  }
+
+  if (labels.length === 0) {
+    throw new MarkerImportError('NO_MARKERS', 'No markers found in file');
+  }
+
+  const { drafts, skippedCount } = getMarkerDraftsForLabels(labels, duration);
+  if (drafts.length === 0) {
+    throw new MarkerImportError('NO_MARKERS', 'All markers in the file lie outside the loaded audio');
+  }
+
+  return { format, drafts, skippedCount };
+}
@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vitest';
+import type { Marker } from '../types/marker';
+import { getSections } from '../utils/sections';
+import { createSliceMidiFile, encodeVariableLength, validateSliceMidi } from './midiExport';
+
+const OPTIONS = { bpm: 120, beatsPerBar: 4, rootNote: 36, name: 'Slices' };
+
+interface MidiEvent {
+  tick: number;
+  data: number[];
+}
+
+/**
+ * Build sections from marker times; the sections starting at `disabled` times are turned off
+ */
+function createSections(times: number[], disabled: number[] = []) {
+  const markers: Marker[] = times.map((time, index) => ({
+    id: `m${index}`,
+    time,
+    name: `Slice ${index + 1}`,
+    enabled: !disabled.includes(time),
+  }));
+  return getSections(markers);
+}
+
+/**
+ * Split a track chunk into events with absolute ticks (no running status)
+ */
+function readTrackEvents(track: Uint8Array): MidiEvent[] {
+  const events: MidiEvent[] = [];
+  let offset = 0;
+  let tick = 0;
+  const readVariableLength = () => {
+    let value = 0;
+    let byte: number;
+    do {
+      byte = track[offset++];
+      value = value * 128 + (byte & 0x7f);
+    } while (byte & 0x80);
+    return value;
+  };
+  while (offset < track.length) {
+    tick += readVariableLength();
+    const start = offset;
+    if (track[offset] === 0xff) {
+      offset += 2;
+      const length = readVariableLength();
+      offset += length;
+    } else {
+      offset += 3;
+    }
+    events.push({ tick, data: [...track.subarray(start, offset)] });
+  }
+  return events;
+}
+
+/**
+ * Read the MThd fields and the events of the single MTrk chunk
+ */
+function readMidiFile(file: Uint8Array) {
+  const view = new DataView(file.buffer, file.byteOffset, file.byteLength);
+  const trackLength = view.getUint32(18, false);
+  return {
+    headerId: new TextDecoder().decode(file.subarray(0, 4)),
+    headerLength: view.getUint32(4, false),
+    format: view.getUint16(8, false),
+    trackCount: view.getUint16(10, false),
+    ppq: view.getUint16(12, false),
+    trackId: new TextDecoder().decode(file.subarray(14, 18)),
+    trackLength,
+    events: readTrackEvents(file.subarray(22, 22 + trackLength)),
+  };
+}
+
+describe('encodeVariableLength', () => {
+  it.each([
+    [0, [0x00]],
+    [0x40, [0x40]],
+    [0x7f, [0x7f]],
+    [0x80, [0x81, 0x00]],
+    [0x2000, [0xc0, 0x00]],
+    [0x3fff, [0xff, 0x7f]],
+    [0x4000, [0x81, 0x80, 0x00]],
+    [0x1fffff, [0xff, 0xff, 0x7f]],
+    [0x200000, [0x81, 0x80, 0x80, 0x00]],
+    [0x0fffffff, [0xff, 0xff, 0xff, 0x7f]],
+  ])('encodes %i', (value, expected) => {
+    expect(encodeVariableLength(value)).toEqual(expected);
+  });
+});
+
+describe('createSliceMidiFile', () => {
+  it('writes a format 0 header and a track chunk whose length covers the rest of the file', () => {
+    const file = createSliceMidiFile(createSections([0, 1, 2]), OPTIONS);
+    const midi = readMidiFile(file);
+
+    expect(midi).toMatchObject({ headerId: 'MThd', headerLength: 6, format: 0, trackCount: 1, ppq: 480, trackId: 'MTrk' });
+    expect(midi.trackLength).toBe(file.length - 22);
+    expect(midi.events.at(-1)?.data).toEqual([0xff, 0x2f, 0x00]);
+  });
+
+  it.each([
+    [120, [0x07, 0xa1, 0x20]],
+    [128, [0x07, 0x27, 0x0e]],
+    [60, [0x0f, 0x42, 0x40]],
+    [174.5, [0x05, 0x3f, 0x20]],
+  ])('writes the tempo meta event for %d BPM', (bpm, tempoBytes) => {
+    const { events } = readMidiFile(createSliceMidiFile(createSections([0, 1]), { ...OPTIONS, bpm, beatsPerBar: 3 }));
+
+    expect(events.slice(0, 3)).toEqual([
+      { tick: 0, data: [0xff, 0x03, 0x06, ...new TextEncoder().encode('Slices')] },
+      { tick: 0, data: [0xff, 0x51, 0x03, ...tempoBytes] },
+      { tick: 0, data: [0xff, 0x58, 0x04, 3, 2, 24, 8] },
+    ]);
+  });
+
+  it('encodes delta times so that notes land on the section ticks', () => {
+    // 960 ticks per second at 120 BPM; the last section needs a three-byte delta
+    const { events } = readMidiFile(createSliceMidiFile(createSections([0, 0.001, 0.5, 30]), OPTIONS));
+    const notes = events.filter((event) => event.data[0] !== 0xff);
+
+    expect(notes).toEqual([
+      { tick: 0, data: [0x90, 36, 100] },
+      { tick: 1, data: [0x80, 36, 0] },
+      { tick: 1, data: [0x90, 37, 100] },
+      { tick: 480, data: [0x80, 37, 0] },
+      { tick: 480, data: [0x90, 38, 100] },
+      { tick: 28800, data: [0x80, 38, 0] },
+    ]);
+  });
+
+  it('sorts note-offs before note-ons at the same tick', () => {
+    const { events } = readMidiFile(createSliceMidiFile(createSections([0, 0.5, 1, 1.5]), OPTIONS));
+    const statuses = events.filter((event) => event.tick === 480).map((event) => event.data.slice(0, 2));
+
+    expect(statuses).toEqual([
+      [0x80, 36],
+      [0x90, 37],
+    ]);
+  });
+
+  it('leaves out disabled sections but keeps the note numbering', () => {
+    const { events } = readMidiFile(createSliceMidiFile(createSections([0, 1, 2, 3], [1]), OPTIONS));
+    const noteOns = events.filter((event) => event.data[0] === 0x90);
+
+    expect(noteOns.map((event) => [event.tick, event.data[1]])).toEqual([
+      [0, 36],
+      [1920, 38],
+    ]);
+  });
+
+  it('keeps one-tick notes for sections shorter than a tick', () => {
+    const { events } = readMidiFile(createSliceMidiFile(createSections([1, 1.0001]), OPTIONS));
+    const notes = events.filter((event) => event.data[0] !== 0xff);
+
+    expect(notes.map((event) => event.tick)).toEqual([960, 961]);
+  });
+});
+
+describe('validateSliceMidi', () => {
+  it('rejects exports without enabled sections or above the highest note', () => {
+    expect(validateSliceMidi(createSections([0, 1], [0]), 36)).toBe('No enabled sections to export');
+    // Three sections need notes root to root + 2
+    expect(validateSliceMidi(createSections([0, 1, 2, 3]), 126)).toMatch(/^Enabled sections go above MIDI note 127/);
+    expect(validateSliceMidi(createSections([0, 1, 2, 3]), 125)).toBeNull();
+    expect(() => createSliceMidiFile(createSections([0, 1, 2, 3]), { ...OPTIONS, rootNote: 127 })).toThrow('above MIDI note 127');
+  });
+});
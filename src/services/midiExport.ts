@@ -0,0 +1,131 @@
+// MIDI file utilities
+// Writes a Standard MIDI File that triggers each slice at its original position
+
+import type { Section } from '../types/section';
+import { formatNoteName } from '../utils/noteNames';
+
+/** Ticks per quarter note */
+const MIDI_PPQ = 480;
+
+/** Velocity of slice trigger notes */
+const MIDI_VELOCITY = 100;
+
+/** Highest MIDI note */
+const MAX_NOTE = 127;
+
+/**
+ * Options for the slice trigger MIDI file
+ */
+export interface SliceMidiOptions {
+  /** Tempo in BPM used to convert seconds to ticks */
+  bpm: number;
+  /** Beats per bar written as the time signature (quarter-note beats) */
+  beatsPerBar: number;
+  /** Note triggered by the first section (later sections follow chromatically) */
+  rootNote: number;
+  /** Track name */
+  name: string;
+}
+
+/**
+ * Encodes a MIDI variable-length quantity (7 bits per byte, most significant first).
+ * @param value Non-negative integer up to 0x0fffffff
+ * @returns The encoded bytes (continuation bit set on all but the last)
+ */
+export function encodeVariableLength(value: number): number[] {
+  const bytes = [value & 0x7f];
+  let remaining = value >> 7;
+  while (remaining > 0) {
+    bytes.unshift((remaining & 0x7f) | 0x80);
+    remaining >>= 7;
+  }
+  return bytes;
+}
+
+/**
+ * Encodes text as a meta event payload (Latin-1, other characters replaced).
+ */
+function encodeText(text: string): number[] {
+  return [...text].map((char) => (char.charCodeAt(0) <= 0xff ? char.charCodeAt(0) : 0x3f));
+}
+
+/**
+ * Checks that every enabled section maps onto a valid MIDI note.
+ * @param sections All sections in timeline order (from getSections)
+ * @param rootNote Note triggered by the first section
+ * @returns An error message, or null if the file can be written
+ */
+export function validateSliceMidi(sections: Section[], rootNote: number): string | null {
+  let lastEnabledIndex = -1;
+  sections.forEach((section, index) => {
+    if (section.enabled) lastEnabledIndex = index;
+  });
+  if (lastEnabledIndex < 0) {
+    return 'No enabled sections to export';
+  }
+  if (rootNote + lastEnabledIndex > MAX_NOTE) {
+    return `Enabled sections go above MIDI note ${MAX_NOTE}; set the root note to ${formatNoteName(MAX_NOTE - lastEnabledIndex)} or lower`;
+  }
+  return null;
+}
+
+/**
+ * Writes a format 0 MIDI file with one note per enabled section.
+ * Section N (its KEY_ORDER index) triggers rootNote + N for the length of the section,
+ * at the section's position in the source audio; disabled sections are left out.
+ * @param sections All sections in timeline order (from getSections)
+ * @param options Tempo, time signature, root note and track name
+ * @returns MIDI file bytes
+ * @throws Error if there are no enabled sections or a section maps above the highest note
+ */
+export function createSliceMidiFile(sections: Section[], options: SliceMidiOptions): Uint8Array<ArrayBuffer> {
+  const error = validateSliceMidi(sections, options.rootNote);
+  if (error) {
+    throw new Error(error);
+  }
+
+  const ticksPerSecond = (options.bpm / 60) * MIDI_PPQ;
+  const toTicks = (seconds: number) => Math.round(seconds * ticksPerSecond);
+
+  // Note events with absolute ticks (note-offs sort before note-ons at the same tick)
+  const events: Array<{ tick: number; data: number[] }> = [];
+  sections.forEach((section, index) => {
+    const note = options.rootNote + index;
+    if (!section.enabled) return;
+    const start = toTicks(section.startTime);
+    const end = Math.max(start + 1, toTicks(section.endTime));
+    events.push({ tick: start, data: [0x90, note, MIDI_VELOCITY] });
+    events.push({ tick: end, data: [0x80, note, 0] });
+  });
+  events.sort((a, b) => a.tick - b.tick || a.data[0] - b.data[0]);
+
+  // Track: name, tempo and time signature, then the notes
+  const microsecondsPerQuarter = Math.round(60_000_000 / options.bpm);
+  const name = encodeText(options.name);
+  const track: number[] = [
+    0x00, 0xff, 0x03, ...encodeVariableLength(name.length), ...name,
+    0x00, 0xff, 0x51, 0x03,
+    (microsecondsPerQuarter >> 16) & 0xff, (microsecondsPerQuarter >> 8) & 0xff, microsecondsPerQuarter & 0xff,
+    0x00, 0xff, 0x58, 0x04, options.beatsPerBar, 2, 24, 8,
+  ];
+  let lastTick = 0;
+  for (const event of events) {
+    track.push(...encodeVariableLength(event.tick - lastTick), ...event.data);
+    lastTick = event.tick;
+  }
+  track.push(0x00, 0xff, 0x2f, 0x00);
+
+  // Header chunk (format 0, one track) followed by the track chunk
+  const file = new Uint8Array(14 + 8 + track.length);
+  const view = new DataView(file.buffer);
+  file.set([0x4d, 0x54, 0x68, 0x64], 0); // "MThd"
+  view.setUint32(4, 6, false);
+  view.setUint16(8, 0, false);
+  view.setUint16(10, 1, false);
+  view.setUint16(12, MIDI_PPQ, false);
+  file.set([0x4d, 0x54, 0x72, 0x6b], 14); // "MTrk"
+  view.setUint32(18, track.length, false);
+  file.set(track, 22);
+
+  return file;
+}
@@ -0,0 +1,119 @@
+// MPC drum program utilities
+// Writes an Akai MPC .xpm drum program placing slices on pads A01-A16 as one-shots
+
+import type { InstrumentSlice } from '../types/instrument';
+import type { Section } from '../types/section';
+
+/** Number of pads in one MPC pad bank */
+export const MPC_PAD_COUNT = 16;
+
+/** MIDI notes of pads A01-A16 in the MPC default pad note map */
+const MPC_PAD_NOTES = [37, 36, 42, 82, 40, 38, 46, 44, 48, 47, 45, 43, 49, 55, 51, 53];
+
+/** Largest layer volume accepted by the MPC (+6 dB) */
+const MPC_MAX_LAYER_VOLUME = 2;
+
+/**
+ * Picks the sections placed on pads: the first 16 enabled sections in timeline order.
+ * @param sections All sections (from getSections)
+ * @returns Sections for pads A01 onwards
+ */
+export function getMpcKitSections(sections: Section[]): Section[] {
+  return sections.filter((section) => section.enabled).slice(0, MPC_PAD_COUNT);
+}
+
+/**
+ * Gets the display name of a pad in bank A.
+ * @param index Zero-based pad index
+ * @returns Pad name such as "A01"
+ */
+export function getMpcPadName(index: number): string {
+  return `A${String(index + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Gets the MIDI note a pad triggers in the MPC default pad note map.
+ * @param index Zero-based pad index (0-15)
+ * @returns MIDI note number
+ */
+export function getMpcPadNote(index: number): number {
+  return MPC_PAD_NOTES[index];
+}
+
+/**
+ * Escapes text for use in XML element content.
+ */
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Writes an MPC drum program with one instrument per pad.
+ * Samples are referenced by file name without extension and must sit next to the .xpm file;
+ * the MPC shows the sample name on the pad.
+ * @param slices Slices in pad order (at most 16)
+ * @param programName Name shown in the MPC program list
+ * @returns The .xpm file contents
+ * @throws Error if there are more slices than pads
+ */
+export function createMpcProgram(slices: InstrumentSlice[], programName: string): string {
+  if (slices.length > MPC_PAD_COUNT) {
+    throw new Error(`An MPC kit holds at most ${MPC_PAD_COUNT} pads`);
+  }
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<MPCVObject>',
+    '  <Version>',
+    '    <File_Version>2.1</File_Version>',
+    '    <Application>MPC-V</Application>',
+    '    <Application_Version>2.10.0.1</Application_Version>',
+    '    <Platform>Windows</Platform>',
+    '  </Version>',
+    '  <Program type="Drum">',
+    `    <ProgramName>${escapeXml(programName)}</ProgramName>`,
+    '    <PadNoteMap>',
+  ];
+
+  MPC_PAD_NOTES.forEach((note, index) => {
+    lines.push(`      <PadNote number="${index + 1}">`, `        <Note>${note}</Note>`, '      </PadNote>');
+  });
+  lines.push('    </PadNoteMap>');
+
+  lines.push('    <Instruments>');
+  slices.forEach((slice, index) => {
+    const volume = Math.min(MPC_MAX_LAYER_VOLUME, Math.pow(10, slice.volume / 20));
+    const sampleName = slice.file.replace(/\.[^.]+$/, '');
+    lines.push(
+      `      <Instrument number="${index + 1}">`,
+      '        <OneShot>True</OneShot>',
+      '        <Mute>False</Mute>',
+      '        <Volume>1.000000</Volume>',
+      '        <Pan>0.500000</Pan>',
+      '        <Layers>',
+      '          <Layer number="1">',
+      '            <Active>True</Active>',
+      `            <Volume>${volume.toFixed(6)}</Volume>`,
+      '            <Pan>0.500000</Pan>',
+      '            <Pitch>0.000000</Pitch>',
+      '            <TuneCoarse>0</TuneCoarse>',
+      '            <TuneFine>0</TuneFine>',
+      `            <SampleName>${escapeXml(sampleName)}</SampleName>`,
+      '            <SampleFile></SampleFile>',
+      '            <SliceIndex>128</SliceIndex>',
+      '            <Direction>0</Direction>',
+      '            <Offset>0</Offset>',
+      '            <SliceStart>0</SliceStart>',
+      `            <SliceEnd>${slice.length}</SliceEnd>`,
+      '            <SliceLoopStart>0</SliceLoopStart>',
+      '            <SliceLoop>0</SliceLoop>',
+      '          </Layer>',
+      '        </Layers>',
+      '      </Instrument>'
+    );
+  });
+  lines.push('    </Instruments>');
+
+  lines.push('  </Program>', '</MPCVObject>');
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,112 @@
+// OP-1 drum chain utilities
+// Validates drum chains and writes the Teenage Engineering slice metadata (APPL chunk) for AIFF files
+
+import type { Op1Device } from '../types/instrument';
+import { createIffChunk } from './aiffChunks';
+
+/** Sample rate of OP-1 drum chains in Hz */
+export const OP1_SAMPLE_RATE = 44100;
+
+/** Number of drum slots (keys) on the device */
+export const OP1_MAX_SLICES = 24;
+
+/** Largest slice position the metadata can hold (signed 32-bit) */
+const OP1_MAX_POSITION = 0x7fffffff;
+
+/**
+ * Limits and labels per device
+ */
+export const OP1_DEVICES: Record<Op1Device, { label: string; maxDuration: number }> = {
+  op1: { label: 'OP-1', maxDuration: 12 },
+  op1field: { label: 'OP-1 field', maxDuration: 20 },
+};
+
+/**
+ * Returns the factor slice positions (in frames) are multiplied by in the metadata.
+ * The device's maximum chain length maps onto the signed 32-bit range
+ * (4058 for the 12 s OP-1).
+ */
+function getPositionScale(device: Op1Device): number {
+  return Math.floor(OP1_MAX_POSITION / (OP1_DEVICES[device].maxDuration * OP1_SAMPLE_RATE));
+}
+
+/** Neutral value of the 0-16384 parameters (no pitch change, normal playback, 0 dB) */
+const OP1_PARAM_CENTER = 8192;
+
+/**
+ * Frame range of one slice in the concatenated audio
+ */
+export interface Op1Slice {
+  /** First frame of the slice */
+  start: number;
+  /** Frame after the last frame of the slice */
+  end: number;
+  /** Gain in dB */
+  volume: number;
+}
+
+/**
+ * Checks a drum chain against the device limits.
+ * @param durations Slice durations in seconds
+ * @param device Target device
+ * @returns An error message, or null if the chain fits
+ */
+export function validateOp1DrumChain(durations: number[], device: Op1Device): string | null {
+  const { label, maxDuration } = OP1_DEVICES[device];
+  if (durations.length === 0) {
+    return 'No enabled sections to export';
+  }
+  if (durations.length > OP1_MAX_SLICES) {
+    return `${label} drum chains hold at most ${OP1_MAX_SLICES} slices (${durations.length} enabled)`;
+  }
+  const totalDuration = durations.reduce((total, duration) => total + duration, 0);
+  if (totalDuration > maxDuration) {
+    return `${label} drum chains are limited to ${maxDuration} s (${totalDuration.toFixed(1)} s selected)`;
+  }
+  return null;
+}
+
+/**
+ * Builds the APPL chunk holding the drum metadata ("op-1" followed by JSON).
+ * Unused slots point at the end of the last slice.
+ * @param slices Slice ranges in frames, in key order
+ * @param name Patch name
+ * @param device Target device (sets the position scale)
+ * @returns The complete APPL chunk
+ */
+export function createOp1DrumChunk(slices: Op1Slice[], name: string, device: Op1Device): Uint8Array {
+  const lastEnd = slices.length > 0 ? slices[slices.length - 1].end : 0;
+  const slots = Array.from({ length: OP1_MAX_SLICES }, (_, index) => slices[index]);
+  const scale = getPositionScale(device);
+  const toPosition = (frame: number) => Math.min(OP1_MAX_POSITION, Math.round(frame * scale));
+
+  const metadata = {
+    drum_version: 2,
+    type: 'drum',
+    // The device only displays printable ASCII
+    name: name.replace(/[^\x20-\x7e]/g, '').trim().slice(0, 32),
+    octave: 0,
+    pitch: slots.map(() => 0),
+    start: slots.map((slice) => toPosition(slice ? slice.start : lastEnd)),
+    end: slots.map((slice) => toPosition(slice ? slice.end : lastEnd)),
+    playmode: slots.map(() => OP1_PARAM_CENTER),
+    reverse: slots.map(() => OP1_PARAM_CENTER),
+    volume: slots.map((slice) =>
+      slice ? Math.max(0, Math.min(16384, Math.round(OP1_PARAM_CENTER * Math.pow(10, slice.volume / 20)))) : OP1_PARAM_CENTER
+    ),
+    dyna_env: [0, 8192, 0, 8192, 0, 0, 0, 0],
+    fx_active: false,
+    fx_type: 'delay',
+    fx_params: [8000, 8000, 8000, 8000, 8000, 8000, 8000, 8000],
+    lfo_active: false,
+    lfo_type: 'tremolo',
+    lfo_params: [16000, 16000, 16000, 16000, 0, 0, 0, 0],
+  };
+
+  const text = `op-1${JSON.stringify(metadata)}\n`;
+  const data = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) {
+    data[i] = text.charCodeAt(i);
+  }
+  return createIffChunk('APPL', data);
+}
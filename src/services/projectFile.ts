@@ -0,0 +1,310 @@
+// Project file utilities
+// Saves marker work as a versioned JSON document and re-links it to its audio file
+
+import {
+  PROJECT_FILE_EXTENSION,
+  PROJECT_FILE_FORMAT,
+  PROJECT_FILE_VERSION,
+  ProjectFileError,
+} from '../types/project';
+import type { ProjectFile, ProjectSource } from '../types/project';
+import type { Marker } from '../types/marker';
+import type { SnapGridMode, SnapSettings } from '../types/snap';
+import { EXPORT_SAMPLE_RATES, MP3_BITRATES } from '../types/exportSettings';
+import type { ExportAllFormat, ExportSectionSelection, ExportSettings, WavSampleFormat } from '../types/exportSettings';
+import type { InstrumentPlayback, Op1Device } from '../types/instrument';
+import { OP1_DEVICES } from './op1Export';
+import { getBaseName } from '../utils/fileNames';
+
+/** Durations closer than this (in seconds) are considered equal */
+const DURATION_TOLERANCE = 0.001;
+
+/** Allowed values of the enumerated settings */
+const SNAP_GRID_MODES: readonly SnapGridMode[] = ['beats', 'bars', 'milliseconds', 'frames', 'samples'];
+const EXPORT_FORMATS: readonly ExportAllFormat[] = ['wav', 'mp3', 'flac', 'aiff'];
+const SECTION_SELECTIONS: readonly ExportSectionSelection[] = ['all', 'enabled', 'custom'];
+const WAV_SAMPLE_FORMATS: readonly WavSampleFormat[] = ['pcm16', 'pcm24', 'float32'];
+const INSTRUMENT_PLAYBACKS: readonly InstrumentPlayback[] = ['oneShot', 'loop'];
+
+/**
+ * Computes the SHA-256 hash of a file.
+ * @param file The file to hash
+ * @returns Lowercase hex digest
+ */
+export async function hashFile(file: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Describes a loaded audio file for storing in (or comparing against) a project.
+ * @param file The original audio file
+ * @param audioBuffer The decoded audio
+ * @returns Source description including the content hash
+ */
+export async function describeAudioSource(file: File, audioBuffer: AudioBuffer): Promise<ProjectSource> {
+  return {
+    name: file.name,
+    size: file.size,
+    hash: await hashFile(file),
+    duration: audioBuffer.duration,
+    sampleRate: audioBuffer.sampleRate,
+    numberOfChannels: audioBuffer.numberOfChannels,
+  };
+}
+
+/**
+ * Lists the ways a loaded audio file differs from the one a project was saved with.
+ * Matching content hashes are authoritative (a renamed file still matches).
+ * @param expected Source stored in the project
+ * @param actual Source of the loaded audio
+ * @returns Human-readable mismatch descriptions (empty if the audio matches)
+ */
+export function getSourceMismatches(expected: ProjectSource, actual: ProjectSource): string[] {
+  if (expected.hash === actual.hash) {
+    return [];
+  }
+
+  const mismatches = ['Audio content differs from the file the project was saved with'];
+  if (expected.name !== actual.name) {
+    mismatches.push(`File name: ${expected.name} (project) vs ${actual.name} (loaded)`);
+  }
+  if (Math.abs(expected.duration - actual.duration) > DURATION_TOLERANCE) {
+    mismatches.push(`Duration: ${expected.duration.toFixed(3)}s (project) vs ${actual.duration.toFixed(3)}s (loaded)`);
+  }
+  if (expected.sampleRate !== actual.sampleRate) {
+    mismatches.push(`Sample rate: ${expected.sampleRate} Hz (project) vs ${actual.sampleRate} Hz (loaded)`);
+  }
+  return mismatches;
+}
+
+/**
+ * Serializes a project as a downloadable JSON file.
+ * @param project Project contents (format, version and timestamp are filled in)
+ * @returns Blob containing the project JSON
+ */
+export function serializeProjectFile(
+  project: Omit<ProjectFile, 'format' | 'version' | 'savedAt'>
+): Blob {
+  const document: ProjectFile = {
+    format: PROJECT_FILE_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    savedAt: new Date().toISOString(),
+    ...project,
+  };
+  return new Blob([JSON.stringify(document, null, 2)], { type: 'application/json' });
+}
+
+/**
+ * Checks that a value is a plain object.
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Returns the value if it is a finite number, otherwise the fallback.
+ */
+function numberOr<T>(value: unknown, fallback: T): number | T {
+  return typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+}
+
+/**
+ * Returns the value clamped to a range if it is a finite number, otherwise undefined.
+ */
+function clampedNumber(value: unknown, min: number, max: number, round = false): number | undefined {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return undefined;
+  return Math.max(min, Math.min(max, round ? Math.round(value) : value));
+}
+
+/**
+ * Returns the value if it is one of the allowed values, otherwise undefined.
+ */
+function oneOf<T extends string | number>(value: unknown, allowed: readonly T[]): T | undefined {
+  return allowed.includes(value as T) ? value as T : undefined;
+}
+
+/**
+ * Returns the value if it is a boolean, otherwise undefined.
+ */
+function booleanOrUndefined(value: unknown): boolean | undefined {
+  return typeof value === 'boolean' ? value : undefined;
+}
+
+/**
+ * Drops the settings that failed validation.
+ */
+function withoutUndefined<T extends object>(values: { [K in keyof T]: T[K] | undefined }): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(values).filter(([, value]) => value !== undefined)
+  ) as Partial<T>;
+}
+
+/**
+ * Validates saved snap settings; invalid and unknown keys are dropped.
+ */
+function parseSnapSettings(value: unknown): Partial<SnapSettings> {
+  if (!isObject(value)) return {};
+  return withoutUndefined<SnapSettings>({
+    zeroCrossing: booleanOrUndefined(value.zeroCrossing),
+    zeroCrossingWindowMs: clampedNumber(value.zeroCrossingWindowMs, 0.1, 100),
+    gridEnabled: booleanOrUndefined(value.gridEnabled),
+    gridMode: oneOf(value.gridMode, SNAP_GRID_MODES),
+    gridMs: clampedNumber(value.gridMs, 1, Infinity),
+    gridFps: clampedNumber(value.gridFps, 1, 240),
+    gridOffsetMs: clampedNumber(value.gridOffsetMs, 0, Infinity, true),
+  });
+}
+
+/**
+ * Validates saved export settings; invalid and unknown keys are dropped.
+ */
+function parseExportSettings(value: unknown): Partial<ExportSettings> {
+  if (!isObject(value)) return {};
+
+  const selectedMarkerIds = Array.isArray(value.selectedMarkerIds)
+    ? value.selectedMarkerIds.filter((id): id is string => typeof id === 'string')
+    : undefined;
+
+  let sliceVolumes: Record<string, number> | undefined;
+  if (isObject(value.sliceVolumes)) {
+    sliceVolumes = {};
+    for (const [id, volume] of Object.entries(value.sliceVolumes)) {
+      const clamped = clampedNumber(volume, -48, 12);
+      if (clamped !== undefined) sliceVolumes[id] = clamped;
+    }
+  }
+
+  return withoutUndefined<ExportSettings>({
+    format: oneOf(value.format, EXPORT_FORMATS),
+    sectionSelection: oneOf(value.sectionSelection, SECTION_SELECTIONS),
+    selectedMarkerIds,
+    filenameTemplate: typeof value.filenameTemplate === 'string' ? value.filenameTemplate : undefined,
+    manifestCsv: booleanOrUndefined(value.manifestCsv),
+    wavSampleFormat: oneOf(value.wavSampleFormat, WAV_SAMPLE_FORMATS),
+    dither: booleanOrUndefined(value.dither),
+    // null keeps the source rate
+    sampleRate: value.sampleRate === null ? null : oneOf(value.sampleRate, EXPORT_SAMPLE_RATES),
+    mp3Bitrate: oneOf(value.mp3Bitrate, MP3_BITRATES),
+    mp3Mono: booleanOrUndefined(value.mp3Mono),
+    aifc: booleanOrUndefined(value.aifc),
+    flacCompressionLevel: clampedNumber(value.flacCompressionLevel, 0, 8, true),
+    samplerChunk: booleanOrUndefined(value.samplerChunk),
+    unityNote: clampedNumber(value.unityNote, 0, 127, true),
+    fineTuneCents: clampedNumber(value.fineTuneCents, -50, 50, true),
+    instrumentRootNote: clampedNumber(value.instrumentRootNote, 0, 127, true),
+    instrumentPlayback: oneOf(value.instrumentPlayback, INSTRUMENT_PLAYBACKS),
+    sliceVolumes,
+    op1Device: oneOf(value.op1Device, Object.keys(OP1_DEVICES) as Op1Device[]),
+  });
+}
+
+/**
+ * Returns the value if it is a positive tempo, otherwise null.
+ */
+function bpmOrNull(value: unknown): number | null {
+  const bpm = numberOr(value, null);
+  return bpm !== null && bpm > 0 ? bpm : null;
+}
+
+/**
+ * Parses and validates a project file.
+ * @param text Raw file contents
+ * @returns The validated project
+ * @throws ProjectFileError if the file is not a valid project or was written by a newer version
+ */
+export function parseProjectFile(text: string): ProjectFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ProjectFileError('INVALID_JSON', 'Project file is not valid JSON');
+  }
+
+  if (!isObject(data) || data.format !== PROJECT_FILE_FORMAT) {
+    throw new ProjectFileError('INVALID_FORMAT', 'File is not a slice project');
+  }
+
+  const version = numberOr(data.version, null);
+  if (version === null || version < 1) {
+    throw new ProjectFileError('INVALID_FORMAT', 'Project file has no valid version');
+  }
+  if (version > PROJECT_FILE_VERSION) {
+    throw new ProjectFileError(
+      'UNSUPPORTED_VERSION',
+      `Project was saved by a newer version (format v${version}, supported up to v${PROJECT_FILE_VERSION})`
+    );
+  }
+
+  // Source description is required to re-link the audio
+  const source = data.source;
+  if (
+    !isObject(source)
+    || typeof source.name !== 'string'
+    || typeof source.hash !== 'string'
+    || numberOr(source.duration, null) === null
+  ) {
+    throw new ProjectFileError('INVALID_FORMAT', 'Project file is missing its audio source');
+  }
+
+  if (!Array.isArray(data.markers)) {
+    throw new ProjectFileError('INVALID_FORMAT', 'Project file is missing its markers');
+  }
+  const markers: Marker[] = data.markers.map((raw, index) => {
+    if (!isObject(raw) || numberOr(raw.time, null) === null) {
+      throw new ProjectFileError('INVALID_FORMAT', `Marker ${index + 1} has no valid time`);
+    }
+    const loop = isObject(raw.loop) ? raw.loop : null;
+    const loopStart = numberOr(loop?.start, null);
+    const loopEnd = numberOr(loop?.end, null);
+    return {
+      id: typeof raw.id === 'string' ? raw.id : `marker-imported-${index}`,
+      time: raw.time as number,
+      name: typeof raw.name === 'string' ? raw.name : `Section ${index + 1}`,
+      enabled: typeof raw.enabled === 'boolean' ? raw.enabled : true,
+      loop: loopStart !== null && loopEnd !== null && loopEnd > loopStart
+        ? { start: loopStart, end: loopEnd }
+        : undefined,
+    };
+  });
+
+  const zoom = isObject(data.zoom) ? data.zoom : {};
+  const tempo = isObject(data.tempo) ? data.tempo : {};
+
+  return {
+    format: PROJECT_FILE_FORMAT,
+    version,
+    savedAt: typeof data.savedAt === 'string' ? data.savedAt : '',
+    source: {
+      name: source.name,
+      size: numberOr(source.size, 0),
+      hash: source.hash,
+      duration: source.duration as number,
+      sampleRate: numberOr(source.sampleRate, 0),
+      numberOfChannels: numberOr(source.numberOfChannels, 0),
+    },
+    markers,
+    zoom: {
+      zoomLevel: numberOr(zoom.zoomLevel, 1),
+      panOffset: numberOr(zoom.panOffset, 0),
+    },
+    tempo: {
+      detectedBpm: bpmOrNull(tempo.detectedBpm),
+      bpmOverride: bpmOrNull(tempo.bpmOverride),
+      beatsPerBar: clampedNumber(tempo.beatsPerBar, 1, 16, true) ?? 4,
+    },
+    snap: parseSnapSettings(data.snap),
+    exportSettings: parseExportSettings(data.exportSettings),
+  };
+}
+
+/**
+ * Builds the default project file name for an audio file.
+ * @param audioFileName Name of the source audio file
+ * @returns File name with the project extension
+ */
+export function getProjectFileName(audioFileName: string): string {
+  return `${getBaseName(audioFileName)}${PROJECT_FILE_EXTENSION}`;
+}
@@ -0,0 +1,65 @@
+// SFZ instrument utilities
+// Writes an .sfz file mapping exported section samples to consecutive keys
+
+import type { InstrumentPlayback, InstrumentSlice } from '../types/instrument';
+
+/**
+ * Options for the SFZ file
+ */
+export interface SfzOptions {
+  /** Name written as a header comment (usually the source file) */
+  name: string;
+  /** Folder containing the samples, relative to the .sfz file (empty for the same folder) */
+  samplePath: string;
+  /** How slices play when their key is held */
+  playback: InstrumentPlayback;
+}
+
+/**
+ * Formats a number for an SFZ opcode without trailing zeros.
+ */
+function formatValue(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+/**
+ * Writes an SFZ instrument with one region per slice.
+ * Each region covers a single key; one-shot slices play to the end, looped slices
+ * loop continuously between the slice's loop points while the key is held.
+ * @param slices Slices in key order
+ * @param options Header, sample folder and playback mode
+ * @returns The .sfz file contents
+ */
+export function createSfzFile(slices: InstrumentSlice[], options: SfzOptions): string {
+  const lines = [`// ${options.name}`, `// ${slices.length} slices`, ''];
+
+  lines.push('<control>');
+  if (options.samplePath) {
+    lines.push(`default_path=${options.samplePath.replace(/\/?$/, '/')}`);
+  }
+  lines.push('');
+
+  lines.push('<global>');
+  lines.push(options.playback === 'oneShot' ? 'loop_mode=one_shot' : 'loop_mode=loop_continuous');
+  lines.push('');
+
+  for (const slice of slices) {
+    lines.push(`// ${slice.name}`);
+    const opcodes = [
+      '<region>',
+      `sample=${slice.file}`,
+      `key=${slice.note}`,
+      `pitch_keycenter=${slice.note}`,
+    ];
+    if (slice.volume !== 0) {
+      opcodes.push(`volume=${formatValue(slice.volume)}`);
+    }
+    if (options.playback === 'loop') {
+      // SFZ loop_end is inclusive
+      opcodes.push(`loop_start=${slice.loop.start}`, `loop_end=${Math.max(slice.loop.start, slice.loop.end - 1)}`);
+    }
+    lines.push(opcodes.join(' '));
+  }
+
+  return lines.join('\r\n') + '\r\n';
+}
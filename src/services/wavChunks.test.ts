@@ -0,0 +1,186 @@
+import { describe, expect, it } from 'vitest';
+import { createCueChunks, createRiffChunk, createSamplerChunk, readWavMarkers } from './wavChunks';
+
+const SAMPLE_RATE = 48000;
+
+/**
+ * Build a minimal 16-bit mono WAV file with the given data size and trailing chunks.
+ * Odd data sizes get the pad byte required before the next chunk.
+ */
+function createWavFile(dataSize: number, chunks: Uint8Array[]): ArrayBuffer {
+  const fmt = new Uint8Array(16);
+  const fmtView = new DataView(fmt.buffer);
+  fmtView.setUint16(0, 1, true); // PCM
+  fmtView.setUint16(2, 1, true); // Channels
+  fmtView.setUint32(4, SAMPLE_RATE, true);
+  fmtView.setUint32(8, SAMPLE_RATE * 2, true);
+  fmtView.setUint16(12, 2, true);
+  fmtView.setUint16(14, 16, true);
+
+  const body = [
+    new TextEncoder().encode('WAVE'),
+    createRiffChunk('fmt ', fmt),
+    createRiffChunk('data', new Uint8Array(dataSize)),
+    ...chunks,
+  ];
+  return createRiffChunk('RIFF', concat(body)).buffer as ArrayBuffer;
+}
+
+/**
+ * Join byte arrays
+ */
+function concat(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+/**
+ * Build an adtl sub-chunk holding a cue ID followed by extra data
+ */
+function createAdtlEntry(id: string, cueId: number, data: Uint8Array): Uint8Array {
+  const entry = new Uint8Array(4 + data.length);
+  new DataView(entry.buffer).setUint32(0, cueId, true);
+  entry.set(data, 4);
+  return createRiffChunk(id, entry);
+}
+
+describe('createRiffChunk', () => {
+  it.each([
+    [4, 12],
+    [5, 14],
+    [0, 8],
+  ])('pads %i data bytes to a %i-byte chunk', (dataSize, chunkSize) => {
+    const chunk = createRiffChunk('test', new Uint8Array(dataSize).fill(0xff));
+    const view = new DataView(chunk.buffer);
+    expect(chunk.length).toBe(chunkSize);
+    // The size field excludes the pad byte
+    expect(view.getUint32(4, true)).toBe(dataSize);
+    expect(chunk.subarray(8, 8 + dataSize).every((byte) => byte === 0xff)).toBe(true);
+    expect(chunk.subarray(8 + dataSize).every((byte) => byte === 0)).toBe(true);
+  });
+});
+
+describe('cue chunk round trip', () => {
+  it.each([1000, 1001])('reads back cue points and labels after a %i-byte data chunk', (dataSize) => {
+    const cuePoints = [
+      { sampleOffset: 0, label: 'Kick' },
+      { sampleOffset: 12000, label: 'Hi' },
+      { sampleOffset: 24000, label: '' },
+      { sampleOffset: 36000, label: 'Snare' },
+      { sampleOffset: 47999, label: 'Grüße' },
+    ];
+
+    const markers = readWavMarkers(createWavFile(dataSize, createCueChunks(cuePoints)));
+
+    expect(markers).toEqual({
+      cuePoints: [
+        { id: 1, time: 0, label: 'Kick', duration: undefined },
+        { id: 2, time: 0.25, label: 'Hi', duration: undefined },
+        { id: 3, time: 0.5, label: '', duration: undefined },
+        { id: 4, time: 0.75, label: 'Snare', duration: undefined },
+        { id: 5, time: 47999 / SAMPLE_RATE, label: 'Grüße', duration: undefined },
+      ],
+      loops: [],
+    });
+  });
+
+  it('pads odd-length labels so the following labels stay aligned', () => {
+    const [, list] = createCueChunks([
+      { sampleOffset: 0, label: 'Hat' }, // Cue ID + 4 bytes of text and NUL: even
+      { sampleOffset: 1, label: 'Kick' }, // Cue ID + 5 bytes: odd, padded
+      { sampleOffset: 2, label: 'Last' },
+    ]);
+    const view = new DataView(list.buffer);
+    // LIST header, 'adtl', then labl chunks of 8 + 8 and 8 + 9 + 1 bytes
+    expect(new TextDecoder().decode(list.subarray(8, 12))).toBe('adtl');
+    expect(view.getUint32(16, true)).toBe(8);
+    expect(view.getUint32(32, true)).toBe(9);
+    expect(new TextDecoder().decode(list.subarray(46, 50))).toBe('labl');
+    expect(list.length % 2).toBe(0);
+  });
+
+  it('writes no label list when no cue point is labeled', () => {
+    const chunks = createCueChunks([{ sampleOffset: 10, label: '' }]);
+    expect(chunks).toHaveLength(1);
+    expect(createCueChunks([])).toEqual([]);
+  });
+
+  it('reads labeled-text regions and falls back to notes for unlabeled cue points', () => {
+    const [cue] = createCueChunks([
+      { sampleOffset: 4800, label: '' },
+      { sampleOffset: 9600, label: '' },
+    ]);
+    const ltxt = new Uint8Array(16 + 6);
+    new DataView(ltxt.buffer).setUint32(0, 2400, true); // Sample length
+    ltxt.set(new TextEncoder().encode('Verse'), 16);
+    const list = createRiffChunk('LIST', concat([
+      new TextEncoder().encode('adtl'),
+      createAdtlEntry('ltxt', 1, ltxt),
+      createAdtlEntry('note', 2, new TextEncoder().encode('Comment\0')),
+    ]));
+
+    const markers = readWavMarkers(createWavFile(11, [cue, list]));
+
+    expect(markers?.cuePoints).toEqual([
+      { id: 1, time: 0.1, label: 'Verse', duration: 0.05 },
+      { id: 2, time: 0.2, label: 'Comment', duration: undefined },
+    ]);
+  });
+});
+
+describe('sampler chunk round trip', () => {
+  it('reads back the loop with an exclusive end', () => {
+    const smpl = createSamplerChunk({ sampleRate: SAMPLE_RATE, unityNote: 60, fineTuneCents: 0, loopStart: 4800, loopEnd: 9600 });
+
+    const markers = readWavMarkers(createWavFile(3, [smpl]));
+
+    expect(markers).toEqual({ cuePoints: [], loops: [{ start: 0.1, end: 0.2 }] });
+  });
+
+  it.each([
+    [60, 0, 60, 0],
+    [60, 25, 60, 0x40000000],
+    [60, -25, 59, 0xc0000000],
+    [0, -50, 0, 0x80000000],
+  ])('writes unity note %i with %i cents as note %i and pitch fraction %i', (note, cents, expectedNote, expectedFraction) => {
+    const smpl = createSamplerChunk({ sampleRate: SAMPLE_RATE, unityNote: note, fineTuneCents: cents, loopStart: 0, loopEnd: 10 });
+    const view = new DataView(smpl.buffer);
+    expect(new TextDecoder().decode(smpl.subarray(0, 4))).toBe('smpl');
+    expect(view.getUint32(4, true)).toBe(60);
+    expect(view.getUint32(8 + 8, true)).toBe(Math.round(1e9 / SAMPLE_RATE));
+    expect(view.getUint32(8 + 12, true)).toBe(expectedNote);
+    expect(view.getUint32(8 + 16, true)).toBe(expectedFraction);
+    expect(view.getUint32(8 + 28, true)).toBe(1);
+  });
+
+  it('keeps a one-sample loop when the loop end is not after the start', () => {
+    const smpl = createSamplerChunk({ sampleRate: SAMPLE_RATE, unityNote: 60, fineTuneCents: 0, loopStart: 100, loopEnd: 100 });
+    const view = new DataView(smpl.buffer);
+    expect(view.getUint32(8 + 44, true)).toBe(100);
+    expect(view.getUint32(8 + 48, true)).toBe(100);
+  });
+});
+
+describe('readWavMarkers', () => {
+  it('returns null for files without markers or that are not WAV', () => {
+    expect(readWavMarkers(createWavFile(10, []))).toBeNull();
+    expect(readWavMarkers(new TextEncoder().encode('FORM\x00\x00\x00\x04AIFF').buffer as ArrayBuffer)).toBeNull();
+    expect(readWavMarkers(new ArrayBuffer(4))).toBeNull();
+  });
+
+  it('keeps the cue points that fit in a truncated cue chunk', () => {
+    const [cue] = createCueChunks([
+      { sampleOffset: 48, label: '' },
+      { sampleOffset: 96, label: '' },
+    ]);
+    const file = createWavFile(2, [cue]);
+    // Cut the file in the middle of the second cue point
+    const markers = readWavMarkers(file.slice(0, file.byteLength - 10));
+    expect(markers?.cuePoints.map((cuePoint) => cuePoint.time)).toEqual([0.001]);
+  });
+});
@@ -0,0 +1,291 @@
+// WAV metadata chunk utilities
+// Reads and writes cue points (`cue ` + `LIST adtl`) and sampler loops (`smpl`) in RIFF/WAVE files
+
+import type { EmbeddedCuePoint, EmbeddedLoop, EmbeddedMarkers } from '../types/audio';
+
+/**
+ * A RIFF chunk located within a file
+ */
+interface RiffChunk {
+  /** Four-character chunk ID */
+  id: string;
+  /** Byte offset of the chunk data */
+  offset: number;
+  /** Size of the chunk data in bytes */
+  size: number;
+}
+
+/**
+ * Reads a four-character code at the given offset.
+ */
+function readFourCC(view: DataView, offset: number): string {
+  return String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3)
+  );
+}
+
+/**
+ * Reads a (possibly NUL-terminated) text field.
+ */
+function readText(view: DataView, offset: number, length: number): string {
+  const bytes = new Uint8Array(view.buffer, view.byteOffset + offset, Math.max(0, length));
+  const end = bytes.indexOf(0);
+  return new TextDecoder().decode(end >= 0 ? bytes.subarray(0, end) : bytes).trim();
+}
+
+/**
+ * Lists the sub-chunks within a byte range (chunks are word-aligned).
+ */
+function readChunks(view: DataView, start: number, end: number): RiffChunk[] {
+  const chunks: RiffChunk[] = [];
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    const id = readFourCC(view, offset);
+    const size = view.getUint32(offset + 4, true);
+    // Truncated files: keep what is readable
+    const available = Math.min(size, end - offset - 8);
+    chunks.push({ id, offset: offset + 8, size: available });
+    offset += 8 + size + (size % 2);
+  }
+
+  return chunks;
+}
+
+/**
+ * Reads labels and labeled-text lengths from a `LIST adtl` chunk.
+ */
+function readAssociatedData(
+  view: DataView,
+  chunk: RiffChunk
+): { labels: Map<number, string>; lengths: Map<number, number> } {
+  const labels = new Map<number, string>();
+  const lengths = new Map<number, number>();
+
+  for (const subChunk of readChunks(view, chunk.offset + 4, chunk.offset + chunk.size)) {
+    if (subChunk.size < 4) continue;
+    const cueId = view.getUint32(subChunk.offset, true);
+
+    if (subChunk.id === 'labl') {
+      labels.set(cueId, readText(view, subChunk.offset + 4, subChunk.size - 4));
+    } else if (subChunk.id === 'note' && !labels.has(cueId)) {
+      // Use comments as a fallback name for cue points without a label
+      labels.set(cueId, readText(view, subChunk.offset + 4, subChunk.size - 4));
+    } else if (subChunk.id === 'ltxt' && subChunk.size >= 20) {
+      lengths.set(cueId, view.getUint32(subChunk.offset + 4, true));
+      const text = readText(view, subChunk.offset + 20, subChunk.size - 20);
+      if (text && !labels.has(cueId)) {
+        labels.set(cueId, text);
+      }
+    }
+  }
+
+  return { labels, lengths };
+}
+
+/**
+ * Reads markers and loops embedded in a WAV file.
+ * Must be called before the buffer is handed to decodeAudioData (which detaches it).
+ *
+ * @param buffer The raw file contents
+ * @returns Embedded markers, or null if the file is not a WAV or carries no markers
+ */
+export function readWavMarkers(buffer: ArrayBuffer): EmbeddedMarkers | null {
+  if (buffer.byteLength < 12) return null;
+
+  const view = new DataView(buffer);
+  if (readFourCC(view, 0) !== 'RIFF' || readFourCC(view, 8) !== 'WAVE') {
+    return null;
+  }
+
+  const chunks = readChunks(view, 12, buffer.byteLength);
+  const formatChunk = chunks.find((chunk) => chunk.id === 'fmt ' && chunk.size >= 16);
+  if (!formatChunk) return null;
+  const sampleRate = view.getUint32(formatChunk.offset + 4, true);
+  if (sampleRate === 0) return null;
+
+  // Cue point labels and region lengths
+  const labels = new Map<number, string>();
+  const lengths = new Map<number, number>();
+  for (const chunk of chunks) {
+    if (chunk.id === 'LIST' && chunk.size >= 4 && readFourCC(view, chunk.offset) === 'adtl') {
+      const associatedData = readAssociatedData(view, chunk);
+      associatedData.labels.forEach((label, id) => labels.set(id, label));
+      associatedData.lengths.forEach((length, id) => lengths.set(id, length));
+    }
+  }
+
+  // Cue points (24 bytes each after the count)
+  const cuePoints: EmbeddedCuePoint[] = [];
+  const cueChunk = chunks.find((chunk) => chunk.id === 'cue ' && chunk.size >= 4);
+  if (cueChunk) {
+    const count = view.getUint32(cueChunk.offset, true);
+    for (let i = 0; i < count && 4 + (i + 1) * 24 <= cueChunk.size; i++) {
+      const pointOffset = cueChunk.offset + 4 + i * 24;
+      const id = view.getUint32(pointOffset, true);
+      const sampleOffset = view.getUint32(pointOffset + 20, true);
+      const length = lengths.get(id);
+      cuePoints.push({
+        id,
+        time: sampleOffset / sampleRate,
+        label: labels.get(id) ?? '',
+        duration: length ? length / sampleRate : undefined,
+      });
+    }
+  }
+  cuePoints.sort((a, b) => a.time - b.time);
+
+  // Sampler loops (24 bytes each after the 36-byte header)
+  const loops: EmbeddedLoop[] = [];
+  const samplerChunk = chunks.find((chunk) => chunk.id === 'smpl' && chunk.size >= 36);
+  if (samplerChunk) {
+    const count = view.getUint32(samplerChunk.offset + 28, true);
+    for (let i = 0; i < count && 36 + (i + 1) * 24 <= samplerChunk.size; i++) {
+      const loopOffset = samplerChunk.offset + 36 + i * 24;
+      const start = view.getUint32(loopOffset + 8, true);
+      const end = view.getUint32(loopOffset + 12, true);
+      if (end >= start) {
+        // Loop end is the last sample played (inclusive)
+        loops.push({ start: start / sampleRate, end: (end + 1) / sampleRate });
+      }
+    }
+  }
+
+  if (cuePoints.length === 0 && loops.length === 0) {
+    return null;
+  }
+
+  return { cuePoints, loops };
+}
+
+/**
+ * Cue point to write into a WAV file
+ */
+export interface WavCuePoint {
+  /** Position in sample frames from the start of the data chunk */
+  sampleOffset: number;
+  /** Label text (written as a `labl` entry when non-empty) */
+  label: string;
+}
+
+/**
+ * Builds a RIFF chunk (header, data and pad byte for odd sizes).
+ * @param id Four-character chunk ID
+ * @param data Chunk data
+ * @returns The complete chunk
+ */
+export function createRiffChunk(id: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(8 + data.length + (data.length % 2));
+  const view = new DataView(chunk.buffer);
+  for (let i = 0; i < 4; i++) {
+    view.setUint8(i, id.charCodeAt(i));
+  }
+  view.setUint32(4, data.length, true);
+  chunk.set(data, 8);
+  return chunk;
+}
+
+/**
+ * Builds the `cue ` and `LIST adtl` chunks for a set of cue points.
+ * Cue point IDs are assigned in order starting at 1.
+ * @param cuePoints Cue points to write
+ * @returns The cue chunk followed by the label list chunk (empty if there are no cue points)
+ */
+export function createCueChunks(cuePoints: WavCuePoint[]): Uint8Array[] {
+  if (cuePoints.length === 0) return [];
+
+  // cue: count + 24 bytes per point
+  const cueData = new Uint8Array(4 + cuePoints.length * 24);
+  const cueView = new DataView(cueData.buffer);
+  cueView.setUint32(0, cuePoints.length, true);
+  cuePoints.forEach((cuePoint, index) => {
+    const offset = 4 + index * 24;
+    cueView.setUint32(offset, index + 1, true); // Cue point ID
+    cueView.setUint32(offset + 4, cuePoint.sampleOffset, true); // Play order position
+    cueData.set([0x64, 0x61, 0x74, 0x61], offset + 8); // 'data' chunk
+    cueView.setUint32(offset + 12, 0, true); // Chunk start
+    cueView.setUint32(offset + 16, 0, true); // Block start
+    cueView.setUint32(offset + 20, cuePoint.sampleOffset, true); // Sample offset
+  });
+
+  // LIST adtl: one labl sub-chunk per labeled cue point
+  const encoder = new TextEncoder();
+  const labelChunks = cuePoints
+    .map((cuePoint, index) => {
+      if (!cuePoint.label) return null;
+      const text = encoder.encode(cuePoint.label);
+      const data = new Uint8Array(4 + text.length + 1); // Cue ID + NUL-terminated text
+      new DataView(data.buffer).setUint32(0, index + 1, true);
+      data.set(text, 4);
+      return createRiffChunk('labl', data);
+    })
+    .filter((chunk): chunk is Uint8Array => chunk !== null);
+
+  const chunks = [createRiffChunk('cue ', cueData)];
+  if (labelChunks.length > 0) {
+    const listSize = 4 + labelChunks.reduce((total, chunk) => total + chunk.length, 0);
+    const listData = new Uint8Array(listSize);
+    listData.set(encoder.encode('adtl'), 0);
+    let offset = 4;
+    for (const chunk of labelChunks) {
+      listData.set(chunk, offset);
+      offset += chunk.length;
+    }
+    chunks.push(createRiffChunk('LIST', listData));
+  }
+
+  return chunks;
+}
+
+/**
+ * Sampler settings and loop to write into a WAV file
+ */
+export interface WavSamplerInfo {
+  /** Sample rate in Hz (for the sample period field) */
+  sampleRate: number;
+  /** MIDI note played back at the original pitch (0-127) */
+  unityNote: number;
+  /** Pitch correction in cents (-50 to +50) */
+  fineTuneCents: number;
+  /** Loop start in sample frames */
+  loopStart: number;
+  /** Loop end in sample frames (exclusive) */
+  loopEnd: number;
+}
+
+/**
+ * Builds a `smpl` chunk with a single forward loop.
+ * @param info Unity note, fine tune and loop range
+ * @returns The complete chunk
+ */
+export function createSamplerChunk(info: WavSamplerInfo): Uint8Array {
+  // Negative cents are expressed as a fraction above the next lower note
+  const cents = Math.max(-50, Math.min(50, info.fineTuneCents));
+  const unityNote = Math.max(0, Math.min(127, Math.round(info.unityNote) - (cents < 0 ? 1 : 0)));
+  const pitchFraction = Math.round(((cents < 0 ? 100 + cents : cents) / 100) * 0x100000000);
+
+  // 36-byte header + 24 bytes per loop
+  const data = new Uint8Array(36 + 24);
+  const view = new DataView(data.buffer);
+  view.setUint32(0, 0, true); // Manufacturer
+  view.setUint32(4, 0, true); // Product
+  view.setUint32(8, Math.round(1e9 / info.sampleRate), true); // Sample period in nanoseconds
+  view.setUint32(12, unityNote, true); // MIDI unity note
+  view.setUint32(16, Math.min(pitchFraction, 0xffffffff), true); // MIDI pitch fraction
+  view.setUint32(20, 0, true); // SMPTE format
+  view.setUint32(24, 0, true); // SMPTE offset
+  view.setUint32(28, 1, true); // Number of loops
+  view.setUint32(32, 0, true); // Sampler data size
+
+  view.setUint32(36, 0, true); // Cue point ID
+  view.setUint32(40, 0, true); // Loop type (forward)
+  view.setUint32(44, info.loopStart, true); // Loop start
+  view.setUint32(48, Math.max(info.loopStart, info.loopEnd - 1), true); // Loop end (inclusive)
+  view.setUint32(52, 0, true); // Fraction
+  view.setUint32(56, 0, true); // Play count (infinite)
+
+  return createRiffChunk('smpl', data);
+}
@@ -0,0 +1,55 @@
+/**
+ * Onset strength envelope computed from an AudioBuffer (spectral flux)
+ */
+export interface OnsetEnvelope {
+  /** Onset strength per analysis frame, normalized between 0 and 1 */
+  values: Float32Array;
+  /** Number of samples between consecutive analysis frames */
+  hopSize: number;
+  /** Sample rate of the source audio */
+  sampleRate: number;
+}
+
+/**
+ * Options for transient/onset detection
+ */
+export interface OnsetDetectionOptions {
+  /** Detection sensitivity between 0 (only the strongest hits) and 1 (every small transient) */
+  sensitivity: number;
+  /** Minimum gap between two detected onsets in milliseconds */
+  minGapMs: number;
+}
+
+/**
+ * Options for tempo estimation
+ */
+export interface TempoEstimationOptions {
+  /** Slowest tempo to consider in BPM */
+  minBpm?: number;
+  /** Fastest tempo to consider in BPM */
+  maxBpm?: number;
+}
+
+/**
+ * Options for silence detection
+ */
+export interface SilenceDetectionOptions {
+  /** Level (in dBFS) below which audio counts as silence */
+  thresholdDb: number;
+  /** Shortest gap (in milliseconds) that splits two sounds */
+  minSilenceMs: number;
+  /** Extra time (in milliseconds) kept before each sound */
+  paddingBeforeMs: number;
+  /** Extra time (in milliseconds) kept after each sound */
+  paddingAfterMs: number;
+}
+
+/**
+ * Time range of non-silent audio
+ */
+export interface AudioRegion {
+  /** Start time in seconds */
+  start: number;
+  /** End time in seconds */
+  end: number;
+}
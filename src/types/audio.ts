@@ -11,12 +11,15 @@ export const SUPPORTED_AUDIO_FORMATS = [
   'audio/aac',
   'audio/flac',
   'audio/x-flac',
+  'audio/aiff',
+  'audio/x-aiff',
+  'audio/x-aifc',
 ] as const;
 
 /**
  * Supported file extensions
  */
-export const SUPPORTED_EXTENSIONS = ['.wav', '.mp3', '.m4a', '.aac', '.flac'] as const;
+export const SUPPORTED_EXTENSIONS = ['.wav', '.mp3', '.m4a', '.aac', '.flac', '.aif', '.aiff', '.aifc'] as const;
 
 export type SupportedAudioFormat = (typeof SUPPORTED_AUDIO_FORMATS)[number];
 export type SupportedExtension = (typeof SUPPORTED_EXTENSIONS)[number];
@@ -35,12 +38,64 @@ export interface AudioMetadata {
   length: number;
 }
 
+/**
+ * Metadata tags written into exported audio files (ID3 for MP3, Vorbis comments for FLAC)
+ */
+export interface AudioTags {
+  /** Title (section name) */
+  title?: string;
+  /** Album (source file name) */
+  album?: string;
+  /** Track number, 1-based */
+  track?: number;
+  /** Total number of tracks, written as "track/total" (ID3) or TRACKTOTAL (Vorbis) when set */
+  trackCount?: number;
+  /** Tempo in beats per minute (rounded to an integer) */
+  bpm?: number | null;
+}
+
+/**
+ * Cue point embedded in the source file (WAV `cue ` chunk with `LIST adtl` labels, or AIFF `MARK` chunk)
+ */
+export interface EmbeddedCuePoint {
+  /** Cue point ID from the file */
+  id: number;
+  /** Position in seconds */
+  time: number;
+  /** Label text (empty if the cue point has no label) */
+  label: string;
+  /** Length in seconds for labeled regions (`ltxt`), omitted for point cues */
+  duration?: number;
+}
+
+/**
+ * Sampler loop embedded in the source file (WAV `smpl` chunk, or AIFF `INST` sustain loop)
+ */
+export interface EmbeddedLoop {
+  /** Loop start in seconds */
+  start: number;
+  /** Loop end in seconds (exclusive) */
+  end: number;
+}
+
+/**
+ * Markers and loops found in the source file's metadata
+ */
+export interface EmbeddedMarkers {
+  /** Cue points sorted by time */
+  cuePoints: EmbeddedCuePoint[];
+  /** Sampler loops in file order */
+  loops: EmbeddedLoop[];
+}
+
 /**
  * Result of successful audio decoding
  */
 export interface AudioDecodeResult {
   audioBuffer: AudioBuffer;
   metadata: AudioMetadata;
+  /** Markers embedded in the file, or null if it carries none */
+  embeddedMarkers: EmbeddedMarkers | null;
 }
 
 /**
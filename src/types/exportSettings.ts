@@ -0,0 +1,75 @@
+import type { InstrumentPlayback, Op1Device } from './instrument';
+
+/**
+ * Audio formats for bulk section exports
+ */
+export type ExportAllFormat = 'wav' | 'mp3' | 'flac' | 'aiff';
+
+/**
+ * Sample encodings for WAV exports
+ * - 'pcm16' / 'pcm24': signed integer PCM
+ * - 'float32': 32-bit IEEE float
+ */
+export type WavSampleFormat = 'pcm16' | 'pcm24' | 'float32';
+
+/**
+ * Sections included in bulk exports
+ * - 'all': every section
+ * - 'enabled': enabled sections only
+ * - 'custom': sections chosen in the export dialog
+ */
+export type ExportSectionSelection = 'all' | 'enabled' | 'custom';
+
+/**
+ * Target sample rates offered for WAV, AIFF and FLAC exports (in Hz)
+ */
+export const EXPORT_SAMPLE_RATES = [44100, 48000, 96000] as const;
+
+/**
+ * Constant bitrates offered for MP3 exports (in kbps)
+ */
+export const MP3_BITRATES = [128, 160, 192, 224, 256, 320] as const;
+
+/**
+ * Settings applied to section exports
+ */
+export interface ExportSettings {
+  /** Last used bulk export format */
+  format: ExportAllFormat;
+  /** Sections included in bulk exports */
+  sectionSelection: ExportSectionSelection;
+  /** Start marker ids of the sections chosen for the 'custom' selection */
+  selectedMarkerIds: string[];
+  /** Template for exported section filenames, e.g. "{source}_{index:02}_{name}" */
+  filenameTemplate: string;
+  /** Whether ZIP exports include manifest.csv next to manifest.json */
+  manifestCsv: boolean;
+  /** Sample encoding of WAV and AIFF exports (FLAC uses 24-bit for the 24-bit and float settings) */
+  wavSampleFormat: WavSampleFormat;
+  /** Whether TPDF dither is added when reducing to integer PCM (WAV and FLAC) */
+  dither: boolean;
+  /** Target sample rate in Hz for WAV, AIFF and FLAC exports (null keeps the source rate) */
+  sampleRate: number | null;
+  /** Constant bitrate of MP3 exports in kbps */
+  mp3Bitrate: number;
+  /** Whether MP3 exports are downmixed to mono */
+  mp3Mono: boolean;
+  /** Whether AIFF exports are written as AIFF-C (always the case for float samples) */
+  aifc: boolean;
+  /** FLAC compression level, 0 (fastest) to 8 (smallest) */
+  flacCompressionLevel: number;
+  /** Whether WAV and AIFF exports include sampler data with a loop (`smpl` / `INST` chunks) */
+  samplerChunk: boolean;
+  /** MIDI note played back at the original pitch (written to the sampler chunk) */
+  unityNote: number;
+  /** Pitch correction in cents, -50 to +50 (written to the sampler chunk) */
+  fineTuneCents: number;
+  /** MIDI note of the first slice in instrument exports (later slices follow chromatically) */
+  instrumentRootNote: number;
+  /** How slices play in instrument exports */
+  instrumentPlayback: InstrumentPlayback;
+  /** Gain in dB per slice in instrument exports, keyed by start marker id (missing = 0 dB) */
+  sliceVolumes: Record<string, number>;
+  /** Device whose limits apply to drum chain exports */
+  op1Device: Op1Device;
+}
@@ -0,0 +1,34 @@
+/**
+ * Instrument and sampler formats that sections can be exported to
+ */
+export type InstrumentExportTarget = 'sfz' | 'dspreset' | 'xpm' | 'op1';
+
+/**
+ * Teenage Engineering devices accepting drum chain AIFF files
+ */
+export type Op1Device = 'op1' | 'op1field';
+
+/**
+ * How a slice plays when its key is held
+ * - 'oneShot': plays to the end regardless of note length
+ * - 'loop': loops while the key is held (section loop points, or the whole slice)
+ */
+export type InstrumentPlayback = 'oneShot' | 'loop';
+
+/**
+ * One exported sample mapped onto a key
+ */
+export interface InstrumentSlice {
+  /** Sample path inside the exported bundle */
+  file: string;
+  /** Display name (from the section name) */
+  name: string;
+  /** MIDI note the slice is mapped to */
+  note: number;
+  /** Gain in dB */
+  volume: number;
+  /** Length of the sample in frames */
+  length: number;
+  /** Loop range in frames (end exclusive) */
+  loop: { start: number; end: number };
+}
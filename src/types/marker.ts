@@ -1,3 +1,15 @@
+import type { UndoRedoState } from './undoRedo';
+
+/**
+ * Loop range within a section, relative to the section start (in seconds)
+ */
+export interface SectionLoop {
+  /** Loop start in seconds from the section start */
+  start: number;
+  /** Loop end in seconds from the section start */
+  end: number;
+}
+
 /**
  * Represents a marker on the waveform timeline
  */
@@ -10,6 +22,21 @@ export interface Marker {
   name: string;
   /** Whether the section starting at this marker is enabled (default: true) */
   enabled?: boolean;
+  /** Loop sub-range of the section starting at this marker (default: whole section) */
+  loop?: SectionLoop;
+}
+
+/**
+ * Partial marker description used when creating markers in bulk.
+ * Missing fields fall back to the same defaults as a clicked marker.
+ */
+export interface MarkerDraft {
+  /** Time position in seconds */
+  time: number;
+  /** Display name for the section (defaults to "Section N") */
+  name?: string;
+  /** Whether the section starting at this marker is enabled (defaults to true) */
+  enabled?: boolean;
 }
 
 /**
@@ -24,6 +51,8 @@ export interface MarkersState {
   canUndo: boolean;
   /** Whether redo is available */
   canRedo: boolean;
+  /** Full undo/redo history of the markers (for session autosave) */
+  markerHistory: UndoRedoState<Marker[]>;
 }
 
 /**
@@ -32,6 +61,13 @@ export interface MarkersState {
 export interface MarkersActions {
   /** Add a new marker at the specified time */
   addMarker: (time: number) => Marker;
+  /**
+   * Add several markers at once as a single undo history entry.
+   * Drafts that land on an existing marker are skipped.
+   */
+  addMarkers: (drafts: MarkerDraft[]) => Marker[];
+  /** Replace all markers at once as a single undo history entry */
+  replaceMarkers: (drafts: MarkerDraft[]) => Marker[];
   /** Update an existing marker's time */
   updateMarker: (id: string, time: number) => void;
   /** Update an existing marker's time without creating undo history (for intermediate drag updates) */
@@ -41,10 +77,14 @@ export interface MarkersActions {
    * Records the change from fromTime to toTime as a single history entry.
    */
   updateMarkerAtomic: (id: string, fromTime: number, toTime: number) => void;
+  /** Move several markers at once as a single undo history entry (map of marker ID to new time) */
+  updateMarkerTimes: (times: Record<string, number>) => void;
   /** Update an existing marker's name */
   updateMarkerName: (id: string, name: string) => void;
   /** Update an existing marker's enabled state */
   updateMarkerEnabled: (id: string, enabled: boolean) => void;
+  /** Set or clear (undefined) the loop range of the section starting at a marker */
+  updateMarkerLoop: (id: string, loop: SectionLoop | undefined) => void;
   /** Delete a marker by ID */
   deleteMarker: (id: string) => void;
   /** Get all markers */
@@ -59,4 +99,8 @@ export interface MarkersActions {
   redo: () => void;
   /** Reset all markers and clear undo/redo history */
   reset: () => void;
+  /** Replace all markers with previously saved ones and clear undo/redo history */
+  restoreMarkers: (markers: Marker[]) => void;
+  /** Replace markers together with their saved undo/redo history */
+  restoreMarkerHistory: (snapshot: UndoRedoState<Marker[]>) => void;
 }
@@ -0,0 +1,66 @@
+import type { MarkerDraft } from './marker';
+
+/**
+ * Marker list formats that can be imported
+ */
+export type MarkerImportFormat = 'cue' | 'audacity' | 'reaper';
+
+/**
+ * Marker list formats that sections can be exported to
+ */
+export type MarkerExportFormat = 'cue' | 'audacity' | 'reaper' | 'csv' | 'json';
+
+/**
+ * Labeled position or range read from a marker file
+ */
+export interface ImportedLabel {
+  /** Start time in seconds */
+  start: number;
+  /** End time in seconds (omitted for point markers) */
+  end?: number;
+  /** Label text (empty if the file has none) */
+  name: string;
+}
+
+/**
+ * Tempo context for marker files that use musical time (REAPER bars.beats)
+ */
+export interface MarkerImportOptions {
+  /** Tempo in BPM, or null if unknown */
+  bpm: number | null;
+  /** Number of beats per bar */
+  beatsPerBar: number;
+}
+
+/**
+ * Result of importing a marker file
+ */
+export interface MarkerImportResult {
+  /** Detected file format */
+  format: MarkerImportFormat;
+  /** Markers to add, sorted by time */
+  drafts: MarkerDraft[];
+  /** Number of labels skipped because they lie outside the loaded audio */
+  skippedCount: number;
+}
+
+/**
+ * Error types for marker file import
+ */
+export type MarkerImportErrorType =
+  | 'UNSUPPORTED_FORMAT'
+  | 'PARSE_ERROR'
+  | 'NO_MARKERS';
+
+/**
+ * Marker import error with type information
+ */
+export class MarkerImportError extends Error {
+  readonly type: MarkerImportErrorType;
+
+  constructor(type: MarkerImportErrorType, message: string) {
+    super(message);
+    this.name = 'MarkerImportError';
+    this.type = type;
+  }
+}
@@ -0,0 +1,89 @@
+import type { Marker } from './marker';
+import type { SnapSettings } from './snap';
+import type { ExportSettings } from './exportSettings';
+
+/**
+ * Identifier written to every project file
+ */
+export const PROJECT_FILE_FORMAT = 'sample-slice-tool/project';
+
+/**
+ * Current project file format version
+ * Bump when the structure changes and add a migration in parseProjectFile
+ */
+export const PROJECT_FILE_VERSION = 1;
+
+/**
+ * File extension used for saved projects
+ */
+export const PROJECT_FILE_EXTENSION = '.slices.json';
+
+/**
+ * Description of the audio file a project was made with
+ */
+export interface ProjectSource {
+  /** Original file name */
+  name: string;
+  /** File size in bytes */
+  size: number;
+  /** SHA-256 hash of the file contents (hex) */
+  hash: string;
+  /** Duration in seconds */
+  duration: number;
+  /** Sample rate in Hz */
+  sampleRate: number;
+  /** Number of audio channels */
+  numberOfChannels: number;
+}
+
+/**
+ * Saved slice project (versioned JSON document)
+ */
+export interface ProjectFile {
+  /** Format identifier (always PROJECT_FILE_FORMAT) */
+  format: typeof PROJECT_FILE_FORMAT;
+  /** Format version the file was written with */
+  version: number;
+  /** ISO timestamp of when the project was saved */
+  savedAt: string;
+  /** Audio file the markers belong to */
+  source: ProjectSource;
+  /** All markers with their names and enabled state */
+  markers: Marker[];
+  /** Zoom and pan state of the waveform view */
+  zoom: {
+    zoomLevel: number;
+    panOffset: number;
+  };
+  /** Tempo state */
+  tempo: {
+    detectedBpm: number | null;
+    bpmOverride: number | null;
+    beatsPerBar: number;
+  };
+  /** Marker snapping settings */
+  snap: Partial<SnapSettings>;
+  /** Export settings */
+  exportSettings: Partial<ExportSettings>;
+}
+
+/**
+ * Error types for project file parsing
+ */
+export type ProjectFileErrorType =
+  | 'INVALID_JSON'
+  | 'INVALID_FORMAT'
+  | 'UNSUPPORTED_VERSION';
+
+/**
+ * Project file error with type information
+ */
+export class ProjectFileError extends Error {
+  readonly type: ProjectFileErrorType;
+
+  constructor(type: ProjectFileErrorType, message: string) {
+    super(message);
+    this.name = 'ProjectFileError';
+    this.type = type;
+  }
+}
@@ -1,4 +1,4 @@
-import type { Marker } from './marker';
+import type { Marker, SectionLoop } from './marker';
 
 /**
  * Represents a valid section between two consecutive markers
@@ -18,4 +18,6 @@ export interface Section {
   name: string;
   /** Whether the section is enabled (inherited from startMarker) */
   enabled: boolean;
+  /** Loop sub-range relative to the section start (inherited from startMarker, undefined = whole section) */
+  loop?: SectionLoop;
 }
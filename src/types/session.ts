@@ -0,0 +1,43 @@
+import type { UndoRedoState } from './undoRedo';
+import type { Marker } from './marker';
+import type { ProjectFile, ProjectSource } from './project';
+
+/**
+ * Current autosave record version
+ * Records written with a different version are discarded instead of restored
+ */
+export const AUTOSAVE_VERSION = 1;
+
+/**
+ * Editor state persisted on every change for crash recovery
+ */
+export interface AutosaveSession extends Pick<ProjectFile, 'zoom' | 'tempo' | 'snap' | 'exportSettings'> {
+  /** Record version (always AUTOSAVE_VERSION) */
+  version: number;
+  /** Timestamp (ms since epoch) of the last save */
+  savedAt: number;
+  /** Audio file the session belongs to */
+  source: ProjectSource;
+  /** Markers including their undo/redo history */
+  markerHistory: UndoRedoState<Marker[]>;
+}
+
+/**
+ * Audio file stored alongside the autosaved session
+ */
+export interface AutosaveAudio {
+  /** SHA-256 hash of the file contents (matches AutosaveSession.source.hash) */
+  hash: string;
+  /** Original file name */
+  name: string;
+  /** File contents */
+  blob: Blob;
+}
+
+/**
+ * Autosaved session together with its audio, ready to be restored
+ */
+export interface RestorableSession {
+  session: AutosaveSession;
+  audio: AutosaveAudio;
+}
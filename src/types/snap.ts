@@ -0,0 +1,48 @@
+/**
+ * Available snap grid types
+ * - 'beats' / 'bars': musical grid at the current tempo
+ * - 'milliseconds': fixed time interval
+ * - 'frames': video frames at a frame rate
+ * - 'samples': sample-accurate positions
+ */
+export type SnapGridMode = 'beats' | 'bars' | 'milliseconds' | 'frames' | 'samples';
+
+/**
+ * Settings for snapping marker positions while editing
+ */
+export interface SnapSettings {
+  /** Whether markers snap to the nearest zero crossing when added or dragged */
+  zeroCrossing: boolean;
+  /** Zero crossing search window in milliseconds on each side of the marker */
+  zeroCrossingWindowMs: number;
+  /** Whether markers snap to the grid when added, dragged or nudged */
+  gridEnabled: boolean;
+  /** Type of grid to snap to (kept while the grid is disabled) */
+  gridMode: SnapGridMode;
+  /** Grid interval in milliseconds (for 'milliseconds' mode) */
+  gridMs: number;
+  /** Frame rate in frames per second (for 'frames' mode) */
+  gridFps: number;
+  /** Time of the first downbeat in milliseconds (for 'beats' and 'bars' modes) */
+  gridOffsetMs: number;
+}
+
+/**
+ * Resolved grid used for snapping and drawing grid lines
+ */
+export interface GridDefinition {
+  /** Distance between grid lines in seconds */
+  interval: number;
+  /** Time of a grid line the grid is aligned to, in seconds */
+  origin: number;
+  /** Every Nth line is emphasized (e.g., bar lines on a beat grid) */
+  accentEvery?: number;
+}
+
+/**
+ * Options passed along with a time position to snap
+ */
+export interface SnapOptions {
+  /** Invert the grid setting for this operation (modifier key held) */
+  toggleGrid?: boolean;
+}
@@ -0,0 +1,33 @@
+/**
+ * State for tempo management
+ */
+export interface TempoState {
+  /** Tempo estimated from the loaded audio, or null if detection failed */
+  detectedBpm: number | null;
+  /** User-entered tempo that overrides the detected one, or null if not overridden */
+  bpmOverride: number | null;
+  /** Effective tempo (override if set, otherwise detected) */
+  bpm: number | null;
+  /** Number of beats per bar (time signature numerator) */
+  beatsPerBar: number;
+}
+
+/**
+ * Actions available for tempo management
+ */
+export interface TempoActions {
+  /** Store a newly detected tempo (clears any override) */
+  setDetectedBpm: (bpm: number | null) => void;
+  /** Clear the tempo and run the (slow) detection once the browser is idle */
+  detectBpmWhenIdle: (estimate: () => number | null) => void;
+  /** Run a pending idle detection right away (for tools that need the tempo now) */
+  flushBpmDetection: () => void;
+  /** Override the tempo with a user-entered value */
+  setBpm: (bpm: number) => void;
+  /** Drop the override and fall back to the detected tempo */
+  resetBpm: () => void;
+  /** Set the number of beats per bar */
+  setBeatsPerBar: (beatsPerBar: number) => void;
+  /** Restore previously saved tempo state */
+  restoreTempo: (saved: Pick<TempoState, 'detectedBpm' | 'bpmOverride' | 'beatsPerBar'>) => void;
+}
@@ -0,0 +1,11 @@
+/**
+ * State shape for the undo/redo system
+ */
+export interface UndoRedoState<T> {
+  /** Current state value */
+  present: T;
+  /** Stack of previous states (most recent at end) */
+  past: T[];
+  /** Stack of undone states (most recent at end) */
+  future: T[];
+}
@@ -38,6 +38,8 @@ export interface ZoomActions {
   reset: () => void;
   /** Set zoom level directly */
   setZoomLevel: (level: number) => void;
+  /** Set zoom level and pan offset together (optionally clamped against a known duration) */
+  setView: (level: number, offset: number, totalDuration?: number) => void;
 }
 
 /**
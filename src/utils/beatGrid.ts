@@ -0,0 +1,47 @@
+/**
+ * Markers closer than this (in seconds) to the end of the file are dropped,
+ * since the end-of-file marker already covers that position
+ */
+const END_EPSILON = 0.001;
+
+/**
+ * Options for generating beat grid slice positions
+ */
+export interface BeatGridOptions {
+  /** Tempo in beats per minute */
+  bpm: number;
+  /** Number of beats between consecutive slices */
+  beatsPerSlice: number;
+  /** Time of the first downbeat in seconds */
+  offset: number;
+}
+
+/**
+ * Calculate marker times for slicing audio on a beat grid.
+ * Slices start at the downbeat offset and repeat every `beatsPerSlice` beats.
+ * A final marker is placed at the end of the file so the last slice is closed.
+ *
+ * @param duration - Total audio duration in seconds
+ * @param options - Tempo, slice length in beats and downbeat offset
+ * @returns Marker times in seconds, sorted ascending
+ */
+export function getBeatGridTimes(duration: number, options: BeatGridOptions): number[] {
+  const { bpm, beatsPerSlice, offset } = options;
+  if (bpm <= 0 || beatsPerSlice <= 0 || duration <= 0) {
+    return [];
+  }
+
+  const sliceDuration = (60 / bpm) * beatsPerSlice;
+  const start = Math.max(0, Math.min(offset, duration));
+  const times: number[] = [];
+
+  // Multiply instead of accumulating to avoid floating point drift on long files
+  for (let i = 0; ; i++) {
+    const time = start + i * sliceDuration;
+    if (time >= duration - END_EPSILON) break;
+    times.push(time);
+  }
+
+  times.push(duration);
+  return times;
+}
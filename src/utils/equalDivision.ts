@@ -0,0 +1,25 @@
+/**
+ * Calculate marker times that split a range into equally long slices.
+ * Both range boundaries are included, so `count` slices produce `count + 1` times.
+ *
+ * @param start - Range start in seconds
+ * @param end - Range end in seconds
+ * @param count - Number of slices
+ * @returns Marker times in seconds, sorted ascending
+ */
+export function getEqualDivisionTimes(start: number, end: number, count: number): number[] {
+  const sliceCount = Math.floor(count);
+  if (end <= start || sliceCount < 1) {
+    return [];
+  }
+
+  const sliceDuration = (end - start) / sliceCount;
+  const times: number[] = [];
+  for (let i = 0; i < sliceCount; i++) {
+    times.push(start + i * sliceDuration);
+  }
+  // Use the exact end instead of accumulated float math
+  times.push(end);
+
+  return times;
+}
@@ -0,0 +1,11 @@
+/**
+ * Remove the extension from a file name.
+ * Names starting with a dot (e.g. ".wav") are kept whole.
+ *
+ * @param fileName - File name such as "drums.wav"
+ * @returns The name without its extension
+ */
+export function getBaseName(fileName: string): string {
+  const dotIndex = fileName.lastIndexOf('.');
+  return dotIndex > 0 ? fileName.slice(0, dotIndex) : fileName;
+}
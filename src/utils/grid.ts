@@ -0,0 +1,99 @@
+import type { GridDefinition, SnapSettings } from '../types/snap';
+
+/**
+ * Tolerance (in grid intervals) for treating a time as already on a grid line
+ */
+const ON_GRID_EPSILON = 1e-6;
+
+/**
+ * Context needed to resolve grids that depend on the loaded audio
+ */
+export interface GridContext {
+  /** Tempo in BPM, or null if unknown */
+  bpm: number | null;
+  /** Number of beats per bar */
+  beatsPerBar: number;
+  /** Sample rate of the loaded audio */
+  sampleRate: number;
+}
+
+/**
+ * Resolve snap settings into a concrete grid.
+ *
+ * @param settings - Current snap settings
+ * @param context - Tempo and sample rate of the loaded audio
+ * @returns Grid definition, or null if the grid cannot be built (e.g., no tempo)
+ */
+export function getGridDefinition(settings: SnapSettings, context: GridContext): GridDefinition | null {
+  const { bpm, beatsPerBar, sampleRate } = context;
+
+  switch (settings.gridMode) {
+    case 'beats':
+    case 'bars': {
+      if (bpm === null || bpm <= 0) return null;
+      const beatDuration = 60 / bpm;
+      return settings.gridMode === 'beats'
+        ? { interval: beatDuration, origin: settings.gridOffsetMs / 1000, accentEvery: beatsPerBar }
+        : { interval: beatDuration * beatsPerBar, origin: settings.gridOffsetMs / 1000 };
+    }
+    case 'milliseconds':
+      return settings.gridMs > 0 ? { interval: settings.gridMs / 1000, origin: 0 } : null;
+    case 'frames':
+      return settings.gridFps > 0 ? { interval: 1 / settings.gridFps, origin: 0 } : null;
+    case 'samples':
+      return sampleRate > 0 ? { interval: 1 / sampleRate, origin: 0 } : null;
+  }
+}
+
+/**
+ * Snap a time position to the nearest grid line.
+ */
+export function snapToGrid(time: number, grid: GridDefinition): number {
+  const index = Math.round((time - grid.origin) / grid.interval);
+  return grid.origin + index * grid.interval;
+}
+
+/**
+ * Get the next grid line before or after a time position (used for nudging).
+ * A time already on a grid line moves to the neighbouring line.
+ *
+ * @param time - Current time in seconds
+ * @param grid - Grid to step along
+ * @param direction - 1 for the next line, -1 for the previous line
+ */
+export function getAdjacentGridTime(time: number, grid: GridDefinition, direction: 1 | -1): number {
+  const position = (time - grid.origin) / grid.interval;
+  const index = direction > 0
+    ? Math.floor(position + ON_GRID_EPSILON) + 1
+    : Math.ceil(position - ON_GRID_EPSILON) - 1;
+  return grid.origin + index * grid.interval;
+}
+
+/**
+ * Get the grid lines within a time range.
+ *
+ * @param grid - Grid to draw
+ * @param start - Range start in seconds
+ * @param end - Range end in seconds
+ * @returns Line times with accent flags, sorted ascending
+ */
+export function getGridLines(
+  grid: GridDefinition,
+  start: number,
+  end: number
+): Array<{ time: number; accent: boolean }> {
+  const firstIndex = Math.ceil((start - grid.origin) / grid.interval);
+  const lastIndex = Math.floor((end - grid.origin) / grid.interval);
+  const lines: Array<{ time: number; accent: boolean }> = [];
+
+  for (let index = firstIndex; index <= lastIndex; index++) {
+    const accentEvery = grid.accentEvery ?? 0;
+    lines.push({
+      time: grid.origin + index * grid.interval,
+      // Modulo that also works for lines before the origin
+      accent: accentEvery > 1 && ((index % accentEvery) + accentEvery) % accentEvery === 0,
+    });
+  }
+
+  return lines;
+}
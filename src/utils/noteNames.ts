@@ -0,0 +1,12 @@
+/** Note names within an octave, starting at C */
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+/**
+ * Format a MIDI note number as a note name (middle C = C3, as in most samplers).
+ *
+ * @param note - MIDI note number (0-127)
+ * @returns Note name with octave, e.g. "C3" for 60
+ */
+export function formatNoteName(note: number): string {
+  return `${NOTE_NAMES[note % 12]}${Math.floor(note / 12) - 2}`;
+}
@@ -0,0 +1,94 @@
+/**
+ * Number of input samples on each side of the output position used by the filter
+ * (at unity cutoff; the kernel widens when downsampling)
+ */
+const HALF_TAPS = 32;
+
+/** Kernel table resolution (sub-sample phases per input sample) */
+const PHASES = 256;
+
+/** Kaiser window shape parameter (about 90 dB stopband attenuation) */
+const KAISER_BETA = 9;
+
+/** Passband edge as a fraction of the lower Nyquist frequency */
+const ROLLOFF = 0.95;
+
+/**
+ * Zeroth-order modified Bessel function of the first kind (for the Kaiser window)
+ */
+function besselI0(x: number): number {
+  let sum = 1;
+  let term = 1;
+  for (let k = 1; k < 50; k++) {
+    term *= (x / (2 * k)) * (x / (2 * k));
+    sum += term;
+    if (term < sum * 1e-12) break;
+  }
+  return sum;
+}
+
+/**
+ * Build a table of the Kaiser-windowed sinc kernel, sampled at PHASES points per input sample.
+ *
+ * @param cutoff - Cutoff frequency relative to the input Nyquist frequency (0-1]
+ * @param halfWidth - Kernel half width in input samples
+ * @returns Kernel values from 0 to halfWidth (symmetric around 0)
+ */
+function createKernelTable(cutoff: number, halfWidth: number): Float64Array {
+  const table = new Float64Array(halfWidth * PHASES + 2);
+  const windowNorm = besselI0(KAISER_BETA);
+
+  for (let i = 0; i < table.length; i++) {
+    const x = i / PHASES;
+    if (x > halfWidth) break;
+    const sinc = x === 0 ? 1 : Math.sin(Math.PI * cutoff * x) / (Math.PI * cutoff * x);
+    const ratio = x / halfWidth;
+    const window = besselI0(KAISER_BETA * Math.sqrt(1 - ratio * ratio)) / windowNorm;
+    table[i] = cutoff * sinc * window;
+  }
+
+  return table;
+}
+
+/**
+ * Resample audio with a band-limited (Kaiser-windowed sinc) interpolator.
+ * The cutoff follows the lower of the two Nyquist frequencies, so downsampling is anti-aliased.
+ *
+ * @param input - Samples at the source rate
+ * @param fromRate - Source sample rate in Hz
+ * @param toRate - Target sample rate in Hz
+ * @returns Samples at the target rate (length scaled by toRate / fromRate)
+ */
+export function resample(input: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate || input.length === 0) {
+    return input.slice();
+  }
+
+  const step = fromRate / toRate;
+  const cutoff = Math.min(1, toRate / fromRate) * ROLLOFF;
+  const halfWidth = Math.ceil(HALF_TAPS / Math.min(1, toRate / fromRate));
+  const table = createKernelTable(cutoff, halfWidth);
+
+  const outputLength = Math.round(input.length / step);
+  const output = new Float32Array(outputLength);
+
+  for (let i = 0; i < outputLength; i++) {
+    const position = i * step;
+    const center = Math.floor(position);
+    const first = Math.max(0, center - halfWidth + 1);
+    const last = Math.min(input.length - 1, center + halfWidth);
+
+    let sum = 0;
+    for (let k = first; k <= last; k++) {
+      // Linear interpolation between kernel table entries
+      const tablePosition = Math.abs(position - k) * PHASES;
+      const index = Math.floor(tablePosition);
+      const fraction = tablePosition - index;
+      const weight = table[index] + (table[index + 1] - table[index]) * fraction;
+      sum += input[k] * weight;
+    }
+    output[i] = sum;
+  }
+
+  return output;
+}
@@ -1,4 +1,6 @@
-import type { Marker } from '../types/marker';
+import type { AudioRegion } from '../types/analysis';
+import type { ExportSectionSelection } from '../types/exportSettings';
+import type { Marker, MarkerDraft } from '../types/marker';
 import type { Section } from '../types/section';
 
 // Re-export Section type for convenience
@@ -41,8 +43,63 @@ export function getSections(markers: Marker[], duration?: number): Section[] {
       endTime: endMarker.time,
       name: startMarker.name,
       enabled: startMarker.enabled ?? true,
+      loop: startMarker.loop,
     });
   }
 
   return sections;
 }
+
+/**
+ * Pick the sections included in a bulk export.
+ * Sections keep their timeline order.
+ *
+ * @param sections - All sections (from getSections)
+ * @param selection - Which sections to include
+ * @param selectedMarkerIds - Start marker ids of the chosen sections (for 'custom')
+ * @returns The sections to export
+ */
+export function getExportSections(
+  sections: Section[],
+  selection: ExportSectionSelection,
+  selectedMarkerIds: string[]
+): Section[] {
+  switch (selection) {
+    case 'all':
+      return sections;
+    case 'enabled':
+      return sections.filter((section) => section.enabled);
+    case 'custom':
+      return sections.filter((section) => selectedMarkerIds.includes(section.startMarker.id));
+  }
+}
+
+/**
+ * Build markers that turn each region into an enabled section.
+ * Every region gets a start marker and an end marker; when another region follows,
+ * the end marker starts a disabled section covering the gap.
+ * Regions must be sorted and non-overlapping.
+ *
+ * @param regions - Regions to turn into sections
+ * @param names - Optional section names (by region index, defaults to "Section N")
+ * @returns Marker drafts sorted by time
+ */
+export function getMarkerDraftsForRegions(regions: AudioRegion[], names: string[] = []): MarkerDraft[] {
+  const drafts: MarkerDraft[] = [];
+
+  regions.forEach((region, index) => {
+    const previousDraft = drafts[drafts.length - 1];
+
+    // Adjacent regions share a boundary: reuse the previous end marker as this start
+    if (previousDraft && Math.abs(previousDraft.time - region.start) < 1e-6) {
+      previousDraft.name = names[index] ?? `Section ${index + 1}`;
+      previousDraft.enabled = true;
+    } else {
+      drafts.push({ time: region.start, name: names[index] ?? `Section ${index + 1}`, enabled: true });
+    }
+
+    drafts.push({ time: region.end, name: 'Gap', enabled: false });
+  });
+
+  return drafts;
+}